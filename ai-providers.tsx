@@ -0,0 +1,680 @@
+import { GoogleGenAI } from "@google/genai";
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import type { JsonSchema } from './prompt-schemas';
+
+// =================================================================
+// 🔌 PLUGGABLE AI PROVIDER REGISTRY
+// =================================================================
+// Every LLM vendor the app can talk to is described by an AiProvider
+// object and registered here. callAI, key validation, the apiClients
+// state and the Setup view all read from this registry, so adding a
+// new vendor means registering one more provider, nothing else.
+// =================================================================
+
+export const AI_MODELS = {
+    GEMINI_FLASH: 'gemini-2.5-flash',
+    GEMINI_IMAGEN: 'imagen-4.0-generate-001',
+    OPENAI_GPT4_TURBO: 'gpt-4o',
+    OPENAI_DALLE3: 'dall-e-3',
+    ANTHROPIC_OPUS: 'claude-3-7-sonnet-20250219',
+    ANTHROPIC_HAIKU: 'claude-3-5-haiku-20241022',
+    OPENROUTER_DEFAULT: [
+        'google/gemini-2.5-flash',
+        'anthropic/claude-3-haiku',
+        'microsoft/wizardlm-2-8x22b',
+        'openrouter/auto'
+    ],
+    GROQ_MODELS: [
+        'llama-3.3-70b-versatile',
+        'llama-3.1-8b-instant',
+        'gemma2-9b-it',
+        'llama3-70b-8192',
+        'llama3-8b-8192',
+        'mixtral-8x7b-32768',
+        'gemma-7b-it',
+        'meta-llama/llama-4-scout-17b-16e-instruct',
+    ]
+};
+
+/** Price per 1M tokens, in USD. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Default list prices for the models in AI_MODELS, in USD per 1M tokens.
+ * These are estimates only; users can edit them in the Setup view.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'claude-3-7-sonnet-20250219': { input: 3.00, output: 15.00 },
+    'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
+    'google/gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'anthropic/claude-3-haiku': { input: 0.25, output: 1.25 },
+    'microsoft/wizardlm-2-8x22b': { input: 0.48, output: 0.48 },
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'gemma2-9b-it': { input: 0.20, output: 0.20 },
+    'llama3-70b-8192': { input: 0.59, output: 0.79 },
+    'llama3-8b-8192': { input: 0.05, output: 0.08 },
+    'mixtral-8x7b-32768': { input: 0.24, output: 0.24 },
+    'gemma-7b-it': { input: 0.07, output: 0.07 },
+    'meta-llama/llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+};
+
+/**
+ * Estimates the cost of a completion from its token usage.
+ * @param model The model that produced the completion.
+ * @param usage The token counts reported by the provider.
+ * @param prices The price table to use.
+ * @returns The cost in USD, or null if the model has no price entry.
+ */
+export const estimateCost = (model: string, usage: AiUsage, prices: Record<string, ModelPrice>): number | null => {
+    const price = prices[model];
+    if (!price) return null;
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
+
+/**
+ * Whether an error came from cancelling a request through its AbortSignal.
+ * The SDKs disagree on the error class, so this checks by name.
+ * @param error The caught error.
+ */
+export const isAbortError = (error: any): boolean => {
+    return error?.name === 'AbortError' || error?.name === 'APIUserAbortError';
+};
+
+/**
+ * A more professional and resilient fetch function for AI APIs that includes
+ * exponential backoff for retries and intelligently fails fast on non-retriable errors.
+ * This is crucial for handling rate limits (429) and transient server issues (5xx)
+ * while avoiding wasted time on client-side errors (4xx).
+ * @param apiCall A function that returns the promise from the AI SDK call.
+ * @param maxRetries The maximum number of times to retry the call.
+ * @param initialDelay The baseline delay in milliseconds for the first retry.
+ * @param onRetry Called before each retry with the attempt that failed (1-based), the delay and the error.
+ * @param signal Cuts the wait between retries short when aborted, rejecting with an AbortError.
+ * @returns The result of the successful API call.
+ * @throws {Error} if the call fails after all retries or on a non-retriable error.
+ */
+export const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000, onRetry?: AiRetryListener, signal?: AbortSignal) => {
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+        try {
+            return await apiCall();
+        } catch (error: any) {
+            if (isAbortError(error)) throw error; // Cancelled by the user; never retry.
+            console.error(`AI call failed on attempt ${attempt + 1}. Error:`, error);
+
+            const errorMessage = (error.message || '').toLowerCase();
+            // Try to get status from error object, or parse it from the message as a fallback.
+            const statusMatch = errorMessage.match(/\[(\d{3})[^\]]*\]/);
+            const statusCode = error.status || (statusMatch ? parseInt(statusMatch[1], 10) : null);
+
+            const isNonRetriableClientError = statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 429;
+            const isContextLengthError = errorMessage.includes('context length') || errorMessage.includes('token limit');
+            const isInvalidApiKeyError = errorMessage.includes('api key not valid');
+
+            if (isNonRetriableClientError || isContextLengthError || isInvalidApiKeyError) {
+                 console.error(`Encountered a non-retriable error (Status: ${statusCode}, Message: ${error.message}). Failing immediately.`);
+                 throw error; // Fail fast.
+            }
+
+            // If it's the last attempt for any retriable error, give up.
+            if (attempt === maxRetries - 1) {
+                console.error(`AI call failed on final attempt (${maxRetries}).`);
+                throw error;
+            }
+
+            let delay: number;
+            // --- Intelligent Rate Limit Handling ---
+            if (error.status === 429 || statusCode === 429) {
+                // Respect the 'Retry-After' header if the provider sends it. This is the gold standard.
+                const retryAfterHeader = error.headers?.['retry-after'] || error.response?.headers?.get('retry-after');
+                if (retryAfterHeader) {
+                    const retryAfterSeconds = parseInt(retryAfterHeader, 10);
+                    if (!isNaN(retryAfterSeconds)) {
+                        // The value is in seconds.
+                        delay = retryAfterSeconds * 1000 + 500; // Add a 500ms buffer.
+                        console.log(`Rate limit hit. Provider requested a delay of ${retryAfterSeconds}s. Waiting...`);
+                    } else {
+                        // The value might be an HTTP-date.
+                        const retryDate = new Date(retryAfterHeader);
+                        if (!isNaN(retryDate.getTime())) {
+                            delay = retryDate.getTime() - new Date().getTime() + 500; // Add buffer.
+                             console.log(`Rate limit hit. Provider requested waiting until ${retryDate.toISOString()}. Waiting...`);
+                        } else {
+                             // Fallback if the date format is unexpected.
+                             delay = initialDelay * Math.pow(2, attempt) + (Math.random() * 1000);
+                             console.log(`Rate limit hit. Could not parse 'Retry-After' header ('${retryAfterHeader}'). Using exponential backoff.`);
+                        }
+                    }
+                } else {
+                    // If no 'Retry-After' header, use our more patient exponential backoff.
+                    delay = initialDelay * Math.pow(2, attempt) + (Math.random() * 1000);
+                    console.log(`Rate limit hit. No 'Retry-After' header found. Using exponential backoff.`);
+                }
+            } else {
+                 // --- Standard Exponential Backoff for Server-Side Errors (5xx) ---
+                 const backoff = Math.pow(2, attempt);
+                 const jitter = Math.random() * 1000;
+                 delay = initialDelay * backoff + jitter;
+            }
+
+            console.log(`Retrying in ${Math.round(delay)}ms...`);
+            onRetry?.(attempt + 1, Math.round(delay), error);
+            await waitForRetry(delay, signal);
+        }
+    }
+    throw new Error("AI call failed after all retries.");
+};
+
+/** Resolves after `delay` ms, or rejects with an AbortError as soon as `signal` is aborted. */
+const waitForRetry = (delay: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const abortError = () => new DOMException('The retry was cancelled.', 'AbortError');
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+
+// --- Provider Types ---
+
+/** Notified when callAiWithRetry is about to retry a failed call. */
+export type AiRetryListener = (failedAttempt: number, delayMs: number, error: any) => void;
+
+/** A single prompt, fully rendered and ready to send to a provider. */
+export interface AiGenerateRequest {
+    promptKey: string;
+    systemInstruction: string;
+    userPrompt: string;
+    /** Models to use, in order of preference. An empty list means "use the provider's default". */
+    models: string[];
+    useGrounding?: boolean;
+    /** Expected JSON shape. Providers with native structured output should enforce it. */
+    responseSchema?: JsonSchema;
+    /** Cancels the in-flight request when aborted. */
+    signal?: AbortSignal;
+    /** Passed to callAiWithRetry, so callers can see rate-limit and server-error retries. */
+    onRetry?: AiRetryListener;
+}
+
+/**
+ * One entry in the per-stage model routing table: which provider (and
+ * optionally which of its models) should answer a given prompt.
+ */
+export interface ModelRoute {
+    provider: string;
+    /** An empty string means the provider's configured default. */
+    model: string;
+}
+
+/** Token counts for a single completion. */
+export interface AiUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+/** The normalized result of a completion, regardless of which SDK produced it. */
+export interface AiCompletion {
+    text: string;
+    model: string;
+    /** Undefined if the API did not report usage (some local servers don't). */
+    usage?: AiUsage;
+}
+
+export interface AiImageOptions {
+    numberOfImages?: number;
+    aspectRatio?: '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+}
+
+/** User-supplied connection settings for providers that are not tied to a fixed endpoint. */
+export interface AiProviderOptions {
+    baseUrl?: string;
+}
+
+export interface AiProvider<TClient = any> {
+    /** Stable identifier, also used as the `${id}ApiKey` field name in the persisted apiKeys. */
+    id: string;
+    /** Short vendor name, used in labels such as "OpenAI API Key". */
+    name: string;
+    /** Descriptive name for the provider select in the Setup view. */
+    label: string;
+    /** Models offered for this provider. The first entry is the default. */
+    models: string[];
+    /**
+     * How the Setup view lets the user pick models:
+     * - 'select': a single model from `models`.
+     * - 'chain': an ordered, user-editable fallback list.
+     * - undefined: the provider picks its own model.
+     */
+    modelSelection?: 'select' | 'chain';
+    /** If set, the key is read from the build environment instead of the Setup view. */
+    readEnvApiKey?: () => string | undefined;
+    supportsGrounding?: boolean;
+    /** If true, generateJson enforces `request.responseSchema` natively (except when grounding is used). */
+    supportsStructuredOutput?: boolean;
+    /** Lower numbers are tried first when generating images. */
+    imagePriority?: number;
+    /** If set, the endpoint must be entered in Setup. This is shown there as an example; it is not applied. */
+    defaultBaseUrl?: string;
+    /** If true, the provider can be used without an API key (e.g. a local server). */
+    apiKeyOptional?: boolean;
+    init(apiKey: string, options?: AiProviderOptions): TClient;
+    validateKey(client: TClient): Promise<void>;
+    generateText(client: TClient, request: AiGenerateRequest): Promise<AiCompletion>;
+    generateJson(client: TClient, request: AiGenerateRequest): Promise<AiCompletion>;
+    /**
+     * Like generateText, but calls `onDelta` with each chunk of text as it arrives.
+     * Optional; callAI falls back to generateText for providers without it.
+     */
+    streamText?(client: TClient, request: AiGenerateRequest, onDelta: (delta: string) => void): Promise<AiCompletion>;
+    generateImages?(client: TClient, prompt: string, options?: AiImageOptions): Promise<string[]>;
+}
+
+
+// --- Registry ---
+
+const providerRegistry = new Map<string, AiProvider>();
+
+/**
+ * Registers (or replaces) an AI provider. Registration order is the order
+ * providers are listed in the Setup view.
+ * @param provider The provider implementation.
+ */
+export function registerAiProvider(provider: AiProvider) {
+    providerRegistry.set(provider.id, provider);
+}
+
+/**
+ * Looks up a registered provider.
+ * @param id The provider id, e.g. 'gemini'.
+ * @returns The provider, or undefined if none is registered under that id.
+ */
+export function getAiProvider(id: string): AiProvider | undefined {
+    return providerRegistry.get(id);
+}
+
+/** Returns all registered providers in registration order. */
+export function listAiProviders(): AiProvider[] {
+    return Array.from(providerRegistry.values());
+}
+
+
+// --- Shared helpers for OpenAI-compatible APIs ---
+
+/**
+ * Sends one chat completion to an OpenAI-compatible API.
+ * @param format 'json_schema' uses the request's responseSchema if it has one and otherwise behaves like 'json'.
+ *   Only use it for APIs known to support `json_schema` response formats.
+ */
+const createOpenAiCompatibleCompletion = async (client: OpenAI, model: string, request: AiGenerateRequest, format: 'text' | 'json' | 'json_schema'): Promise<AiCompletion> => {
+    let responseFormat: OpenAI.ChatCompletionCreateParams['response_format'] | undefined;
+    if (format === 'json_schema' && request.responseSchema) {
+        // Non-strict, because strict mode requires every property to be listed as required.
+        responseFormat = { type: "json_schema", json_schema: { name: request.promptKey, schema: request.responseSchema, strict: false } };
+    } else if (format !== 'text') {
+        responseFormat = { type: "json_object" };
+    }
+    const response = await callAiWithRetry(() => client.chat.completions.create({
+        model,
+        messages: [{ role: "system", content: request.systemInstruction }, { role: "user", content: request.userPrompt }],
+        ...(responseFormat && { response_format: responseFormat })
+    }, { signal: request.signal }), undefined, undefined, request.onRetry, request.signal);
+    const usage = response.usage
+        ? { promptTokens: response.usage.prompt_tokens || 0, completionTokens: response.usage.completion_tokens || 0 }
+        : undefined;
+    return { text: response.choices[0].message.content || '', model, usage };
+};
+
+/**
+ * Streams one plain-text chat completion from an OpenAI-compatible API.
+ * @param onDelta Called with each chunk of text as it arrives.
+ */
+const streamOpenAiCompatibleCompletion = async (client: OpenAI, model: string, request: AiGenerateRequest, onDelta: (delta: string) => void): Promise<AiCompletion> => {
+    const stream = await callAiWithRetry(() => client.chat.completions.create({
+        model,
+        messages: [{ role: "system", content: request.systemInstruction }, { role: "user", content: request.userPrompt }],
+        stream: true,
+        stream_options: { include_usage: true },
+    }, { signal: request.signal }), undefined, undefined, request.onRetry, request.signal);
+    let text = '';
+    let usage: AiUsage | undefined;
+    for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content || '';
+        if (delta) {
+            text += delta;
+            onDelta(delta);
+        }
+        if (chunk.usage) {
+            usage = { promptTokens: chunk.usage.prompt_tokens || 0, completionTokens: chunk.usage.completion_tokens || 0 };
+        }
+    }
+    return { text, model, usage };
+};
+
+/**
+ * Tries each model in order until one returns a non-empty completion.
+ * @param providerName Used for log messages.
+ * @param client The OpenAI-compatible client.
+ * @param models The models to try, in order.
+ * @param request The generation request.
+ * @param json Whether to request JSON mode from the API.
+ * @param onDelta If given, the completion is streamed. Once a model has streamed any text, its
+ *   failure is final, since the caller has already shown that text.
+ * @returns The first successful completion.
+ */
+const generateWithModelChain = async (providerName: string, client: OpenAI, models: string[], request: AiGenerateRequest, json: boolean, onDelta?: (delta: string) => void): Promise<AiCompletion> => {
+    let lastError: Error | null = null;
+    for (const modelName of models) {
+        let streamedText = false;
+        try {
+            console.log(`[${providerName}] Attempting '${request.promptKey}' with model: ${modelName}`);
+            const completion = onDelta
+                ? await streamOpenAiCompatibleCompletion(client, modelName, request, delta => { streamedText = true; onDelta(delta); })
+                : await createOpenAiCompatibleCompletion(client, modelName, request, json ? 'json' : 'text');
+            if (!completion.text) throw new Error("Empty response from model.");
+            return completion;
+        } catch (error: any) {
+            if (isAbortError(error) || streamedText) throw error;
+            console.error(`${providerName} model '${modelName}' failed for '${request.promptKey}'. Trying next...`, error);
+            lastError = error;
+        }
+    }
+    throw lastError || new Error(`No ${providerName} models configured.`);
+};
+
+
+// --- Built-in Providers ---
+
+const geminiProvider: AiProvider<GoogleGenAI> = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    label: 'Google Gemini',
+    models: [AI_MODELS.GEMINI_FLASH],
+    readEnvApiKey: () => process.env.API_KEY,
+    supportsGrounding: true,
+    supportsStructuredOutput: true,
+    imagePriority: 2,
+    init: (apiKey) => new GoogleGenAI({ apiKey }),
+    validateKey: async (client) => {
+        // A quick test call to ensure the key is valid.
+        await callAiWithRetry(() => client.models.generateContent({ model: AI_MODELS.GEMINI_FLASH, contents: 'test' }));
+    },
+    generateText: (client, request) => generateWithGemini(client, request, false),
+    generateJson: (client, request) => generateWithGemini(client, request, true),
+    streamText: (client, request, onDelta) => streamWithGemini(client, request, onDelta),
+    generateImages: async (client, prompt, options = {}) => {
+        const response = await callAiWithRetry(() => client.models.generateImages({
+            model: AI_MODELS.GEMINI_IMAGEN,
+            prompt,
+            config: {
+                numberOfImages: options.numberOfImages || 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: options.aspectRatio || '16:9',
+            },
+        }));
+        return (response.generatedImages || [])
+            .map((img: any) => img.image?.imageBytes)
+            .filter(Boolean)
+            .map((bytes: string) => `data:image/jpeg;base64,${bytes}`);
+    },
+};
+
+const generateWithGemini = async (client: GoogleGenAI, request: AiGenerateRequest, json: boolean): Promise<AiCompletion> => {
+    const model = request.models[0] || AI_MODELS.GEMINI_FLASH;
+    const config: { systemInstruction: string; responseMimeType?: string; responseJsonSchema?: unknown; tools?: any[]; abortSignal?: AbortSignal } = { systemInstruction: request.systemInstruction, abortSignal: request.signal };
+    if (json) {
+        config.responseMimeType = "application/json";
+        if (request.responseSchema) config.responseJsonSchema = request.responseSchema;
+    }
+    if (request.useGrounding) {
+        // Grounding and JSON mode are mutually exclusive on Gemini; the caller still runs extractJson and validation.
+        config.tools = [{ googleSearch: {} }];
+        delete config.responseMimeType;
+        delete config.responseJsonSchema;
+    }
+    const response = await callAiWithRetry(() => client.models.generateContent({
+        model,
+        contents: request.userPrompt,
+        config,
+    }), undefined, undefined, request.onRetry, request.signal);
+    return { text: response.text || '', model, usage: readGeminiUsage(response.usageMetadata) };
+};
+
+const streamWithGemini = async (client: GoogleGenAI, request: AiGenerateRequest, onDelta: (delta: string) => void): Promise<AiCompletion> => {
+    const model = request.models[0] || AI_MODELS.GEMINI_FLASH;
+    const config: { systemInstruction: string; tools?: any[]; abortSignal?: AbortSignal } = { systemInstruction: request.systemInstruction, abortSignal: request.signal };
+    if (request.useGrounding) {
+        config.tools = [{ googleSearch: {} }];
+    }
+    const stream = await callAiWithRetry(() => client.models.generateContentStream({
+        model,
+        contents: request.userPrompt,
+        config,
+    }), undefined, undefined, request.onRetry, request.signal);
+    let text = '';
+    let usage: AiUsage | undefined;
+    for await (const chunk of stream) {
+        const delta = chunk.text || '';
+        if (delta) {
+            text += delta;
+            onDelta(delta);
+        }
+        if (chunk.usageMetadata) usage = readGeminiUsage(chunk.usageMetadata);
+    }
+    return { text, model, usage };
+};
+
+const readGeminiUsage = (usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): AiUsage | undefined => {
+    if (!usageMetadata) return undefined;
+    return {
+        promptTokens: usageMetadata.promptTokenCount || 0,
+        // Thinking tokens are billed as output.
+        completionTokens: (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+    };
+};
+
+const openaiProvider: AiProvider<OpenAI> = {
+    id: 'openai',
+    name: 'OpenAI',
+    label: 'OpenAI (GPT-4o)',
+    models: [AI_MODELS.OPENAI_GPT4_TURBO],
+    imagePriority: 1,
+    supportsStructuredOutput: true,
+    init: (apiKey) => new OpenAI({ apiKey, dangerouslyAllowBrowser: true }),
+    validateKey: async (client) => {
+        await callAiWithRetry(() => client.models.list());
+    },
+    generateText: (client, request) => createOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.OPENAI_GPT4_TURBO, request, 'text'),
+    generateJson: (client, request) => createOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.OPENAI_GPT4_TURBO, request, 'json_schema'),
+    streamText: (client, request, onDelta) => streamOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.OPENAI_GPT4_TURBO, request, onDelta),
+    generateImages: async (client, prompt) => {
+        const response = await callAiWithRetry(() => client.images.generate({ model: AI_MODELS.OPENAI_DALLE3, prompt, n: 1, size: '1792x1024', response_format: 'b64_json' }));
+        return (response.data || [])
+            .map((img: any) => img.b64_json)
+            .filter(Boolean)
+            .map((b64: string) => `data:image/png;base64,${b64}`);
+    },
+};
+
+const anthropicProvider: AiProvider<Anthropic> = {
+    id: 'anthropic',
+    name: 'Anthropic',
+    label: 'Anthropic (Claude 3)',
+    models: [AI_MODELS.ANTHROPIC_OPUS, AI_MODELS.ANTHROPIC_HAIKU],
+    modelSelection: 'select',
+    supportsStructuredOutput: true,
+    init: (apiKey) => new Anthropic({ apiKey }),
+    validateKey: async (client) => {
+        await callAiWithRetry(() => client.messages.create({
+            model: AI_MODELS.ANTHROPIC_HAIKU,
+            max_tokens: 1,
+            messages: [{ role: "user", content: "test" }],
+        }));
+    },
+    generateText: (client, request) => generateWithAnthropic(client, request, false),
+    generateJson: (client, request) => generateWithAnthropic(client, request, true),
+    streamText: (client, request, onDelta) => streamWithAnthropic(client, request, onDelta),
+};
+
+/** Sections and FAQ answers are high-volume, so unless a model is chosen they default to the cheaper Haiku model. */
+const defaultAnthropicModel = (promptKey: string) => promptKey.includes('section') || promptKey === 'write_faq_answer'
+    ? AI_MODELS.ANTHROPIC_HAIKU
+    : AI_MODELS.ANTHROPIC_OPUS;
+
+const generateWithAnthropic = async (client: Anthropic, request: AiGenerateRequest, json: boolean): Promise<AiCompletion> => {
+    const model = request.models[0] || defaultAnthropicModel(request.promptKey);
+    // Anthropic has no JSON mode; structured output is done by forcing a single tool call whose input is the schema.
+    const toolName = 'submit_response';
+    const useTool = json && !!request.responseSchema;
+    const response = await callAiWithRetry(() => client.messages.create({
+        model,
+        max_tokens: 4096,
+        system: request.systemInstruction,
+        messages: [{ role: "user", content: request.userPrompt }],
+        ...(useTool && {
+            tools: [{ name: toolName, description: 'Submit the response as structured JSON.', input_schema: request.responseSchema as Anthropic.Tool.InputSchema }],
+            tool_choice: { type: 'tool' as const, name: toolName },
+        }),
+    }, { signal: request.signal }), undefined, undefined, request.onRetry, request.signal);
+    const toolUse = useTool ? response.content.find((c: any) => c.type === 'tool_use') : undefined;
+    const text = toolUse
+        ? JSON.stringify((toolUse as any).input)
+        : response.content.map((c: any) => c.type === 'text' ? c.text : '').join("");
+    const usage = { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens };
+    return { text, model, usage };
+};
+
+const streamWithAnthropic = async (client: Anthropic, request: AiGenerateRequest, onDelta: (delta: string) => void): Promise<AiCompletion> => {
+    const model = request.models[0] || defaultAnthropicModel(request.promptKey);
+    const stream = await callAiWithRetry(() => client.messages.create({
+        model,
+        max_tokens: 4096,
+        system: request.systemInstruction,
+        messages: [{ role: "user", content: request.userPrompt }],
+        stream: true,
+    }, { signal: request.signal }), undefined, undefined, request.onRetry, request.signal);
+    let text = '';
+    const usage: AiUsage = { promptTokens: 0, completionTokens: 0 };
+    for await (const event of stream) {
+        if (event.type === 'message_start') {
+            usage.promptTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            text += event.delta.text;
+            onDelta(event.delta.text);
+        } else if (event.type === 'message_delta') {
+            usage.completionTokens = event.usage.output_tokens;
+        }
+    }
+    return { text, model, usage };
+};
+
+const openrouterProvider: AiProvider<OpenAI> = {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    label: 'OpenRouter (Model Fallback)',
+    models: AI_MODELS.OPENROUTER_DEFAULT,
+    modelSelection: 'chain',
+    init: (apiKey) => new OpenAI({
+        baseURL: "https://openrouter.ai/api/v1",
+        apiKey,
+        dangerouslyAllowBrowser: true,
+        defaultHeaders: {
+            'HTTP-Referer': window.location.href,
+            'X-Title': 'WP Content Optimizer Pro',
+        }
+    }),
+    validateKey: async (client) => {
+        await callAiWithRetry(() => client.chat.completions.create({
+            model: 'google/gemini-2.5-flash',
+            messages: [{ role: "user", content: "test" }],
+            max_tokens: 1
+        }));
+    },
+    generateText: (client, request) => generateWithModelChain('OpenRouter', client, request.models.length > 0 ? request.models : AI_MODELS.OPENROUTER_DEFAULT, request, false),
+    generateJson: (client, request) => generateWithModelChain('OpenRouter', client, request.models.length > 0 ? request.models : AI_MODELS.OPENROUTER_DEFAULT, request, true),
+    streamText: (client, request, onDelta) => generateWithModelChain('OpenRouter', client, request.models.length > 0 ? request.models : AI_MODELS.OPENROUTER_DEFAULT, request, false, onDelta),
+};
+
+const groqProvider: AiProvider<OpenAI> = {
+    id: 'groq',
+    name: 'Groq',
+    label: 'Groq (High-Speed LLMs)',
+    models: AI_MODELS.GROQ_MODELS,
+    modelSelection: 'select',
+    init: (apiKey) => new OpenAI({
+        baseURL: "https://api.groq.com/openai/v1",
+        apiKey,
+        dangerouslyAllowBrowser: true,
+    }),
+    validateKey: async (client) => {
+        await callAiWithRetry(() => client.chat.completions.create({
+            model: AI_MODELS.GROQ_MODELS[1], // Use a small model for testing
+            messages: [{ role: "user", content: "test" }],
+            max_tokens: 1
+        }));
+    },
+    generateText: (client, request) => createOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.GROQ_MODELS[0], request, 'text'),
+    generateJson: (client, request) => createOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.GROQ_MODELS[0], request, 'json'),
+    streamText: (client, request, onDelta) => streamOpenAiCompatibleCompletion(client, request.models[0] || AI_MODELS.GROQ_MODELS[0], request, onDelta),
+};
+
+/**
+ * Any server that speaks the OpenAI chat completions API: Ollama, LM Studio,
+ * vLLM, llama.cpp server, etc. There is no fixed model list; the user enters
+ * the model names their server has loaded.
+ */
+const localProvider: AiProvider<OpenAI> = {
+    id: 'local',
+    name: 'Local Endpoint',
+    label: 'Local / Self-Hosted (OpenAI-Compatible)',
+    models: [],
+    modelSelection: 'chain',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    apiKeyOptional: true,
+    init: (apiKey, options) => {
+        if (!options?.baseUrl) throw new Error("A base URL is required for the local endpoint.");
+        return new OpenAI({
+            baseURL: options.baseUrl.replace(/\/+$/, ''),
+            // The SDK refuses an empty key; local servers generally ignore it.
+            apiKey: apiKey || 'not-needed',
+            dangerouslyAllowBrowser: true,
+        });
+    },
+    validateKey: async (client) => {
+        // Every supported server exposes /models, and listing it doesn't require a model to be loaded.
+        await callAiWithRetry(() => client.models.list());
+    },
+    // JSON mode is not requested: support for `response_format` varies between servers, and
+    // the prompts already ask for JSON, which extractJson recovers from the raw text.
+    generateText: (client, request) => generateWithLocalModels(client, request),
+    generateJson: (client, request) => generateWithLocalModels(client, request),
+    streamText: (client, request, onDelta) => generateWithLocalModels(client, request, onDelta),
+};
+
+const generateWithLocalModels = (client: OpenAI, request: AiGenerateRequest, onDelta?: (delta: string) => void): Promise<AiCompletion> => {
+    if (request.models.length === 0) {
+        throw new Error("No models configured for the local endpoint. Add at least one model name in Setup.");
+    }
+    return generateWithModelChain('Local', client, request.models, request, false, onDelta);
+};
+
+registerAiProvider(geminiProvider);
+registerAiProvider(openaiProvider);
+registerAiProvider(anthropicProvider);
+registerAiProvider(openrouterProvider);
+registerAiProvider(groqProvider);
+registerAiProvider(localProvider);
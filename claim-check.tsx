@@ -0,0 +1,145 @@
+// =================================================================
+// 📊 CLAIM VERIFICATION
+// =================================================================
+// Finds the sentences of an article that state a checkable fact: a
+// statistic, a date or a named study. Each one is listed in the
+// review modal's Claims tab, where the editor attaches a source, marks
+// it verified or removes it. With strict verification on, publishing
+// is refused while any claim is still unverified.
+// =================================================================
+
+import { REFERENCES_HEADINGS } from './localization';
+
+export type ClaimKind = 'statistic' | 'date' | 'study';
+export type ClaimStatus = 'unverified' | 'verified' | 'removed';
+
+export interface Claim {
+    /** The sentence itself, normalized. Stable across re-extraction as long as the sentence is unchanged. */
+    id: string;
+    sentence: string;
+    /** The facts the sentence states, in order of appearance. */
+    facts: { kind: ClaimKind; text: string }[];
+    status: ClaimStatus;
+    sourceUrl: string;
+}
+
+export const CLAIM_KIND_LABELS: Record<ClaimKind, string> = {
+    statistic: 'Statistic',
+    date: 'Date',
+    study: 'Study',
+};
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec';
+
+/** A capitalized name, e.g. "Pew Research Center" or "University of Oxford". */
+const NAME = String.raw`(?:the\s)?[A-Z][\w&'.-]*(?:\s(?:(?:of|for|and|on|the|&)\s)*[A-Z][\w&'.-]*)*`;
+const STUDY_NOUNS = 'study|survey|report|meta-analysis|trial|poll|census|analysis|research';
+
+// Earlier patterns win where matches overlap, so named studies come first and keep their year.
+// The study patterns are case-sensitive so that NAME only matches capitalized words.
+const CLAIM_PATTERNS: { kind: ClaimKind; pattern: RegExp }[] = [
+    { kind: 'study', pattern: new RegExp(String.raw`\b(?:[Aa]n?|[Tt]he)\s(?:(?:19|20)\d{2}\s|recent\s|new\s)?(?:${STUDY_NOUNS})\s(?:by|from|published in|conducted by)\s${NAME}`, 'g') },
+    { kind: 'study', pattern: new RegExp(String.raw`\b[Aa]ccording to (?:a |an )?(?:(?:19|20)\d{2}\s)?(?:(?:${STUDY_NOUNS})\s(?:by|from)\s)?${NAME}`, 'g') },
+    { kind: 'study', pattern: new RegExp(String.raw`\b(?:[Pp]ublished in|[Rr]esearchers at|[Ss]cientists at|[Dd]ata from)\s${NAME}`, 'g') },
+    { kind: 'statistic', pattern: /[$€£¥]\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|billion|trillion|k|m|bn)\b)?/gi },
+    { kind: 'statistic', pattern: /\b\d[\d,]*(?:\.\d+)?\s?(?:%|percent\b|per cent\b|percentage points?\b)/gi },
+    { kind: 'statistic', pattern: /\b\d[\d,]*(?:\.\d+)?\s?(?:million|billion|trillion|thousand)\b/gi },
+    { kind: 'statistic', pattern: /\b\d+(?:\.\d+)?\s?(?:x|times)\s(?:more|less|faster|slower|higher|lower|as)\b/gi },
+    { kind: 'statistic', pattern: /\b\d+\s(?:out of|in)\s\d+\b/gi },
+    // Counts large enough to have been looked up: 1,000 or more, years excluded.
+    { kind: 'statistic', pattern: /\b(?:\d{1,3}(?:,\d{3})+|(?!(?:19|20)\d{2}\b)\d{4,})(?:\.\d+)?\b/g },
+    { kind: 'date', pattern: new RegExp(`\\b(?:${MONTHS})\\.?\\s(?:\\d{1,2}(?:st|nd|rd|th)?,?\\s)?(?:19|20)\\d{2}\\b`, 'gi') },
+    { kind: 'date', pattern: /\b(?:in|since|by|from|as of|until|during)\s(?:early\s|late\s|mid-)?(?:19|20)\d{2}\b/gi },
+    { kind: 'date', pattern: /\b(?:19|20)\d{2}\b/g },
+];
+
+const REFERENCES_HEADING_PATTERN = new RegExp(`<h2[^>]*>\\s*(?:${REFERENCES_HEADINGS.join('|')})\\s*<\\/h2>`, 'i');
+
+/** Cuts the generated References list (in any supported language) and anything after it; those are sources, not claims. */
+const stripReferences = (html: string): string => {
+    const match = html.match(REFERENCES_HEADING_PATTERN);
+    return match ? html.slice(0, match.index) : html;
+};
+
+const toText = (html: string): string => html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+
+const splitSentences = (text: string): string[] => text.split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/).map(sentence => sentence.trim()).filter(sentence => sentence.length > 0);
+
+const normalizeSentence = (sentence: string): string => sentence.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds every sentence in the body text that states a statistic, a date or a named study.
+ * @param html The article HTML.
+ * @returns One unverified claim per sentence, in document order.
+ */
+export const extractClaims = (html: string): Claim[] => {
+    const blocks = stripReferences(html).match(/<(p|li|td|blockquote)\b[^>]*>[\s\S]*?<\/\1>/gi) || [];
+    const claims = new Map<string, Claim>();
+    blocks.forEach(block => {
+        splitSentences(toText(block)).forEach(sentence => {
+            const found: { kind: ClaimKind; text: string; index: number }[] = [];
+            CLAIM_PATTERNS.forEach(({ kind, pattern }) => {
+                for (const match of sentence.matchAll(pattern)) {
+                    const text = match[0].trim();
+                    // A shorter match inside one already found (e.g. "2,000" in "$2,000") adds nothing.
+                    if (found.some(fact => match.index! >= fact.index && match.index! < fact.index + fact.text.length)) continue;
+                    found.push({ kind, text, index: match.index! });
+                }
+            });
+            if (found.length === 0) return;
+            const id = normalizeSentence(sentence);
+            if (claims.has(id)) return;
+            claims.set(id, {
+                id,
+                sentence,
+                facts: found.sort((a, b) => a.index - b.index).map(({ kind, text }) => ({ kind, text })),
+                status: 'unverified',
+                sourceUrl: '',
+            });
+        });
+    });
+    return [...claims.values()];
+};
+
+/**
+ * Carries the editor's work over to a fresh extraction. Claims whose sentence is still in
+ * the article keep their status and source. Removed claims stay listed so the editor can
+ * see what was cut; any other claim whose sentence is gone is dropped.
+ * @param previous The claims saved with the article.
+ * @param extracted The claims found in the current text.
+ * @returns The merged list, current claims first.
+ */
+export const mergeClaims = (previous: Claim[], extracted: Claim[]): Claim[] => {
+    const previousById = new Map(previous.map(claim => [claim.id, claim]));
+    const current = extracted.map(claim => {
+        const saved = previousById.get(claim.id);
+        return saved ? { ...claim, status: saved.status === 'removed' ? 'unverified' as const : saved.status, sourceUrl: saved.sourceUrl } : claim;
+    });
+    const currentIds = new Set(current.map(claim => claim.id));
+    return [...current, ...previous.filter(claim => claim.status === 'removed' && !currentIds.has(claim.id))];
+};
+
+export const getUnverifiedClaims = (claims: Claim[]): Claim[] => claims.filter(claim => claim.status === 'unverified');
+
+/**
+ * Deletes a claim's sentence from the article. A block that holds nothing but the sentence
+ * is deleted whole.
+ * @param html The article HTML.
+ * @param claim The claim to remove.
+ * @returns The new HTML, or null if the sentence spans inline markup and must be edited by hand.
+ */
+export const removeClaimFromHtml = (html: string, claim: Claim): string | null => {
+    let removed = false;
+    const result = html.replace(/<(p|li|td|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi, (block, tag: string, innerHtml: string) => {
+        if (removed || !normalizeSentence(toText(innerHtml)).includes(claim.id)) return block;
+        if (normalizeSentence(toText(innerHtml)) === claim.id && tag.toLowerCase() !== 'td') {
+            removed = true;
+            return '';
+        }
+        const index = innerHtml.indexOf(claim.sentence);
+        if (index === -1) return block;
+        removed = true;
+        return block.replace(innerHtml, () => (innerHtml.slice(0, index) + innerHtml.slice(index + claim.sentence.length)).replace(/\s{2,}/g, ' ').trim());
+    });
+    return removed ? result : null;
+};
@@ -0,0 +1,124 @@
+// =================================================================
+// 📏 CONTENT REQUIREMENT PROFILES
+// =================================================================
+// Named sets of length and structure targets (word count, sections,
+// links, tables, FAQs, takeaways, videos). Each item resolves to one
+// profile, and the prompts, the quality gates in writeArticle and the
+// Rank Guardian checks all read their numbers from it.
+// =================================================================
+
+export interface ContentRequirements {
+    id: string;
+    name: string;
+    minWords: number;
+    maxWords: number;
+    /** H2 sections in the outline. */
+    minSections: number;
+    maxSections: number;
+    /** Words per H2 section. */
+    minSectionWords: number;
+    maxSectionWords: number;
+    minInternalLinks: number;
+    maxInternalLinks: number;
+    minTables: number;
+    faqCount: number;
+    keyTakeaways: number;
+    youtubeEmbeds: number;
+}
+
+export type RequirementField = Exclude<keyof ContentRequirements, 'id' | 'name'>;
+
+/** Labels for the Setup editor, in display order. */
+export const REQUIREMENT_FIELDS: { key: RequirementField; label: string }[] = [
+    { key: 'minWords', label: 'Min Words' },
+    { key: 'maxWords', label: 'Max Words' },
+    { key: 'minSections', label: 'Min Sections' },
+    { key: 'maxSections', label: 'Max Sections' },
+    { key: 'minSectionWords', label: 'Min Words per Section' },
+    { key: 'maxSectionWords', label: 'Max Words per Section' },
+    { key: 'minInternalLinks', label: 'Min Internal Links' },
+    { key: 'maxInternalLinks', label: 'Max Internal Links' },
+    { key: 'minTables', label: 'Min Tables' },
+    { key: 'faqCount', label: 'FAQ Questions' },
+    { key: 'keyTakeaways', label: 'Key Takeaways' },
+    { key: 'youtubeEmbeds', label: 'YouTube Embeds' },
+];
+
+export const STANDARD_PROFILE_ID = 'standard';
+export const PILLAR_PROFILE_ID = 'pillar';
+
+export const DEFAULT_REQUIREMENT_PROFILES: ContentRequirements[] = [
+    {
+        id: 'short-news', name: 'Short News',
+        minWords: 600, maxWords: 1000, minSections: 4, maxSections: 6, minSectionWords: 120, maxSectionWords: 180,
+        minInternalLinks: 3, maxInternalLinks: 6, minTables: 0, faqCount: 3, keyTakeaways: 4, youtubeEmbeds: 0,
+    },
+    {
+        id: STANDARD_PROFILE_ID, name: 'Standard',
+        minWords: 2200, maxWords: 2800, minSections: 10, maxSections: 15, minSectionWords: 250, maxSectionWords: 300,
+        minInternalLinks: 8, maxInternalLinks: 15, minTables: 3, faqCount: 8, keyTakeaways: 8, youtubeEmbeds: 2,
+    },
+    {
+        id: PILLAR_PROFILE_ID, name: 'Pillar',
+        minWords: 3500, maxWords: 4500, minSections: 12, maxSections: 18, minSectionWords: 250, maxSectionWords: 350,
+        minInternalLinks: 12, maxInternalLinks: 20, minTables: 4, faqCount: 10, keyTakeaways: 10, youtubeEmbeds: 2,
+    },
+    {
+        id: 'product-review', name: 'Product Review',
+        minWords: 1500, maxWords: 2500, minSections: 8, maxSections: 12, minSectionWords: 200, maxSectionWords: 300,
+        minInternalLinks: 5, maxInternalLinks: 10, minTables: 2, faqCount: 6, keyTakeaways: 6, youtubeEmbeds: 1,
+    },
+];
+
+/** Whether a profile ships with the app. Built-in profiles can be edited but not deleted. */
+export const isBuiltInProfile = (profileId: string): boolean => {
+    return DEFAULT_REQUIREMENT_PROFILES.some(profile => profile.id === profileId);
+};
+
+/**
+ * Cleans up persisted profiles: fills in fields added since they were saved and
+ * restores any built-in profile that is missing.
+ * @param saved The profiles read from storage, if any.
+ * @returns A complete profile list.
+ */
+export const normalizeRequirementProfiles = (saved: Partial<ContentRequirements>[] | null | undefined): ContentRequirements[] => {
+    const profiles = (saved || [])
+        .filter(profile => profile && profile.id)
+        .map(profile => ({ ...(DEFAULT_REQUIREMENT_PROFILES.find(builtIn => builtIn.id === profile.id) || DEFAULT_REQUIREMENT_PROFILES[1]), ...profile }) as ContentRequirements);
+    const missing = DEFAULT_REQUIREMENT_PROFILES.filter(builtIn => !profiles.some(profile => profile.id === builtIn.id));
+    return [...missing, ...profiles].sort((a, b) => {
+        const order = (profile: ContentRequirements) => {
+            const index = DEFAULT_REQUIREMENT_PROFILES.findIndex(builtIn => builtIn.id === profile.id);
+            return index === -1 ? DEFAULT_REQUIREMENT_PROFILES.length : index;
+        };
+        return order(a) - order(b);
+    });
+};
+
+/**
+ * Picks the profile for an item: its own choice if set, otherwise Pillar for pillar
+ * articles and Standard for everything else.
+ * @param profiles All profiles.
+ * @param profileId The item's chosen profile, if any.
+ * @param itemType The item's type.
+ * @returns The profile to use.
+ */
+export const resolveRequirements = (profiles: ContentRequirements[], profileId: string | undefined, itemType: string): ContentRequirements => {
+    const fallbackId = itemType === 'pillar' ? PILLAR_PROFILE_ID : STANDARD_PROFILE_ID;
+    return profiles.find(profile => profile.id === profileId)
+        || profiles.find(profile => profile.id === fallbackId)
+        || DEFAULT_REQUIREMENT_PROFILES.find(profile => profile.id === fallbackId)!;
+};
+
+/**
+ * Formats a profile as the requirements block appended to prompts.
+ * @param requirements The profile.
+ * @returns A bulleted list of targets.
+ */
+export const formatRequirementsForPrompt = (requirements: ContentRequirements): string => `**CONTENT REQUIREMENTS (${requirements.name}):**
+- Total length: ${requirements.minWords}-${requirements.maxWords} words.
+- Outline: ${requirements.minSections}-${requirements.maxSections} H2 sections of ${requirements.minSectionWords}-${requirements.maxSectionWords} words each.
+- Key takeaways: exactly ${requirements.keyTakeaways}.
+- FAQ questions: exactly ${requirements.faqCount}.
+- Tables: at least ${requirements.minTables} across the article.
+- Internal links: ${requirements.minInternalLinks}-${requirements.maxInternalLinks} across the article.`;
@@ -1,46 +1,29 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import React, { useState, useMemo, useEffect, useCallback, useReducer, useRef, memo } from 'react';
 import ReactDOM from 'react-dom/client';
-import { generateFullSchema, generateSchemaMarkup, WpConfig } from './schema-generator';
-
-const AI_MODELS = {
-    GEMINI_FLASH: 'gemini-2.5-flash',
-    GEMINI_IMAGEN: 'imagen-4.0-generate-001',
-    OPENAI_GPT4_TURBO: 'gpt-4o',
-    OPENAI_DALLE3: 'dall-e-3',
-    ANTHROPIC_OPUS: 'claude-3-7-sonnet-20250219',
-    ANTHROPIC_HAIKU: 'claude-3-5-haiku-20241022',
-    OPENROUTER_DEFAULT: [
-        'google/gemini-2.5-flash',
-        'anthropic/claude-3-haiku',
-        'microsoft/wizardlm-2-8x22b',
-        'openrouter/auto'
-    ],
-    GROQ_MODELS: [
-        'llama-3.3-70b-versatile',
-        'llama-3.1-8b-instant',
-        'gemma2-9b-it',
-        'llama3-70b-8192',
-        'llama3-8b-8192',
-        'mixtral-8x7b-32768',
-        'gemma-7b-it',
-        'meta-llama/llama-4-scout-17b-16e-instruct',
-    ]
-};
-
+import { extractFaqData, generateFullSchema, generateSchemaMarkup, WpConfig } from './schema-generator';
+import { buildSchemaRepairPrompt, getPromptSchema, validateJsonSchema } from './prompt-schemas';
+import { DEFAULT_PROMPT_VARIABLES, PROMPT_VARIABLE_PLACEHOLDERS, PromptOverride, PromptVariables, applyPromptVariables, diffLines, savePromptVersion } from './prompt-library';
+import { ContentRequirements, DEFAULT_REQUIREMENT_PROFILES, REQUIREMENT_FIELDS, STANDARD_PROFILE_ID, formatRequirementsForPrompt, isBuiltInProfile, normalizeRequirementProfiles, resolveRequirements } from './content-requirements';
+import { SIMILARITY_WARNING_SCORE, SimilarityIndex, buildSimilarityIndex, checkSimilarity, getSimilarityLevel, highlightOverlaps } from './similarity-check';
+import { findCannibalization } from './keyword-cannibalization';
+import { CLAIM_KIND_LABELS, Claim, extractClaims, getUnverifiedClaims, mergeClaims, removeClaimFromHtml } from './claim-check';
+import { DEFAULT_TARGET_GRADE, analyzeReadability, calculateFleschKincaidGrade, calculateFleschReadability, highlightReadability } from './readability';
+import { DEFAULT_LANGUAGE, HreflangVariant, LanguageCode, SUPPORTED_LANGUAGES, buildHreflangTags, formatLanguageForPrompt, formatLocalizedDate, getAiPhrasePatterns, getLanguage, getLocaleStrings, localizeScientificHeadings } from './localization';
+import { DEFAULT_STYLE_GUIDE, StyleGuide, StyleViolation, checkStyleGuide, formatStyleGuideForPrompt, isStyleGuideEmpty } from './style-guide';
+import { PipelineCheckpoint, createCheckpoint, deleteCheckpoint, describeCheckpoint, listCheckpoints, loadCheckpoint, saveCheckpoint } from './pipeline-checkpoints';
+import { AiGenerateRequest, AiProviderOptions, AiUsage, DEFAULT_MODEL_PRICES, ModelPrice, ModelRoute, estimateCost, getAiProvider, isAbortError, listAiProviders } from './ai-providers';
 
 // ════════════════════════════════════════════════════════════════════════════════
-// WORD COUNT ENFORCEMENT (2,500-3,000 WORDS MANDATORY)
+// WORD COUNT ENFORCEMENT (RANGE FROM THE ITEM'S REQUIREMENT PROFILE)
 // ════════════════════════════════════════════════════════════════════════════════
 
-function enforceWordCount(content, minWords = 2500, maxWords = 3000) {
+function enforceWordCount(content, { minWords, maxWords }: ContentRequirements, log?: RunLogger) {
     const textOnly = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
     const words = textOnly.split(/\s+/).filter(w => w.length > 0);
     const wordCount = words.length;
 
     console.log(`📊 Word Count: ${wordCount} (target: ${minWords}-${maxWords})`);
+    log?.(wordCount < minWords ? 'error' : 'info', `Word count: ${wordCount} (target ${minWords}-${maxWords}).`, { wordCount, minWords, maxWords });
 
     if (wordCount < minWords) {
         throw new ContentTooShortError(`CONTENT TOO SHORT: ${wordCount} words (minimum ${minWords} required)`, content, wordCount);
@@ -48,59 +31,121 @@ function enforceWordCount(content, minWords = 2500, maxWords = 3000) {
 
     if (wordCount > maxWords) {
         console.warn(`⚠️  Content is ${wordCount - maxWords} words over target`);
+        log?.('warn', `Content is ${wordCount - maxWords} words over the target.`, { wordCount, maxWords });
     }
 
     return wordCount;
 }
 
-function checkHumanWritingScore(content) {
-    const aiPhrases = [
-        'delve into', 'in today\'s digital landscape', 'revolutionize', 'game-changer',
-        'unlock', 'leverage', 'robust', 'seamless', 'cutting-edge', 'elevate', 'empower',
-        'it\'s important to note', 'it\'s worth mentioning', 'needless to say',
-        'in conclusion', 'to summarize', 'in summary', 'holistic', 'paradigm shift',
-        'utilize', 'commence', 'endeavor', 'facilitate', 'implement', 'demonstrate',
-        'ascertain', 'procure', 'terminate', 'disseminate', 'expedite',
-        'in order to', 'due to the fact that', 'for the purpose of', 'with regard to',
-        'in the event that', 'at this point in time', 'for all intents and purposes',
-        'furthermore', 'moreover', 'additionally', 'consequently', 'nevertheless',
-        'notwithstanding', 'aforementioned', 'heretofore', 'whereby', 'wherein',
-        'landscape', 'realm', 'sphere', 'domain', 'ecosystem', 'framework',
-        'navigate', 'embark', 'journey', 'transform', 'transition',
-        'plethora', 'myriad', 'multitude', 'abundance', 'copious',
-        'crucial', 'vital', 'essential', 'imperative', 'paramount',
-        'optimize', 'maximize', 'enhance', 'augment', 'amplify',
-        'intricate', 'nuanced', 'sophisticated', 'elaborate', 'comprehensive',
-        'comprehensive guide', 'ultimate guide', 'complete guide',
-        'dive deep', 'take a deep dive', 'let\'s explore', 'let\'s dive in'
-    ];
+const LONG_SENTENCE_WORDS = 35; // Sentences longer than this are flagged individually
+
+/** A banned phrase or overlong sentence found by checkHumanWritingScore. */
+type HumanWritingFinding = {
+    type: 'phrase' | 'longSentence';
+    /** The banned phrase, for 'phrase' findings. */
+    phrase?: string;
+    /** The H2 the paragraph sits under, or 'Introduction'. */
+    section: string;
+    /** Position of the paragraph among the content's p, li and heading elements. */
+    paragraphIndex: number;
+    /** The paragraph's full HTML, as it appears in the content. */
+    paragraphHtml: string;
+    sentence: string;
+    /** Length of the sentence, in words. */
+    words: number;
+};
 
-    let aiScore = 0;
-    const lowerContent = content.toLowerCase();
+type HumanWritingReport = {
+    humanScore: number;
+    averageSentenceWords: number;
+    findings: HumanWritingFinding[];
+};
 
-    aiPhrases.forEach(phrase => {
-        const count = (lowerContent.match(new RegExp(phrase, 'g')) || []).length;
-        if (count > 0) {
-            aiScore += (count * 10);
-            console.warn(`⚠️  AI phrase detected ${count}x: "${phrase}"`);
-        }
+function checkHumanWritingScore(content: string, log?: RunLogger, language: LanguageCode = DEFAULT_LANGUAGE): HumanWritingReport {
+    const phrasePatterns = getAiPhrasePatterns(language);
+    const findings: HumanWritingFinding[] = [];
+    const sentenceLengths: number[] = [];
+    const blockPattern = /<(p|li|h[2-4])\b[^>]*>([\s\S]*?)<\/\1>/gi;
+    let section = 'Introduction';
+    let paragraphIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = blockPattern.exec(content)) !== null) {
+        const [paragraphHtml, tag, innerHtml] = match;
+        const text = innerHtml.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+        const isHeading = tag.toLowerCase().startsWith('h');
+        if (tag.toLowerCase() === 'h2') section = text;
+
+        (text.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || []).forEach(rawSentence => {
+            const sentence = rawSentence.trim();
+            if (!sentence) return;
+            const words = sentence.split(/\s+/).length;
+            const location = { section, paragraphIndex, paragraphHtml, sentence, words };
+            const lowerSentence = sentence.toLowerCase().replace(/[‘’]/g, "'");
+            phrasePatterns.forEach(({ phrase, pattern }) => {
+                const count = (lowerSentence.match(pattern) || []).length;
+                for (let i = 0; i < count; i++) findings.push({ type: 'phrase', phrase, ...location });
+            });
+            if (!isHeading) {
+                sentenceLengths.push(words);
+                if (words > LONG_SENTENCE_WORDS) findings.push({ type: 'longSentence', ...location });
+            }
+        });
+        paragraphIndex++;
+    }
+
+    let aiScore = 0;
+    const phraseFindings = findings.filter(finding => finding.type === 'phrase');
+    [...new Set(phraseFindings.map(finding => finding.phrase!))].forEach(phrase => {
+        const matches = phraseFindings.filter(finding => finding.phrase === phrase);
+        aiScore += matches.length * 10;
+        console.warn(`⚠️  AI phrase detected ${matches.length}x: "${phrase}"`);
+        log?.('warn', `AI phrase "${phrase}" used ${matches.length} time(s).`, { phrase, count: matches.length, sections: [...new Set(matches.map(finding => finding.section))] });
     });
 
-    const sentences = content.match(/[^.!?]+[.!?]+/g) || [];
-    if (sentences.length > 0) {
-        const avgLength = sentences.reduce((sum, s) => sum + s.split(/\s+/).length, 0) / sentences.length;
-        if (avgLength > 25) {
-            aiScore += 15;
-            console.warn(`⚠️  Average sentence too long (${avgLength.toFixed(1)} words)`);
-        }
+    const averageSentenceWords = sentenceLengths.length > 0
+        ? Number((sentenceLengths.reduce((sum, words) => sum + words, 0) / sentenceLengths.length).toFixed(1))
+        : 0;
+    if (averageSentenceWords > 25) {
+        aiScore += 15;
+        console.warn(`⚠️  Average sentence too long (${averageSentenceWords} words)`);
+        log?.('warn', `Average sentence is too long (${averageSentenceWords} words).`, { averageSentenceWords });
     }
 
     const humanScore = Math.max(0, 100 - aiScore);
     console.log(`🤖 Human Writing Score: ${humanScore}% (target: 100%)`);
+    log?.(humanScore < 100 ? 'warn' : 'info', `Human writing score: ${humanScore}%.`, { humanScore, findings: findings.length });
 
-    return humanScore;
+    return { humanScore, averageSentenceWords, findings };
 }
 
+/** A paragraph to send to the humanization pass, with what to fix in it. */
+type FlaggedParagraph = {
+    paragraphHtml: string;
+    section: string;
+    issues: string[];
+};
+
+/**
+ * Groups human writing findings by paragraph for the humanization pass. Headings and
+ * paragraphs holding media or image placeholders are left alone.
+ * @param findings The findings from checkHumanWritingScore.
+ * @returns One entry per paragraph, in article order.
+ */
+const groupFindingsByParagraph = (findings: HumanWritingFinding[]): FlaggedParagraph[] => {
+    const paragraphs = new Map<number, FlaggedParagraph>();
+    findings
+        .filter(finding => /^<(p|li)\b/i.test(finding.paragraphHtml) && !/<(iframe|img|figure)\b|\[IMAGE_/i.test(finding.paragraphHtml))
+        .forEach(finding => {
+            const paragraph = paragraphs.get(finding.paragraphIndex) || { paragraphHtml: finding.paragraphHtml, section: finding.section, issues: [] };
+            paragraph.issues.push(finding.type === 'phrase'
+                ? `Replace "${finding.phrase}" in: "${finding.sentence}"`
+                : `Split this ${finding.words}-word sentence: "${finding.sentence}"`);
+            paragraphs.set(finding.paragraphIndex, paragraph);
+        });
+    return [...paragraphs.entries()].sort(([a], [b]) => a - b).map(([, paragraph]) => paragraph);
+};
+
 console.log('✅ Schema handler & word count enforcer loaded');
 
 
@@ -154,19 +199,22 @@ console.log('✅ YouTube video deduplication function loaded');
 // ==========================================
 // CONTENT & SEO REQUIREMENTS
 // ==========================================
-const TARGET_MIN_WORDS = 2200; // Increased for higher quality
-const TARGET_MAX_WORDS = 2800;
-const TARGET_MIN_WORDS_PILLAR = 3500; // Increased for depth
-const TARGET_MAX_WORDS_PILLAR = 4500;
-const YOUTUBE_EMBED_COUNT = 2;
-const MIN_INTERNAL_LINKS = 8; // User wants 8-12, this is the floor
-const MAX_INTERNAL_LINKS = 15;
-const MIN_TABLES = 3;
-const FAQ_COUNT = 8;
-const KEY_TAKEAWAYS = 8;
-
-// SEO Power Words
-const POWER_WORDS = ['Ultimate', 'Complete', 'Essential', 'Proven', 'Secret', 'Powerful', 'Effective', 'Simple', 'Fast', 'Easy', 'Best', 'Top', 'Expert', 'Advanced', 'Master', 'Definitive', 'Comprehensive', 'Strategic', 'Revolutionary', 'Game-Changing'];
+// Length and structure targets (words, links, tables, FAQs...) come from the
+// item's requirement profile; see content-requirements.tsx.
+const MAX_SCHEMA_REPAIR_ATTEMPTS = 2; // Re-prompts per provider when a JSON response fails its schema
+const LIVE_PREVIEW_THROTTLE_MS = 150; // Minimum interval between streamed preview re-renders
+const DEFAULT_SECTION_CONCURRENCY = 3; // Sections and FAQ answers written at once per article
+const MAX_SECTION_CONCURRENCY = 8;
+const MAX_ITEM_CONCURRENCY = 5;
+const NEAR_DUPLICATE_SIMILARITY = 0.5; // Shingle overlap above which two paragraphs count as repeats
+const MAX_DUPLICATE_REWRITES = 3; // Sections rewritten per article by the repetition post-pass
+const MAX_SECTION_SUMMARY_CHARS = 300;
+const MAX_RUN_LOG_ENTRIES = 500; // Oldest run log events are dropped past this
+const DEFAULT_EXPANSION_ATTEMPTS = 2; // Expansion rounds before an article under its minimum word count is failed
+const MAX_EXPANSION_ATTEMPTS = 5;
+const MAX_SECTIONS_EXPANDED_PER_ATTEMPT = 3;
+const MAX_SECTIONS_ADDED_PER_ATTEMPT = 2;
+const MAX_HUMANIZED_PARAGRAPHS = 12; // Paragraphs sent to the humanization pass per article
 
 // Track videos to prevent duplicates
 const usedVideoUrls = new Set();
@@ -411,86 +459,6 @@ const extractSlugFromUrl = (urlString: string): string => {
 };
 
 
-/**
- * A more professional and resilient fetch function for AI APIs that includes
- * exponential backoff for retries and intelligently fails fast on non-retriable errors.
- * This is crucial for handling rate limits (429) and transient server issues (5xx)
- * while avoiding wasted time on client-side errors (4xx).
- * @param apiCall A function that returns the promise from the AI SDK call.
- * @param maxRetries The maximum number of times to retry the call.
- * @param initialDelay The baseline delay in milliseconds for the first retry.
- * @returns The result of the successful API call.
- * @throws {Error} if the call fails after all retries or on a non-retriable error.
- */
-const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000) => {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-            return await apiCall();
-        } catch (error: any) {
-            console.error(`AI call failed on attempt ${attempt + 1}. Error:`, error);
-
-            const errorMessage = (error.message || '').toLowerCase();
-            // Try to get status from error object, or parse it from the message as a fallback.
-            const statusMatch = errorMessage.match(/\[(\d{3})[^\]]*\]/); 
-            const statusCode = error.status || (statusMatch ? parseInt(statusMatch[1], 10) : null);
-
-            const isNonRetriableClientError = statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 429;
-            const isContextLengthError = errorMessage.includes('context length') || errorMessage.includes('token limit');
-            const isInvalidApiKeyError = errorMessage.includes('api key not valid');
-
-            if (isNonRetriableClientError || isContextLengthError || isInvalidApiKeyError) {
-                 console.error(`Encountered a non-retriable error (Status: ${statusCode}, Message: ${error.message}). Failing immediately.`);
-                 throw error; // Fail fast.
-            }
-
-            // If it's the last attempt for any retriable error, give up.
-            if (attempt === maxRetries - 1) {
-                console.error(`AI call failed on final attempt (${maxRetries}).`);
-                throw error;
-            }
-            
-            let delay: number;
-            // --- Intelligent Rate Limit Handling ---
-            if (error.status === 429 || statusCode === 429) {
-                // Respect the 'Retry-After' header if the provider sends it. This is the gold standard.
-                const retryAfterHeader = error.headers?.['retry-after'] || error.response?.headers?.get('retry-after');
-                if (retryAfterHeader) {
-                    const retryAfterSeconds = parseInt(retryAfterHeader, 10);
-                    if (!isNaN(retryAfterSeconds)) {
-                        // The value is in seconds.
-                        delay = retryAfterSeconds * 1000 + 500; // Add a 500ms buffer.
-                        console.log(`Rate limit hit. Provider requested a delay of ${retryAfterSeconds}s. Waiting...`);
-                    } else {
-                        // The value might be an HTTP-date.
-                        const retryDate = new Date(retryAfterHeader);
-                        if (!isNaN(retryDate.getTime())) {
-                            delay = retryDate.getTime() - new Date().getTime() + 500; // Add buffer.
-                             console.log(`Rate limit hit. Provider requested waiting until ${retryDate.toISOString()}. Waiting...`);
-                        } else {
-                             // Fallback if the date format is unexpected.
-                             delay = initialDelay * Math.pow(2, attempt) + (Math.random() * 1000);
-                             console.log(`Rate limit hit. Could not parse 'Retry-After' header ('${retryAfterHeader}'). Using exponential backoff.`);
-                        }
-                    }
-                } else {
-                    // If no 'Retry-After' header, use our more patient exponential backoff.
-                    delay = initialDelay * Math.pow(2, attempt) + (Math.random() * 1000);
-                    console.log(`Rate limit hit. No 'Retry-After' header found. Using exponential backoff.`);
-                }
-            } else {
-                 // --- Standard Exponential Backoff for Server-Side Errors (5xx) ---
-                 const backoff = Math.pow(2, attempt);
-                 const jitter = Math.random() * 1000;
-                 delay = initialDelay * backoff + jitter;
-            }
-
-            console.log(`Retrying in ${Math.round(delay)}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-        }
-    }
-    throw new Error("AI call failed after all retries.");
-};
-
 /**
  * Fetches a URL by first attempting a direct connection, then falling back to a
  * series of public CORS proxies. This strategy makes the sitemap crawling feature
@@ -737,7 +705,7 @@ async function processConcurrently<T>(
  * @param availablePages An array of page objects from the sitemap, each with 'id', 'title', and 'slug'.
  * @returns The HTML content with invalid link placeholders repaired or removed.
  */
-const validateAndRepairInternalLinks = (content: string, availablePages: any[]): string => {
+const validateAndRepairInternalLinks = (content: string, availablePages: any[], log?: RunLogger): string => {
     if (!content || !availablePages || availablePages.length === 0) {
         return content;
     }
@@ -807,10 +775,12 @@ const validateAndRepairInternalLinks = (content: string, availablePages: any[]):
         // Use a threshold to avoid bad matches
         if (bestMatch && highestScore > 50) {
             console.log(`[Link Repair] Found best match: "${bestMatch.slug}" with a score of ${highestScore.toFixed(2)}. Forging corrected link.`);
+            log?.('warn', `Repaired invented link slug "${slug}" to "${bestMatch.slug}".`, { repair: 'link-slug', from: slug, to: bestMatch.slug, anchorText: text, score: Number(highestScore.toFixed(2)) });
             const sanitizedText = text.replace(/"/g, '&quot;');
             return `[INTERNAL_LINK slug="${bestMatch.slug}" text="${sanitizedText}"]`;
         } else {
             console.warn(`[Link Repair] Could not find any suitable match for slug "${slug}" (best score: ${highestScore.toFixed(2)}). Removing link, keeping text.`);
+            log?.('warn', `Removed link with invented slug "${slug}"; no matching page.`, { repair: 'link-removed', from: slug, anchorText: text });
             return text; // Fallback: If no good match, just return the anchor text.
         }
     });
@@ -826,7 +796,7 @@ const validateAndRepairInternalLinks = (content: string, availablePages: any[]):
  * @param minLinks The minimum number of internal links required.
  * @returns The HTML content with the link quota enforced.
  */
-const enforceInternalLinkQuota = (content: string, availablePages: any[], primaryKeyword: string, minLinks: number): string => {
+const enforceInternalLinkQuota = (content: string, availablePages: any[], primaryKeyword: string, minLinks: number, log?: RunLogger): string => {
     if (!availablePages || availablePages.length === 0) return content;
 
     const placeholderRegex = /\[INTERNAL_LINK\s+slug="[^"]+"\s+text="[^"]+"\]/g;
@@ -839,6 +809,7 @@ const enforceInternalLinkQuota = (content: string, availablePages: any[], primar
     }
 
     console.log(`[Link Guardian] Link deficit detected. Need to add ${deficit} more links.`);
+    log?.('warn', `Only ${existingLinks.length} internal links; adding ${deficit} more.`, { existingLinks: existingLinks.length, minLinks });
 
     let newContent = content;
 
@@ -885,6 +856,7 @@ const enforceInternalLinkQuota = (content: string, availablePages: any[], primar
                 
                 const newPlaceholder = `[INTERNAL_LINK slug="${page.slug}" text="${match}"]`;
                 console.log(`[Link Guardian] Injecting link for "${page.slug}" using anchor: "${match}"`);
+                log?.('info', `Added internal link to "${page.slug}".`, { repair: 'link-added', slug: page.slug, anchorText: match });
                 
                 firstMatchReplaced = true;
                 linkPlaced = true;
@@ -901,12 +873,172 @@ const enforceInternalLinkQuota = (content: string, availablePages: any[], primar
     
     if (deficit > 0) {
         console.warn(`[Link Guardian] Could not meet the full link quota. ${deficit} links still missing.`);
+        log?.('warn', `Internal link quota not met: ${deficit} link(s) still missing.`, { missing: deficit, minLinks });
     }
 
     return newContent;
 };
 
 
+/** A top-level H2 section of a finished article, as located by findArticleSections. */
+type ArticleSection = {
+    heading: string;
+    /** The heading's <h2> tag, unchanged. */
+    headingHtml: string;
+    /** The HTML after the heading, up to the end of the section. */
+    bodyHtml: string;
+    start: number;
+    end: number;
+};
+
+/**
+ * Locates the H2 sections of a finished article so they can be regenerated one at a time.
+ * A section runs from its heading to the next H2 or wrapper tag (video embeds, the FAQ
+ * block), so images placed in the section are part of it. Headings inside a wrapper
+ * are skipped.
+ * @param html The article HTML.
+ * @returns The sections, in document order.
+ */
+const findArticleSections = (html: string): ArticleSection[] => {
+    const sections: ArticleSection[] = [];
+    const headingRegex = /<h2[^>]*>([\s\S]*?)<\/h2>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = headingRegex.exec(html)) !== null) {
+        if (/<div[^>]*>\s*$/i.test(html.substring(Math.max(0, match.index - 200), match.index))) continue;
+        const bodyStart = match.index + match[0].length;
+        const boundary = html.substring(bodyStart).search(/<h2[\s>]|<div[\s>]|<\/div>|<aside[\s>]/i);
+        const end = boundary === -1 ? html.length : bodyStart + boundary;
+        sections.push({
+            heading: match[1].replace(/<[^>]+>/g, '').trim(),
+            headingHtml: match[0],
+            bodyHtml: html.substring(bodyStart, end),
+            start: match.index,
+            end,
+        });
+    }
+    return sections;
+};
+
+/**
+ * Separates a section body's images from its text, so only the text is sent to the model
+ * and the images can be put back into the rewritten version.
+ */
+const splitSectionFigures = (bodyHtml: string): { textHtml: string; figures: string[] } => {
+    const figures = bodyHtml.match(/<figure[\s>][\s\S]*?<\/figure>/gi) || [];
+    return { textHtml: bodyHtml.replace(/<figure[\s>][\s\S]*?<\/figure>/gi, '').trim(), figures };
+};
+
+const stripHtmlTags = (html: string): string => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const countWords = (html: string): number => stripHtmlTags(html).split(' ').filter(word => word.length > 0).length;
+
+/** One round of the expansion pass. */
+type ExpansionPlan = {
+    /** Sections to lengthen, thinnest first. */
+    expand: { index: number; words: number; targetWords: number }[];
+    /** How many new sections to write for content gaps. */
+    addSections: number;
+};
+
+/**
+ * Plans one round of the expansion pass for an article under its minimum word count.
+ * The thinnest sections are brought up to the profile's section length first. New
+ * sections cover the rest while the profile allows more; past that, the thinnest
+ * sections are stretched beyond the section length.
+ * @param sectionWordCounts The body word count of each section, in outline order.
+ * @param shortfall How many words the article is short.
+ * @param requirements The item's requirement profile.
+ * @returns The sections to expand and the number of sections to add.
+ */
+const planExpansion = (sectionWordCounts: number[], shortfall: number, requirements: ContentRequirements): ExpansionPlan => {
+    const bySize = sectionWordCounts.map((words, index) => ({ index, words })).sort((a, b) => a.words - b.words);
+    let expand = bySize
+        .filter(section => section.words < requirements.maxSectionWords)
+        .slice(0, MAX_SECTIONS_EXPANDED_PER_ATTEMPT)
+        .map(section => ({ ...section, targetWords: requirements.maxSectionWords }));
+    let remaining = shortfall - expand.reduce((sum, section) => sum + section.targetWords - section.words, 0);
+
+    const typicalSectionWords = Math.round((requirements.minSectionWords + requirements.maxSectionWords) / 2) || 1;
+    const addSections = remaining > 0
+        ? Math.max(0, Math.min(MAX_SECTIONS_ADDED_PER_ATTEMPT, requirements.maxSections - sectionWordCounts.length, Math.ceil(remaining / typicalSectionWords)))
+        : 0;
+    remaining -= addSections * typicalSectionWords;
+
+    if (remaining > 0 && bySize.length > 0) {
+        if (expand.length === 0) {
+            expand = bySize.slice(0, MAX_SECTIONS_EXPANDED_PER_ATTEMPT).map(section => ({ ...section, targetWords: section.words }));
+        }
+        const extraWords = Math.ceil(remaining / expand.length);
+        expand = expand.map(section => ({ ...section, targetWords: section.targetWords + extraWords }));
+    }
+    return { expand, addSections };
+};
+
+/**
+ * Summarizes a written section for the prompts of the sections after it: the opening
+ * answer, plus every number and bolded term, which are what sections tend to repeat.
+ * @param heading The section heading.
+ * @param sectionHtml The section body HTML.
+ * @returns A one-line summary, at most MAX_SECTION_SUMMARY_CHARS long.
+ */
+const summarizeSectionForContext = (heading: string, sectionHtml: string): string => {
+    const text = stripHtmlTags(sectionHtml);
+    const opening = (text.match(/^[^.!?]+[.!?]/) || [text.substring(0, 120)])[0].trim();
+    const figures = [...new Set(text.match(/[$€£]?\d[\d,.]*\s?(?:%|percent|x\b|million|billion)?/gi) || [])]
+        .map(figure => figure.trim())
+        .filter(figure => figure.length > 1);
+    const terms = [...new Set((sectionHtml.match(/<(?:strong|b)>([\s\S]*?)<\/(?:strong|b)>/gi) || []).map(stripHtmlTags))];
+    const details = [...figures, ...terms].join(', ');
+    return `- "${heading}": ${opening}${details ? ` Mentions: ${details}.` : ''}`.substring(0, MAX_SECTION_SUMMARY_CHARS);
+};
+
+const toShingles = (text: string, size = 3): Set<string> => {
+    const words = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    const shingles = new Set<string>();
+    for (let i = 0; i + size <= words.length; i++) shingles.add(words.slice(i, i + size).join(' '));
+    return shingles;
+};
+
+/** A paragraph that repeats a paragraph from an earlier section. */
+type DuplicateParagraph = {
+    sectionIndex: number;
+    paragraph: string;
+    duplicateOfSection: number;
+    duplicateOf: string;
+    /** Jaccard similarity of the two paragraphs' word 3-grams, 0-1. */
+    similarity: number;
+};
+
+/**
+ * Finds paragraphs that closely repeat a paragraph from an earlier section.
+ * Paragraphs in the same section are not compared, and very short ones are ignored.
+ * @param sections The HTML of each section, in article order.
+ * @returns One entry per repeated paragraph, pointing at its earliest match.
+ */
+const findDuplicateParagraphs = (sections: string[]): DuplicateParagraph[] => {
+    const MIN_WORDS = 12;
+    const paragraphs = sections.flatMap((html, sectionIndex) =>
+        (html.match(/<p[^>]*>[\s\S]*?<\/p>/gi) || [])
+            .map(paragraph => stripHtmlTags(paragraph))
+            .filter(text => text.split(' ').length >= MIN_WORDS)
+            .map(text => ({ sectionIndex, text, shingles: toShingles(text) }))
+    );
+
+    const duplicates: DuplicateParagraph[] = [];
+    paragraphs.forEach((later, i) => {
+        for (const earlier of paragraphs.slice(0, i)) {
+            if (earlier.sectionIndex === later.sectionIndex) continue;
+            const shared = [...later.shingles].filter(shingle => earlier.shingles.has(shingle)).length;
+            const similarity = shared / (later.shingles.size + earlier.shingles.size - shared || 1);
+            if (similarity >= NEAR_DUPLICATE_SIMILARITY) {
+                duplicates.push({ sectionIndex: later.sectionIndex, paragraph: later.text, duplicateOfSection: earlier.sectionIndex, duplicateOf: earlier.text, similarity });
+                break;
+            }
+        }
+    });
+    return duplicates;
+};
+
 /**
  * Processes custom internal link placeholders in generated content and replaces them
  * with valid, full URL links based on a list of available pages.
@@ -984,6 +1116,8 @@ type SitemapPage = {
     lastMod: string | null;
     wordCount: number | null;
     crawledContent: string | null;
+    /** H1-H3 text from the last crawl, used by the keyword cannibalization check. */
+    headings?: string[];
     healthScore: number | null;
     updatePriority: string | null;
     justification: string | null;
@@ -1028,6 +1162,17 @@ export type GeneratedContent = {
         linkedIn: string;
     };
     serpData?: any[] | null;
+    /** Statistics, dates and studies found in the article, with the editor's verification status. */
+    claims?: Claim[];
+    /** The language the article is written in. Content saved before languages were added is English. */
+    language?: LanguageCode;
+    /** For translations, the URL of the original article. Becomes translationOfWork in the schema. */
+    translationOfUrl?: string;
+    /**
+     * The project style guide the article was written with, so its scores don't change when
+     * another project is made active. Content saved before this uses the active project's.
+     */
+    styleGuide?: StyleGuide;
 };
 
 // --- E-E-A-T Types ---
@@ -1061,6 +1206,38 @@ export interface ExpandedGeoTargeting {
     postalCode: string;
 }
 
+/** A named set of editorial settings. Prompt overrides and variables are scoped to a project. */
+export interface ProjectSettings {
+    id: string;
+    name: string;
+    promptOverrides: Partial<Record<string, PromptOverride>>;
+    promptVariables: PromptVariables;
+    styleGuide: StyleGuide;
+    /** The language articles are written in, unless an item sets its own. */
+    language: LanguageCode;
+}
+
+const createProject = (name: string, id = `project-${Date.now()}`): ProjectSettings => ({
+    id,
+    name,
+    promptOverrides: {},
+    // Empty values fall back to DEFAULT_PROMPT_VARIABLES, so the year stays current.
+    promptVariables: { brandVoice: '', year: '', audience: '' },
+    styleGuide: DEFAULT_STYLE_GUIDE,
+    language: DEFAULT_LANGUAGE,
+});
+
+/** Fills in fields added since a project was saved to local storage. */
+const normalizeProject = (project: Partial<ProjectSettings> & { id: string }): ProjectSettings => {
+    const defaults = createProject(project.name || 'Untitled Project', project.id);
+    return {
+        ...defaults,
+        ...project,
+        promptVariables: { ...defaults.promptVariables, ...project.promptVariables },
+        styleGuide: { ...defaults.styleGuide, ...project.styleGuide },
+    };
+};
+
 /**
  * Custom error for when generated content fails a quality gate,
  * but we still want to preserve the content for manual review.
@@ -1077,6 +1254,51 @@ class ContentTooShortError extends Error {
   }
 }
 
+/**
+ * Thrown between pipeline stages when the run's token or spend budget is used up.
+ */
+class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/** A limit on the tokens or estimated spend of one generation run. 0 means no limit. */
+type RunBudget = { type: 'tokens' | 'cost'; limit: number };
+
+const isRunBudgetReached = (usage: RunUsage, budget: RunBudget) => budget.limit > 0 && (budget.type === 'tokens'
+    ? usage.tokens >= budget.limit
+    : usage.cost >= budget.limit);
+
+const assertWithinRunBudget = (usage: RunUsage, budget: RunBudget) => {
+    if (isRunBudgetReached(usage, budget)) {
+        throw new BudgetExceededError(budget.type === 'tokens'
+            ? `Token budget of ${budget.limit.toLocaleString()} reached.`
+            : `Spend budget of $${budget.limit.toFixed(2)} reached.`);
+    }
+};
+
+/**
+ * Thrown after Stage 2 when outline review is on and the item's outline has not been approved yet.
+ */
+class OutlineApprovalRequiredError extends Error {
+  constructor(message = 'The outline is waiting for approval.') {
+    super(message);
+    this.name = 'OutlineApprovalRequiredError';
+  }
+}
+
+/**
+ * Thrown between pipeline stages when the user stops an item's generation.
+ */
+class GenerationStoppedError extends Error {
+  constructor(message = 'Generation stopped by user.') {
+    super(message);
+    this.name = 'GenerationStoppedError';
+  }
+}
+
 /**
  * "Zero-Tolerance Video Guardian": Scans generated content for duplicate YouTube embeds
  * and programmatically replaces the second instance with the correct, unique video.
@@ -1085,7 +1307,7 @@ class ContentTooShortError extends Error {
  * @param youtubeVideos The array of unique video objects that *should* have been used.
  * @returns The HTML content with duplicate videos corrected.
  */
-const enforceUniqueVideoEmbeds = (content: string, youtubeVideos: any[]): string => {
+const enforceUniqueVideoEmbeds = (content: string, youtubeVideos: any[], log?: RunLogger): string => {
     if (!youtubeVideos || youtubeVideos.length < 2) {
         return content; // Not enough videos to have a duplicate issue.
     }
@@ -1117,6 +1339,7 @@ const enforceUniqueVideoEmbeds = (content: string, youtubeVideos: any[]): string
                 const correctedIframe = secondMatch[0].replace(duplicateId, secondVideo.videoId);
                 content = content.substring(0, secondMatchIndex) + correctedIframe + content.substring(secondMatchIndex + secondMatch[0].length);
                 console.log(`[Video Guardian] Successfully replaced second duplicate with unique video: "${secondVideo.videoId}".`);
+                log?.('warn', `Replaced duplicate video "${duplicateId}" with "${secondVideo.videoId}".`, { repair: 'video', from: duplicateId, to: secondVideo.videoId });
             }
         }
     }
@@ -1199,10 +1422,10 @@ const PROMPT_TEMPLATES = {
 
 **RULES:**
 1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text before or after the JSON.
-2.  **FRESHNESS & ACCURACY:** All titles must reflect current trends and be forward-looking (e.g., use '2025' where appropriate).
+2.  **FRESHNESS & ACCURACY:** All titles must reflect current trends and be forward-looking (e.g., use '{{YEAR}}' where appropriate).
 3.  **Pillar Content:** The 'pillarTitle' must be a broad, comprehensive title for a definitive guide. It must be engaging, keyword-rich, and promise immense value to the reader. Think "The Ultimate Guide to..." or "Everything You Need to Know About...".
 4.  **Cluster Content:** The 'clusterTitles' must be an array of 5 to 7 unique strings. Each title should be a compelling question or a long-tail keyword phrase that a real person would search for. These should be distinct sub-topics that logically support and link back to the main pillar page.
-    - Good Example: "How Much Does Professional Landscaping Cost in 2025?"
+    - Good Example: "How Much Does Professional Landscaping Cost in {{YEAR}}?"
     - Bad Example: "Landscaping Costs"
 5.  **Keyword Focus:** All titles must be optimized for search engines without sounding robotic.
 {{GEO_TARGET_INSTRUCTIONS}}
@@ -1220,11 +1443,11 @@ const PROMPT_TEMPLATES = {
         userPrompt: (topic: string) => `Generate a pillar-and-cluster content plan for the topic: "${topic}".`
     },
     content_meta_and_outline: {
-        systemInstruction: `You are an ELITE content strategist and SEO expert, specializing in creating content that ranks for featured snippets and voice search. Your task is to generate ALL metadata and a comprehensive structural plan for a world-class article.
+        systemInstruction: `You are an ELITE content strategist and SEO expert, specializing in creating content that ranks for featured snippets and voice search. Your task is to generate ALL metadata and a comprehensive structural plan for a world-class article written for {{AUDIENCE}}.
 
 **RULES:**
 1.  **JSON OUTPUT ONLY:** Your ENTIRE response MUST be a single, valid JSON object. No text before or after.
-2.  **FRESHNESS & ACCURACY:** The entire plan MUST be based on current, fact-checked, and accurate information, with a forward-looking perspective (2025 and beyond).
+2.  **FRESHNESS & ACCURACY:** The entire plan MUST be based on current, fact-checked, and accurate information, with a forward-looking perspective ({{YEAR}} and beyond).
 3.  **DO NOT WRITE THE ARTICLE BODY:** Your role is to plan, not write. The 'outline' should be a list of H2 headings ONLY. The 'introduction' and 'conclusion' sections should be fully written paragraphs.
 4.  **HEADINGS ARE SACRED (FOR VOICE & SNIPPETS):**
     - The H2 headings in the 'outline' MUST be phrased as direct user questions (e.g., "How Do I...?").
@@ -1233,14 +1456,14 @@ const PROMPT_TEMPLATES = {
 6.  **WRITING STYLE (For Intro/Conclusion):** Follow the "ANTI-AI" protocol: Short, direct sentences (avg. 10 words). Tiny paragraphs (2-3 sentences max). Active voice. Your writing MUST achieve a Flesch-Kincaid readability score of 80 or higher.
     - **PRIMARY KEYWORD:** You MUST seamlessly integrate the primary keyword within the first 1-2 sentences of the introduction.
 7.  **STRUCTURAL REQUIREMENTS:**
-    - **keyTakeaways**: Exactly 8 high-impact bullet points (as an array of strings).
-    - **outline**: 10-15 H2 headings, phrased as questions (as an array of strings).
-    - **faqSection**: Exactly 8 questions for a dedicated FAQ section (as an array of objects: \`[{ "question": "..." }]\`).
+    - **keyTakeaways**: Exactly as many high-impact bullet points as the CONTENT REQUIREMENTS ask for, or 8 if none are given (as an array of strings).
+    - **outline**: As many H2 headings as the CONTENT REQUIREMENTS ask for, or 10-15 if none are given, phrased as questions (as an array of strings).
+    - **faqSection**: Exactly as many questions as the CONTENT REQUIREMENTS ask for, or 8 if none are given, for a dedicated FAQ section (as an array of objects: \`[{ "question": "..." }]\`).
     - **imageDetails**: Exactly 2 image prompts. Placeholders MUST be '[IMAGE_1_PLACEHOLDER]' and '[IMAGE_2_PLACEHOLDER]'.
 8.  **SOTA SEO METADATA:** The 'title' MUST be under 60 characters and contain the **exact** primary keyword. The 'metaDescription' MUST be between 120 and 155 characters and contain the **exact** primary keyword.
 9.  **JSON STRUCTURE:** Adhere strictly to the provided JSON schema. Ensure all fields are present.
 `,
-        userPrompt: (primaryKeyword: string, semanticKeywords: string[] | null, serpData: any[] | null, peopleAlsoAsk: string[] | null, existingPages: any[] | null, originalContent: string | null = null, analysis: SitemapPage['analysis'] | null = null, articleFormat: 'standard' | 'scientific' = 'standard', primaryData: string | null = null) => {
+        userPrompt: (primaryKeyword: string, semanticKeywords: string[] | null, serpData: any[] | null, peopleAlsoAsk: string[] | null, existingPages: any[] | null, originalContent: string | null = null, analysis: SitemapPage['analysis'] | null = null, articleFormat: 'standard' | 'scientific' = 'standard', primaryData: string | null = null, requirements: ContentRequirements | null = null) => {
             const MAX_CONTENT_CHARS = 8000;
             const MAX_LINKING_PAGES = 50;
             const MAX_SERP_SNIPPET_LENGTH = 200;
@@ -1255,8 +1478,8 @@ ${existingPages && existingPages.length > 0 ? `**INTERNAL LINKING TARGETS (for c
 Generate a complete JSON plan for a scientific article. The outline MUST follow the scientific method.
 - **metaDescription:** MUST be a concise abstract (<=160 chars).
 - **outline:** MUST be an array of these exact headings: ["Hypothesis", "Methodology", "Results", "Discussion", "Conclusion", "References", "Data Availability"].
-- **keyTakeaways:** 8 practical takeaways from the research.
-- **faqSection:** 8 user questions about the research implications.
+- **keyTakeaways:** ${requirements?.keyTakeaways ?? 8} practical takeaways from the research.
+- **faqSection:** ${requirements?.faqCount ?? 8} user questions about the research implications.
 `;
             }
 
@@ -1282,25 +1505,26 @@ ${semanticKeywords ? `**MANDATORY SEMANTIC KEYWORDS:** You MUST integrate these
 ${peopleAlsoAsk && peopleAlsoAsk.length > 0 ? `**CRITICAL - PEOPLE ALSO ASK:** These are real user questions. You MUST use these as H2 headings in the outline. This is a top priority. <people_also_ask>${JSON.stringify(peopleAlsoAsk)}</people_also_ask>` : ''}
 ${serpData ? `**SERP COMPETITOR DATA:** Analyze for gaps. <serp_data>${JSON.stringify(serpData.map(d => ({title: d.title, link: d.link, snippet: d.snippet?.substring(0, MAX_SERP_SNIPPET_LENGTH)})))}</serp_data>` : ''}
 ${existingPages && existingPages.length > 0 ? `**INTERNAL LINKING TARGETS (for context):** <existing_articles_for_linking>${JSON.stringify(existingPages.slice(0, MAX_LINKING_PAGES).map(p => ({slug: p.slug, title: p.title})).filter(p => p.slug && p.title))}</existing_articles_for_linking>` : ''}
+${requirements ? formatRequirementsForPrompt(requirements) : ''}
 
 Generate the complete JSON plan.
 `;
         }
     },
     write_article_section: {
-        systemInstruction: `You are an ELITE content writer, writing in the style of a world-class thought leader like Alex Hormozi. Your SOLE task is to write the content for a single section of a larger article, based on the provided heading.
+        systemInstruction: `You are an ELITE content writer, writing in the style of {{BRAND_VOICE}}, for {{AUDIENCE}}. Your SOLE task is to write the content for a single section of a larger article, based on the provided heading.
 
 **RULES:**
 1.  **RAW HTML OUTPUT:** Your response must be ONLY the raw HTML content for the section. NO JSON, NO MARKDOWN, NO EXPLANATIONS. Start directly with a \`<p>\` tag. Do not include the \`<h2>\` tag for the main heading; it will be added automatically.
 2.  **ANSWER FIRST (FOR SNIPPETS):** The very first paragraph MUST be a direct, concise answer (40-55 words) to the question in the section heading.
-3.  **WORD COUNT:** The entire section MUST be between 250 and 300 words. This is mandatory.
+3.  **WORD COUNT:** The entire section MUST stay within the section length you are given, or 250-300 words if none is given. This is mandatory.
 4.  **ELITE WRITING STYLE (THE "ANTI-AI" PROTOCOL):**
     - Short, direct sentences. Average 10 words. Max 15.
     - Tiny paragraphs. 2-3 sentences. MAXIMUM.
     - Your writing MUST be clear enough to achieve a Flesch-Kincaid readability score of 80 or higher (Easy to read for a 12-year-old).
     - Use contractions: "it's," "you'll," "can't."
     - Active voice. Simple language. No filler words.
-5.  **FRESHNESS RULE:** All information, stats, and examples MUST be current and forward-looking (2025 and beyond). Outdated information is forbidden.
+5.  **FRESHNESS RULE:** All information, stats, and examples MUST be current and forward-looking ({{YEAR}} and beyond). Outdated information is forbidden.
 6.  **FORBIDDEN PHRASES (ZERO TOLERANCE):**
     - ❌ 'delve into', 'in today's digital landscape', 'revolutionize', 'game-changer', 'unlock', 'leverage', 'in conclusion', 'to summarize', 'utilize', 'furthermore', 'moreover', 'landscape', 'realm', 'dive deep', etc.
 7.  **STRUCTURE & SEO:**
@@ -1309,8 +1533,17 @@ Generate the complete JSON plan.
     - You MUST integrate the primary keyword at least once, and relevant semantic keywords naturally.
     - You MUST naturally integrate 1-2 internal link placeholders where contextually appropriate: \`[INTERNAL_LINK slug="example-slug" text="anchor text"]\`.
     - If writing for a section where a video will be embedded, provide a brief text summary of what the video covers.
+8.  **NO REPETITION:** You are given the full outline and a summary of what earlier sections already say. Cover only your own heading. Never repeat a stat, definition or example listed as already covered; refer to it briefly or add something new instead.
 `,
-        userPrompt: (primaryKeyword: string, articleTitle: string, sectionHeading: string, existingPages: any[] | null, articleFormat: 'standard' | 'scientific' = 'standard', primaryData: string | null = null) => {
+        userPrompt: (primaryKeyword: string, articleTitle: string, sectionHeading: string, existingPages: any[] | null, articleFormat: 'standard' | 'scientific' = 'standard', primaryData: string | null = null, outline: string[] = [], coveredSoFar: string[] = [], requirements: ContentRequirements | null = null) => {
+            const articleContext = `${requirements ? `**Section Length:** ${requirements.minSectionWords}-${requirements.maxSectionWords} words.` : ''}
+${outline.length > 0 ? `**Full Article Outline:**
+${outline.map(heading => `- ${heading}${heading === sectionHeading ? '  ← YOU ARE WRITING THIS SECTION' : ''}`).join('\n')}` : ''}
+${coveredSoFar.length > 0 ? `**Already Covered by Earlier Sections (do NOT repeat):**
+<covered>
+${coveredSoFar.join('\n')}
+</covered>` : ''}`;
+
              if (articleFormat === 'scientific') {
                 let scientificInstruction = '';
                 switch (sectionHeading) {
@@ -1344,6 +1577,7 @@ Generate the complete JSON plan.
 **Instruction:** ${scientificInstruction}
 ${primaryData ? `**Primary Data:** <data>${primaryData}</data>` : ''}
 ${existingPages && existingPages.length > 0 ? `**Available Internal Links:** <pages>${JSON.stringify(existingPages.slice(0, 50).map(p => ({slug: p.slug, title: p.title})))}</pages>` : ''}
+${articleContext}
 
 Write the HTML content for this scientific section now.
 `;
@@ -1354,6 +1588,8 @@ Write the HTML content for this scientific section now.
 **Main Article Title:** "${articleTitle}"
 **Section to Write:** "${sectionHeading}"
 
+${articleContext}
+
 ${existingPages && existingPages.length > 0 ? `**Available Internal Links:** You can link to these pages.
 <pages>${JSON.stringify(existingPages.slice(0, 50).map(p => ({slug: p.slug, title: p.title})))}</pages>` : ''}
 
@@ -1366,16 +1602,94 @@ Write the HTML content for this section now.
 
 **RULES:**
 1.  **RAW HTML PARAGRAPH:** Respond with ONLY the answer wrapped in a single \`<p>\` tag. Do not repeat the question.
-2.  **STYLE & FRESHNESS:** The answer must be direct, easy to understand (Flesch-Kincaid score of 80+), and typically 2-4 sentences long. All information must be up-to-date (2025+). Follow the "ANTI-AI" writing style (simple words, active voice).
+2.  **STYLE & FRESHNESS:** The answer must be direct, easy to understand (Flesch-Kincaid score of 80+), and typically 2-4 sentences long. All information must be up-to-date ({{YEAR}}+). Follow the "ANTI-AI" writing style (simple words, active voice).
 `,
         userPrompt: (question: string) => `Question: "${question}"`
     },
+    rewrite_article_section: {
+        systemInstruction: `You are an ELITE editor, writing in the style of {{BRAND_VOICE}}, for {{AUDIENCE}}. Your SOLE task is to rewrite one section of a published article according to the editor's instruction.
+
+**RULES:**
+1.  **RAW HTML OUTPUT:** Your response must be ONLY the raw HTML content for the section. NO JSON, NO MARKDOWN, NO EXPLANATIONS. Do not include the \`<h2>\` heading; it is kept as-is.
+2.  **FOLLOW THE INSTRUCTION:** Apply the editor's instruction exactly. Keep everything the instruction does not ask you to change, including facts, links and the answer-first opening paragraph.
+3.  **KEEP THE STYLE:** Short, direct sentences. Tiny paragraphs. Active voice. Contractions. None of the forbidden AI phrases ('delve into', 'game-changer', 'leverage', 'landscape', 'realm', etc.).
+4.  **LINKS:** Keep existing \`<a>\` tags unchanged. New internal links use the placeholder format: \`[INTERNAL_LINK slug="example-slug" text="anchor text"]\`.
+5.  **FRESHNESS:** Anything you add must be current ({{YEAR}} and beyond).
+`,
+        userPrompt: (primaryKeyword: string, articleTitle: string, sectionHeading: string, sectionHtml: string, instruction: string, existingPages: any[] | null) => `
+**Primary Keyword:** "${primaryKeyword}"
+**Main Article Title:** "${articleTitle}"
+**Section Heading:** "${sectionHeading}"
+**Editor's Instruction:** ${instruction}
+
+<current_section>
+${sectionHtml}
+</current_section>
+
+${existingPages && existingPages.length > 0 ? `**Available Internal Links:** You can link to these pages.
+<pages>${JSON.stringify(existingPages.slice(0, 50).map(p => ({slug: p.slug, title: p.title})))}</pages>` : ''}
+
+Write the rewritten HTML content for this section now.
+`
+    },
+    humanize_paragraphs: {
+        systemInstruction: `You are an ELITE editor, writing in the style of {{BRAND_VOICE}}, for {{AUDIENCE}}. Your SOLE task is to fix the flagged paragraphs of an article so they read like a human expert wrote them.
+
+**RULES:**
+1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text, markdown, or justification before or after the JSON.
+2.  **FIX ONLY WHAT IS FLAGGED:** Replace every flagged phrase with plain, specific wording and split every flagged long sentence into short ones. Keep the meaning, facts, numbers and roughly the same length.
+3.  **KEEP THE HTML:** Each paragraph is the inner HTML of a \`<p>\` or \`<li>\`. Return inner HTML only, without the wrapping tag. Keep every \`<a>\` tag and its \`href\` exactly as given, and keep inline formatting like \`<strong>\`.
+4.  **NO NEW AI PHRASES:** Never introduce 'delve into', 'furthermore', 'moreover', 'leverage', 'landscape', 'realm', 'crucial', 'comprehensive' or similar filler.
+5.  **JSON Structure:** Return every paragraph you were given, with the same id:
+    {
+      "paragraphs": [
+        { "id": 0, "html": "The rewritten inner HTML." }
+      ]
+    }
+`,
+        userPrompt: (primaryKeyword: string, paragraphs: { id: number; html: string; issues: string[] }[]) => `
+**Primary Keyword:** "${primaryKeyword}"
+
+${paragraphs.map(paragraph => `<paragraph id="${paragraph.id}">
+${paragraph.html}
+</paragraph>
+**Fix:**
+${paragraph.issues.map(issue => `- ${issue}`).join('\n')}`).join('\n\n')}
+
+Return the rewritten paragraphs now.
+`
+    },
+    suggest_gap_sections: {
+        systemInstruction: `You are a world-class SEO content strategist. Your task is to find the subtopics an article is missing, so new sections can be added to it.
+
+**RULES:**
+1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text, markdown, or justification before or after the JSON.
+2.  **REAL GAPS ONLY:** Each heading must cover something the existing outline does not, and that people searching for the primary keyword expect to find. Never reword an existing heading.
+3.  **MATCH THE OUTLINE:** Phrase headings as questions, like the existing outline.
+4.  **FRESHNESS:** Headings must be relevant for {{YEAR}} and beyond.
+5.  **JSON Structure:** The JSON object must conform to this exact structure:
+    {
+      "headings": [
+        "A new H2 heading, phrased as a question.",
+        "..."
+      ]
+    }
+`,
+        userPrompt: (primaryKeyword: string, articleTitle: string, outline: string[], count: number, peopleAlsoAsk: string[] | null) => `
+**Primary Keyword:** "${primaryKeyword}"
+**Main Article Title:** "${articleTitle}"
+**Existing Outline:**
+${outline.map(heading => `- ${heading}`).join('\n')}
+${peopleAlsoAsk && peopleAlsoAsk.length > 0 ? `\n**People Also Ask:**\n${peopleAlsoAsk.map(question => `- ${question}`).join('\n')}\n` : ''}
+Suggest exactly ${count} new H2 heading(s) for the article's biggest content gaps.
+`
+    },
     semantic_keyword_generator: {
         systemInstruction: `You are a world-class SEO analyst. Your task is to generate a comprehensive list of semantic and LSI (Latent Semantic Indexing) keywords related to a primary topic. These keywords should cover sub-topics, user intent variations, and related entities.
 
 **RULES:**
 1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text, markdown, or justification before or after the JSON.
-2.  **FRESHNESS:** Keywords should be relevant for the current year and beyond (2025+).
+2.  **FRESHNESS:** Keywords should be relevant for the current year and beyond ({{YEAR}}+).
 3.  **Quantity:** Generate between 15 and 25 keywords.
 4.  **JSON Structure:** The JSON object must conform to this exact structure:
     {
@@ -1395,7 +1709,7 @@ Write the HTML content for this section now.
 
 **RULES:**
 1.  **JSON OUTPUT ONLY:** Your entire response MUST be a single, valid JSON object: \`{ "seoTitle": "...", "metaDescription": "..." }\`. No text before or after.
-2.  **FRESHNESS:** All copy must be current and forward-looking. Use the current year or next year (e.g., 2025) if it makes sense.
+2.  **FRESHNESS:** All copy must be current and forward-looking. Use the current year or next year (e.g., {{YEAR}}) if it makes sense.
 3.  **SEO Title (STRICTLY max 60 chars):**
     - MUST contain the primary keyword, preferably near the beginning.
     - MUST be compelling and create curiosity or urgency. Use power words.
@@ -1477,7 +1791,7 @@ Return the complete article content with the new internal link placeholders now.
           "Another key piece of information needed to make the article comprehensive.",
           "..."
         ],
-        "freshness": "Identify specific outdated information (e.g., old stats, dates like 2023 or 2024, product versions) and suggest the exact, up-to-date information that should replace it for 2025 and beyond. Be specific. If none, state 'Content appears fresh.'",
+        "freshness": "Identify specific outdated information (e.g., old stats, dates before {{YEAR}}, product versions) and suggest the exact, up-to-date information that should replace it for {{YEAR}} and beyond. Be specific. If none, state 'Content appears fresh.'",
         "eeat": "Provide 2-3 specific recommendations to boost Experience, Expertise, Authoritativeness, and Trust. Examples: 'Add a quote from a named industry expert on [topic]', 'Cite a specific study from [reputable source] to back up the claim about [claim]', 'Update the author bio to highlight specific experience in this field.'"
       }
     }`,
@@ -1506,9 +1820,79 @@ Return the complete article content with the new internal link placeholders now.
 
 **FINAL INSTRUCTION:** Your ENTIRE response MUST be ONLY the JSON object, starting with { and ending with }. Do not add any introductory text, closing remarks, or markdown code fences. Your output will be parsed directly by a machine.`,
         userPrompt: (content: string) => `Analyze the following blog post content and provide its SEO health score.\n\n&lt;content&gt;\n${content}\n&lt;/content&gt;`
+    },
+    translate_metadata: {
+        systemInstruction: `You are an expert translator and SEO localizer. Your task is to localize an article's metadata for searchers who use another language.
+
+**RULES:**
+1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text, markdown, or justification before or after the JSON.
+2.  **SEARCH TERMS, NOT WORD-FOR-WORD:** The primary and semantic keywords must be what people searching in the target language actually type, not literal translations.
+3.  **LIMITS:** Keep the title under 60 characters and the meta description between 120 and 155. The slug is lower-case ASCII words in the target language, joined by hyphens.
+4.  **ALT TEXTS:** Return one alt text per image, in the order given.
+5.  **JSON Structure:**
+    {
+      "title": "The localized title.",
+      "slug": "localized-slug",
+      "metaDescription": "The localized meta description.",
+      "primaryKeyword": "the localized primary keyword",
+      "semanticKeywords": ["..."],
+      "altTexts": ["..."],
+      "socialMediaCopy": { "twitter": "...", "linkedIn": "..." }
+    }
+`,
+        userPrompt: (sourceLanguage: string, targetLanguage: string, metadata: object) => `
+**Translate from:** ${sourceLanguage}
+**Translate into:** ${targetLanguage}
+
+<metadata>
+${JSON.stringify(metadata, null, 2)}
+</metadata>
+
+Return the localized JSON now.
+`
+    },
+    translate_article: {
+        systemInstruction: `You are an expert translator and SEO localizer, writing in the style of {{BRAND_VOICE}}, for {{AUDIENCE}}. Your SOLE task is to translate one part of an article so it reads as if it had been written in the target language.
+
+**RULES:**
+1.  **Output Format:** Return ONLY the translated HTML. No markdown, no code fences, no commentary.
+2.  **LOCALIZE, DON'T TRANSLITERATE:** Use natural phrasing, idioms, units and examples for the target readers. Keep every fact, number, name and source.
+3.  **KEEP THE STRUCTURE:** Translate the text and the \`alt\` and \`title\` attributes. Keep every tag, every other attribute, every \`href\` and \`src\`, and every token like \`[[IMAGE_0]]\` exactly as given. Never add or drop sections, paragraphs, links, tables or list items.
+4.  **KEYWORD:** Use the localized primary keyword wherever the original uses its own.
+`,
+        userPrompt: (html: string, sourceLanguage: string, targetLanguage: string, primaryKeyword: string, localizedKeyword: string) => `
+**Translate from:** ${sourceLanguage}
+**Translate into:** ${targetLanguage}
+**Primary Keyword:** "${primaryKeyword}", localized as "${localizedKeyword}"
+
+<html_to_translate>
+${html}
+</html_to_translate>
+
+Return the translated HTML now.
+`
     }
 };
 
+/** Human-readable names for each prompt, as shown in the per-stage model routing settings. */
+const PROMPT_STAGE_LABELS: Record<keyof typeof PROMPT_TEMPLATES, string> = {
+    cluster_planner: 'Cluster Planner',
+    content_meta_and_outline: 'Metadata & Outline',
+    write_article_section: 'Article Sections',
+    write_faq_answer: 'FAQ Answers',
+    rewrite_article_section: 'Section Rewrites',
+    suggest_gap_sections: 'Gap Sections',
+    humanize_paragraphs: 'Humanization Rewrites',
+    semantic_keyword_generator: 'Semantic Keywords',
+    seo_metadata_generator: 'SEO Metadata',
+    internal_link_optimizer: 'Internal Link Optimizer',
+    generate_references: 'References',
+    content_rewrite_analyzer: 'Rewrite Analyzer',
+    content_health_analyzer: 'Health Analyzer',
+    translate_metadata: 'Translation Metadata',
+    translate_article: 'Article Translation',
+};
+
 type ContentItem = {
     id: string;
     title: string;
@@ -1520,29 +1904,210 @@ type ContentItem = {
     originalUrl?: string;
     analysis?: SitemapPage['analysis'];
     articleFormat?: 'standard' | 'scientific';
+    usage?: ItemUsage;
+    /** Providers that answered at least one prompt in the latest run, in order of first use. */
+    providersUsed?: string[];
+    /** How far the saved pipeline checkpoint got (see describeCheckpoint). The next run resumes from it. */
+    resumeFrom?: string;
+    /** Generation paused after Stage 2 until an editor approves the outline. */
+    awaitingOutlineApproval?: boolean;
+    /** Events from the latest generation run, oldest first. */
+    runLog?: RunLogEntry[];
+    /** The chosen requirement profile. Unset means Pillar for pillar items and Standard otherwise. */
+    requirementProfileId?: string;
+    /** The language to write in. Unset means the project's language. */
+    language?: LanguageCode;
+    /** For translations, the id of the item holding the original article. */
+    translationOf?: string;
+};
+
+/** The parsed content_meta_and_outline response. The model may leave out fields its schema requires, so the parts the pipeline guards against are optional. */
+export type ArticleOutline = {
+    title: string;
+    slug?: string;
+    metaDescription: string;
+    primaryKeyword: string;
+    semanticKeywords?: string[];
+    strategy?: GeneratedContent['strategy'];
+    introduction?: string;
+    keyTakeaways?: string[];
+    /** The H2 headings, in order. */
+    outline: string[];
+    conclusion?: string;
+    faqSection?: { question: string }[];
+    imageDetails: GeneratedContent['imageDetails'];
+};
+
+/** Accumulated token usage and estimated cost for one item's latest generation run. */
+type ItemUsage = {
+    promptTokens: number;
+    completionTokens: number;
+    /** Estimated cost in USD of the calls whose model has a price entry. */
+    cost: number;
+    calls: number;
+    /** Calls whose model is missing from the price table, or that reported no usage. */
+    unpricedCalls: number;
+};
+
+/** How a writeArticle run reports progress and which callAI options it uses. */
+type ArticleRun = {
+    signal: AbortSignal;
+    /** Passed to every callAI in the run. */
+    callOptions: CallAIOptions;
+    onStatus: (statusText: string) => void;
+    /** Receives the article assembled so far. `force` bypasses the preview throttle. */
+    onDraft: (html: string, force?: boolean) => void;
+    isStopped: () => boolean;
+    assertWithinBudget: () => void;
+    /** When false, image placeholders are removed instead of generating images. */
+    generateImages: boolean;
+    /** How many requests run at the same time: the section writer plus FAQ answers. */
+    concurrency: number;
+    /** Length and structure targets for the prompts and quality gates. */
+    requirements: ContentRequirements;
+    /** Expansion rounds for articles under their minimum word count. 0 fails them right away. */
+    expansionAttempts: number;
+    /** Rewrite paragraphs flagged by checkHumanWritingScore before the final checks. */
+    humanizeRewrite: boolean;
+    /** Pause after Stage 2 until the outline is approved. Requires onCheckpoint, which stores the outline. */
+    requireOutlineApproval?: boolean;
+    /**
+     * When set, the run resumes from the item's saved checkpoint and checkpoints each completed
+     * step, calling this after every save.
+     */
+    onCheckpoint?: (checkpoint: PipelineCheckpoint) => void;
+    /** Receives the run's log events: stage changes, retries, repairs and quality check findings. */
+    onLog?: (entry: RunLogEntry) => void;
+};
+
+/** Per-call options for callAI. */
+type CallAIOptions = {
+    /** Attribute token usage and cost to this item. */
+    itemId?: string;
+    /** Stream 'html' responses where the provider supports it, calling this with the text received so far. */
+    onStream?: (textSoFar: string) => void;
+    /** Cancels the call, including any remaining failover attempts, when aborted. */
+    signal?: AbortSignal;
+    /** Send every call to this provider and model only, bypassing routing and failover. */
+    route?: ModelRoute;
+    /** System instructions to use instead of the project's, keyed by prompt. Variables are still applied. */
+    promptOverrides?: Partial<Record<string, string>>;
+    /** Receives the usage and estimated cost of every completion, including repair attempts. */
+    onUsage?: (usage: AiUsage | undefined, cost: number | null) => void;
+    /** Records retries, schema repairs and provider failovers. */
+    log?: RunLogger;
+    /** The language to write in. Defaults to the project's language. */
+    language?: LanguageCode;
+    /** Adds the tokens and cost of every completion to this run's total, for its budget. */
+    runUsage?: RunUsage;
 };
 
+/** Tokens and estimated spend of one run, so far. */
+type RunUsage = { tokens: number; cost: number };
+
 type SeoCheck = {
     id: string;
     valid: boolean;
     text: string;
     value: string | number;
-    category: 'Meta' | 'Content' | 'Accessibility';
+    category: 'Meta' | 'Content' | 'Readability' | 'Accessibility' | 'Style';
     priority: 'High' | 'Medium' | 'Low';
     advice: string;
 };
 
+/** The prompts that write article text. callAI appends the project's style guide to their instructions. */
+const STYLE_GUIDE_PROMPT_KEYS: (keyof typeof PROMPT_TEMPLATES)[] = ['content_meta_and_outline', 'write_article_section', 'write_faq_answer', 'rewrite_article_section', 'humanize_paragraphs'];
+
+/** The prompts an A/B experiment can vary. Cached stages (semantic keywords) are excluded. */
+const EXPERIMENT_PROMPT_KEYS: (keyof typeof PROMPT_TEMPLATES)[] = ['content_meta_and_outline', 'write_article_section', 'write_faq_answer', 'generate_references'];
+
+/** One side of an A/B experiment: the system instruction under test and, optionally, a fixed model. */
+type ExperimentVariant = {
+    promptText: string;
+    /** Sends every call in the run to this provider and model. Null uses the normal routing. */
+    route: ModelRoute | null;
+};
+
+type ExperimentResult = {
+    status: 'pending' | 'running' | 'done' | 'error';
+    statusText: string;
+    content?: GeneratedContent;
+    usage?: ItemUsage;
+};
+
+/** Two variants run through the full article pipeline on the same item. */
+type PromptExperiment = {
+    id: string;
+    itemId: string;
+    itemTitle: string;
+    promptKey: keyof typeof PROMPT_TEMPLATES;
+    createdAt: string;
+    variants: [ExperimentVariant, ExperimentVariant];
+    results: [ExperimentResult, ExperimentResult];
+    /** The item's requirement profile when the experiment started. Both variants are scored against it. */
+    requirements: ContentRequirements;
+};
+
 // --- REDUCER for items state ---
+type RunLogLevel = 'info' | 'warn' | 'error';
+
+/** One event in an item's run log, shown in the Review modal's Run Log tab. */
+type RunLogEntry = {
+    timestamp: string;
+    /** The pipeline stage that was running, e.g. 'Research' or 'Finalize'. */
+    stage: string;
+    level: RunLogLevel;
+    message: string;
+    /** Structured extras, such as a retry's attempt number and delay, or what a repair changed. */
+    details?: Record<string, unknown>;
+};
+
+/** Records a run log event. Module-level checks accept one as an optional last argument. */
+type RunLogger = (level: RunLogLevel, message: string, details?: Record<string, unknown>) => void;
+
 type ItemsAction =
     | { type: 'SET_ITEMS'; payload: Partial<ContentItem>[] }
+    | { type: 'REPLACE_ITEM'; payload: { id: string; item: ContentItem } }
+    | { type: 'REMOVE_ITEM'; payload: { id: string } }
+    | { type: 'ADD_ITEM'; payload: { item: ContentItem } }
+    | { type: 'SET_ITEM_LANGUAGE'; payload: { id: string; language: LanguageCode } }
     | { type: 'UPDATE_STATUS'; payload: { id: string; status: ContentItem['status']; statusText: string } }
     | { type: 'SET_CONTENT'; payload: { id: string; content: GeneratedContent } }
-    | { type: 'SET_CRAWLED_CONTENT'; payload: { id: string; content: string } };
+    | { type: 'SET_CRAWLED_CONTENT'; payload: { id: string; content: string } }
+    | { type: 'ADD_USAGE'; payload: { id: string; usage?: AiUsage; cost: number | null; provider?: string } }
+    | { type: 'RESET_USAGE'; payload: { id: string } }
+    | { type: 'SET_CHECKPOINT'; payload: { id: string; resumeFrom?: string; awaitingOutlineApproval?: boolean } }
+    | { type: 'APPEND_RUN_LOG'; payload: { id: string; entry: RunLogEntry } }
+    | { type: 'RESET_RUN_LOG'; payload: { id: string } }
+    | { type: 'SET_REQUIREMENT_PROFILE'; payload: { id: string; profileId: string } };
 
 const itemsReducer = (state: ContentItem[], action: ItemsAction): ContentItem[] => {
     switch (action.type) {
         case 'SET_ITEMS':
             return action.payload.map((item: any) => ({ ...item, status: 'idle', statusText: 'Not Started', generatedContent: null, crawledContent: item.crawledContent || null, analysis: item.analysis || null, articleFormat: item.articleFormat || 'standard' }));
+        case 'REPLACE_ITEM': {
+            const { id, item: replacement } = action.payload;
+            // If the replacement is already in the list, the old item is just dropped.
+            if (state.some(item => item.id === replacement.id && item.id !== id)) {
+                return state.filter(item => item.id !== id);
+            }
+            return state.map(item => item.id === id ? replacement : item);
+        }
+        case 'REMOVE_ITEM':
+            return state.filter(item => item.id !== action.payload.id);
+        case 'ADD_ITEM': {
+            const { item: added } = action.payload;
+            // An item with the same id, such as an earlier translation into the same language, is replaced in place.
+            return state.some(item => item.id === added.id)
+                ? state.map(item => item.id === added.id ? added : item)
+                : [...state, added];
+        }
+        case 'SET_ITEM_LANGUAGE':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, language: action.payload.language }
+                    : item
+            );
         case 'UPDATE_STATUS':
             return state.map(item =>
                 item.id === action.payload.id
@@ -1561,11 +2126,82 @@ const itemsReducer = (state: ContentItem[], action: ItemsAction): ContentItem[]
                     ? { ...item, crawledContent: action.payload.content }
                     : item
             );
+        case 'ADD_USAGE': {
+            const { usage, cost, provider } = action.payload;
+            return state.map(item => {
+                if (item.id !== action.payload.id) return item;
+                const providersUsed = item.providersUsed || [];
+                return {
+                    ...item,
+                    providersUsed: provider && !providersUsed.includes(provider) ? [...providersUsed, provider] : providersUsed,
+                    usage: addUsage(item.usage, usage, cost),
+                };
+            });
+        }
+        case 'RESET_USAGE':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, usage: undefined, providersUsed: undefined }
+                    : item
+            );
+        case 'SET_CHECKPOINT':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, resumeFrom: action.payload.resumeFrom, awaitingOutlineApproval: action.payload.awaitingOutlineApproval }
+                    : item
+            );
+        case 'APPEND_RUN_LOG':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, runLog: [...(item.runLog || []), action.payload.entry].slice(-MAX_RUN_LOG_ENTRIES) }
+                    : item
+            );
+        case 'RESET_RUN_LOG':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, runLog: undefined }
+                    : item
+            );
+        case 'SET_REQUIREMENT_PROFILE':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, requirementProfileId: action.payload.profileId }
+                    : item
+            );
         default:
             return state;
     }
 };
 
+/**
+ * Adds one completion to a usage total.
+ * @param total The running total, if any.
+ * @param usage The completion's token usage, if the provider reported it.
+ * @param cost The completion's estimated cost, or null if the model is unpriced.
+ * @returns The new total.
+ */
+const addUsage = (total: ItemUsage | undefined, usage: AiUsage | undefined, cost: number | null): ItemUsage => {
+    const prev = total || { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0, unpricedCalls: 0 };
+    return {
+        promptTokens: prev.promptTokens + (usage?.promptTokens || 0),
+        completionTokens: prev.completionTokens + (usage?.completionTokens || 0),
+        cost: prev.cost + (cost || 0),
+        calls: prev.calls + 1,
+        unpricedCalls: prev.unpricedCalls + (cost === null ? 1 : 0),
+    };
+};
+
+/**
+ * Formats an ItemUsage total for display, e.g. "$0.0412". Unpriced calls are flagged with a "+".
+ * @param usage The usage to format.
+ * @returns The formatted cost, or an em dash if there is no usage.
+ */
+const formatUsageCost = (usage?: ItemUsage): string => {
+    if (!usage || usage.calls === 0) return '—';
+    const cost = `$${usage.cost.toFixed(usage.cost > 0 && usage.cost < 1 ? 4 : 2)}`;
+    return usage.unpricedCalls > 0 ? `${cost}+` : cost;
+};
+
 // --- Child Components ---
 
 const CheckIcon = () => (
@@ -1581,7 +2217,9 @@ const SidebarNav = memo(({ activeView, onNavClick }: { activeView: string; onNav
     const navItems = [
         { id: 'setup', name: 'Setup' },
         { id: 'strategy', name: 'Content Strategy' },
-        { id: 'review', name: 'Review & Export' }
+        { id: 'review', name: 'Review & Export' },
+        { id: 'prompts', name: 'Prompt Library' },
+        { id: 'experiments', name: 'A/B Experiments' }
     ];
     return (
         <nav aria-label="Main navigation">
@@ -1650,29 +2288,11 @@ const ApiKeyInput = memo(({ provider, value, onChange, status, name, placeholder
 });
 
 // --- START: Advanced Content Quality Analysis ---
-const countSyllables = (word: string): number => {
-    if (!word) return 0;
-    word = word.toLowerCase().trim();
-    if (word.length <= 3) { return 1; }
-    word = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '');
-    word = word.replace(/^y/, '');
-    const matches = word.match(/[aeiouy]{1,2}/g);
-    return matches ? matches.length : 0;
-};
-
-const calculateFleschReadability = (text: string): number => {
-    const sentences = (text.match(/[.!?]+/g) || []).length || 1;
-    const words = (text.match(/\b\w+\b/g) || []).length;
-    if (words < 100) return 0; // Not enough content for an accurate score
-
-    let syllableCount = 0;
-    text.split(/\s+/).forEach(word => {
-        syllableCount += countSyllables(word);
-    });
+/** Passive sentences above this share of the article are flagged. */
+const MAX_PASSIVE_RATIO = 0.1;
 
-    const fleschScore = 206.835 - 1.015 * (words / sentences) - 84.6 * (syllableCount / words);
-    return Math.round(Math.min(100, Math.max(0, fleschScore)));
-};
+/** The reading grade an article should meet: the project's style guide level, or the default. */
+const getTargetGrade = (styleGuide: StyleGuide | null): number => styleGuide?.readingLevel || DEFAULT_TARGET_GRADE;
 
 const getReadabilityVerdict = (score: number): { verdict: string; color: string; advice: string } => {
     if (score === 0) return { verdict: 'N/A', color: 'var(--text-tertiary)', advice: 'Not enough content to calculate a score.' };
@@ -1685,6 +2305,76 @@ const getReadabilityVerdict = (score: number): { verdict: string; color: string;
 };
 // --- END: Advanced Content Quality Analysis ---
 
+/**
+ * Runs the RankGuardian checks on an article and scores it.
+ * @param content The article HTML.
+ * @param seo The SEO title and meta description.
+ * @param primaryKeyword The article's primary keyword.
+ * @param semanticKeywords The article's semantic keywords.
+ * @param requirements The item's requirement profile.
+ * @param styleGuide The project's style guide. Without one, the style check is skipped and readability targets the default grade.
+ * @param language The article's language, for the readability formulas.
+ * @returns The content metrics, every check, the style guide violations, the readability report, and the SEO and overall scores (0-100).
+ */
+const analyzeRankGuardian = (content: string, seo: { title: string; metaDescription: string }, primaryKeyword: string, semanticKeywords: string[], requirements: ContentRequirements, styleGuide: StyleGuide | null = null, language: LanguageCode = DEFAULT_LANGUAGE) => {
+    const { title, metaDescription } = seo;
+    const tempDiv = document.createElement('div');
+    tempDiv.innerHTML = content || '';
+    const textContent = tempDiv.textContent || '';
+    const wordCount = (textContent.match(/[\p{L}\p{N}_]+/gu) || []).length;
+    const keywordLower = primaryKeyword.toLowerCase();
+    
+    const contentAnalysis = {
+        wordCount,
+        readabilityScore: calculateFleschReadability(textContent, language),
+        keywordDensity: (textContent.toLowerCase().match(new RegExp(escapeRegExp(keywordLower), 'g')) || []).length,
+        semanticKeywordCount: semanticKeywords.reduce((acc, kw) => acc + (textContent.toLowerCase().match(new RegExp(escapeRegExp(kw.toLowerCase()), 'g')) || []).length, 0),
+        linkCount: tempDiv.getElementsByTagName('a').length,
+        tableCount: tempDiv.getElementsByTagName('table').length,
+        listCount: tempDiv.querySelectorAll('ul, ol').length,
+    };
+
+    const duplicateParagraphs = findDuplicateParagraphs(findArticleSections(content || '').map(section => section.bodyHtml));
+    const hasStyleGuide = !!styleGuide && !isStyleGuideEmpty(styleGuide);
+    const styleViolations = hasStyleGuide ? checkStyleGuide(textContent, styleGuide!, calculateFleschKincaidGrade(textContent, language)) : [];
+    const readability = analyzeReadability(content || '', getTargetGrade(styleGuide), findArticleSections(content || ''), language);
+    const hardSections = readability.sections.filter(section => section.level === 'hard');
+
+    const checks: SeoCheck[] = [
+        // Meta
+        { id: 'titleLength', valid: title.length > 30 && title.length <= 60, value: title.length, text: 'Title Length (30-60)', category: 'Meta', priority: 'High', advice: 'Titles between 30 and 60 characters have the best click-through rates on Google.' },
+        { id: 'titleKeyword', valid: title.toLowerCase().includes(keywordLower), value: title.toLowerCase().includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in Title', category: 'Meta', priority: 'High', advice: 'Including your primary keyword in the SEO title is crucial for relevance.' },
+        { id: 'metaLength', valid: metaDescription.length >= 120 && metaDescription.length <= 155, value: metaDescription.length, text: 'Meta Description (120-155)', category: 'Meta', priority: 'Medium', advice: 'Write a meta description between 120 and 155 characters to avoid truncation and maximize CTR.' },
+        { id: 'metaKeyword', valid: metaDescription.toLowerCase().includes(keywordLower), value: metaDescription.toLowerCase().includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in Meta', category: 'Meta', priority: 'High', advice: 'Your meta description should contain the primary keyword to improve click-through rate.' },
+        
+        // Content
+        { id: 'wordCount', valid: wordCount >= requirements.minWords && wordCount <= requirements.maxWords, value: wordCount, text: `Word Count (${requirements.minWords}-${requirements.maxWords})`, category: 'Content', priority: 'Medium', advice: `The "${requirements.name}" profile targets ${requirements.minWords}-${requirements.maxWords} words. Expand thin sections or trim padding to land in range.` },
+        { id: 'keywordDensity', valid: contentAnalysis.keywordDensity > 0, value: `${contentAnalysis.keywordDensity} time(s)`, text: 'Keyword Usage', category: 'Content', priority: 'High', advice: 'Using your primary keyword ensures the topic is clear to search engines.' },
+        { id: 'keywordInFirstP', valid: (tempDiv.querySelector('p')?.textContent?.toLowerCase() || '').includes(keywordLower), value: (tempDiv.querySelector('p')?.textContent?.toLowerCase() || '').includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in First Paragraph', category: 'Content', priority: 'High', advice: 'Placing your keyword in the first 100 words signals the topic to search engines early.' },
+        { id: 'h1s', valid: tempDiv.getElementsByTagName('h1').length === 0, value: tempDiv.getElementsByTagName('h1').length, text: 'H1 Tags in Content', category: 'Content', priority: 'High', advice: 'Your content body should not contain any H1 tags. The article title serves as the only H1.' },
+        { id: 'links', valid: contentAnalysis.linkCount >= requirements.minInternalLinks && contentAnalysis.linkCount <= requirements.maxInternalLinks, value: contentAnalysis.linkCount, text: `Internal Links (${requirements.minInternalLinks}-${requirements.maxInternalLinks})`, category: 'Content', priority: 'Medium', advice: 'A strong internal linking structure helps Google understand your site architecture and topic clusters.' },
+        { id: 'tables', valid: contentAnalysis.tableCount >= requirements.minTables, value: contentAnalysis.tableCount, text: `Tables (${requirements.minTables}+)`, category: 'Content', priority: 'Low', advice: `The "${requirements.name}" profile asks for at least ${requirements.minTables} table(s). Comparison tables are a common featured-snippet format.` },
+        { id: 'duplicateParagraphs', valid: duplicateParagraphs.length === 0, value: `${duplicateParagraphs.length} found`, text: 'Repeated Paragraphs', category: 'Content', priority: 'Medium', advice: `Paragraphs that repeat another section add length without value. Rewrite the repeated ones from the Live Preview tab: ${duplicateParagraphs.slice(0, 3).map(d => `"${d.paragraph.substring(0, 60)}..."`).join(', ') || 'none'}.` },
+        { id: 'structuredData', valid: contentAnalysis.tableCount > 0 || contentAnalysis.listCount > 0, value: `${contentAnalysis.tableCount} tables, ${contentAnalysis.listCount} lists`, text: 'Use of Structured Data', category: 'Content', priority: 'Low', advice: 'Using tables and lists helps break up text and can lead to featured snippets.' },
+        
+        // Readability
+        { id: 'readingGrade', valid: readability.level !== 'hard', value: readability.averageGrade, text: `Reading Grade (target ${readability.targetGrade})`, category: 'Readability', priority: 'Medium', advice: `The article averages grade ${readability.averageGrade}${readability.passiveChecked ? ' across four formulas' : ` by the ${readability.readingEaseFormula} reading ease`}.${hardSections.length > 0 ? ` Hardest sections: ${hardSections.slice(0, 3).map(section => `"${section.heading}" (grade ${section.grade})`).join(', ')}.` : ''} Shorter sentences and plainer words lower the grade.` },
+        { id: 'longParagraphs', valid: readability.longParagraphs === 0, value: `${readability.longParagraphs} found`, text: 'Long Paragraphs', category: 'Readability', priority: 'Low', advice: 'Paragraphs over 100 words or 4 sentences are hard to scan on mobile. Turn on the readability heatmap in the Live Preview tab to find them.' },
+        ...(readability.passiveChecked ? [{ id: 'passiveVoice', valid: readability.passiveRatio <= MAX_PASSIVE_RATIO, value: `${Math.round(readability.passiveRatio * 100)}%`, text: `Passive Voice (max ${MAX_PASSIVE_RATIO * 100}%)`, category: 'Readability' as const, priority: 'Low' as const, advice: `${readability.passiveSentences} of ${readability.sentenceCount} sentences are passive. Active sentences are shorter and clearer.` }] : []),
+
+        // Accessibility
+        { id: 'altText', valid: tempDiv.querySelectorAll('img:not([alt]), img[alt=""]').length === 0, value: `${tempDiv.querySelectorAll('img:not([alt]), img[alt=""]').length} missing`, text: 'Image Alt Text', category: 'Accessibility', priority: 'Medium', advice: 'All images need descriptive alt text for screen readers and SEO.' },
+
+        // Style
+        ...(hasStyleGuide ? [{ id: 'styleGuide', valid: styleViolations.length === 0, value: `${styleViolations.length} rule(s) broken`, text: 'Project Style Guide', category: 'Style' as const, priority: 'Medium' as const, advice: styleViolations.length > 0 ? `See the Style Guide card: ${styleViolations.slice(0, 3).map(violation => violation.message).join(' ')}` : 'The article follows the project style guide.' }] : []),
+    ];
+    
+    const validChecks = checks.filter(c => c.valid).length;
+    const seoScore = checks.length > 0 ? Math.round((validChecks / checks.length) * 100) : 100;
+    const overallScore = Math.round(seoScore * 0.7 + contentAnalysis.readabilityScore * 0.3);
+    return { contentAnalysis, checks, styleViolations, readability, scores: { seoScore, overallScore } };
+};
+
 interface RankGuardianProps {
     item: ContentItem;
     editedSeo: { title: string; metaDescription: string; slug: string };
@@ -1695,62 +2385,20 @@ interface RankGuardianProps {
     isRegenerating: { title: boolean; meta: boolean };
     isUpdate: boolean;
     geoTargeting: ExpandedGeoTargeting;
+    requirements: ContentRequirements;
+    styleGuide: StyleGuide;
 }
 
-const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange, onUrlChange, onRegenerate, isRegenerating, isUpdate, geoTargeting }: RankGuardianProps) => {
+const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange, onUrlChange, onRegenerate, isRegenerating, isUpdate, geoTargeting, requirements, styleGuide }: RankGuardianProps) => {
     const { title, metaDescription, slug } = editedSeo;
     const { primaryKeyword, semanticKeywords } = item.generatedContent!;
+    const language = item.generatedContent!.language || DEFAULT_LANGUAGE;
 
-    const analysis = useMemo(() => {
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = editedContent || '';
-        const textContent = tempDiv.textContent || '';
-        const wordCount = (textContent.match(/\b\w+\b/g) || []).length;
-        const keywordLower = primaryKeyword.toLowerCase();
-        
-        const contentAnalysis = {
-            wordCount,
-            readabilityScore: calculateFleschReadability(textContent),
-            keywordDensity: (textContent.toLowerCase().match(new RegExp(escapeRegExp(keywordLower), 'g')) || []).length,
-            semanticKeywordCount: semanticKeywords.reduce((acc, kw) => acc + (textContent.toLowerCase().match(new RegExp(escapeRegExp(kw.toLowerCase()), 'g')) || []).length, 0),
-            linkCount: tempDiv.getElementsByTagName('a').length,
-            tableCount: tempDiv.getElementsByTagName('table').length,
-            listCount: tempDiv.querySelectorAll('ul, ol').length,
-        };
-
-        const checks: SeoCheck[] = [
-            // Meta
-            { id: 'titleLength', valid: title.length > 30 && title.length <= 60, value: title.length, text: 'Title Length (30-60)', category: 'Meta', priority: 'High', advice: 'Titles between 30 and 60 characters have the best click-through rates on Google.' },
-            { id: 'titleKeyword', valid: title.toLowerCase().includes(keywordLower), value: title.toLowerCase().includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in Title', category: 'Meta', priority: 'High', advice: 'Including your primary keyword in the SEO title is crucial for relevance.' },
-            { id: 'metaLength', valid: metaDescription.length >= 120 && metaDescription.length <= 155, value: metaDescription.length, text: 'Meta Description (120-155)', category: 'Meta', priority: 'Medium', advice: 'Write a meta description between 120 and 155 characters to avoid truncation and maximize CTR.' },
-            { id: 'metaKeyword', valid: metaDescription.toLowerCase().includes(keywordLower), value: metaDescription.toLowerCase().includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in Meta', category: 'Meta', priority: 'High', advice: 'Your meta description should contain the primary keyword to improve click-through rate.' },
-            
-            // Content
-            { id: 'wordCount', valid: wordCount >= 1500, value: wordCount, text: 'Word Count (1500+)', category: 'Content', priority: 'Medium', advice: 'Long-form content tends to rank better for competitive keywords. Aim for comprehensive coverage.' },
-            { id: 'keywordDensity', valid: contentAnalysis.keywordDensity > 0, value: `${contentAnalysis.keywordDensity} time(s)`, text: 'Keyword Usage', category: 'Content', priority: 'High', advice: 'Using your primary keyword ensures the topic is clear to search engines.' },
-            { id: 'keywordInFirstP', valid: (tempDiv.querySelector('p')?.textContent?.toLowerCase() || '').includes(keywordLower), value: (tempDiv.querySelector('p')?.textContent?.toLowerCase() || '').includes(keywordLower) ? 'Yes' : 'No', text: 'Keyword in First Paragraph', category: 'Content', priority: 'High', advice: 'Placing your keyword in the first 100 words signals the topic to search engines early.' },
-            { id: 'h1s', valid: tempDiv.getElementsByTagName('h1').length === 0, value: tempDiv.getElementsByTagName('h1').length, text: 'H1 Tags in Content', category: 'Content', priority: 'High', advice: 'Your content body should not contain any H1 tags. The article title serves as the only H1.' },
-            { id: 'links', valid: contentAnalysis.linkCount >= MIN_INTERNAL_LINKS, value: contentAnalysis.linkCount, text: `Internal Links (${MIN_INTERNAL_LINKS}+)`, category: 'Content', priority: 'Medium', advice: 'A strong internal linking structure helps Google understand your site architecture and topic clusters.' },
-            { id: 'structuredData', valid: contentAnalysis.tableCount > 0 || contentAnalysis.listCount > 0, value: `${contentAnalysis.tableCount} tables, ${contentAnalysis.listCount} lists`, text: 'Use of Structured Data', category: 'Content', priority: 'Low', advice: 'Using tables and lists helps break up text and can lead to featured snippets.' },
-            
-            // Accessibility
-            { id: 'altText', valid: tempDiv.querySelectorAll('img:not([alt]), img[alt=""]').length === 0, value: `${tempDiv.querySelectorAll('img:not([alt]), img[alt=""]').length} missing`, text: 'Image Alt Text', category: 'Accessibility', priority: 'Medium', advice: 'All images need descriptive alt text for screen readers and SEO.' },
-        ];
-        
-        return { contentAnalysis, checks };
-
-    }, [title, metaDescription, primaryKeyword, editedContent, semanticKeywords]);
-    
-    const { contentAnalysis, checks } = analysis;
+    const { contentAnalysis, checks, styleViolations, readability, scores } = useMemo(
+        () => analyzeRankGuardian(editedContent, { title, metaDescription }, primaryKeyword, semanticKeywords, requirements, styleGuide, language),
+        [title, metaDescription, primaryKeyword, editedContent, semanticKeywords, requirements, styleGuide, language]
+    );
     const readabilityVerdict = getReadabilityVerdict(contentAnalysis.readabilityScore);
-
-    const scores = useMemo(() => {
-        const totalChecks = checks.length;
-        const validChecks = checks.filter(c => c.valid).length;
-        const seoScore = totalChecks > 0 ? Math.round((validChecks / totalChecks) * 100) : 100;
-        const overallScore = Math.round(seoScore * 0.7 + contentAnalysis.readabilityScore * 0.3);
-        return { seoScore, overallScore };
-    }, [checks, contentAnalysis.readabilityScore]);
     
     const actionItems = checks.filter(c => !c.valid).sort((a, b) => {
         const priorityOrder = { 'High': 1, 'Medium': 2, 'Low': 3 };
@@ -1888,6 +2536,82 @@ const RankGuardian = memo(({ item, editedSeo, editedContent, onSeoChange, onUrlC
                     </ul>
                 </div>
 
+                <div className="guardian-card">
+                    <h4>Readability</h4>
+                    <div className="readability-metrics">
+                        {(readability.passiveChecked ? [
+                            { label: 'Flesch Reading Ease', value: readability.fleschReadingEase },
+                            { label: 'Flesch-Kincaid Grade', value: readability.fleschKincaidGrade },
+                            { label: 'Gunning Fog', value: readability.gunningFog },
+                            { label: 'SMOG', value: readability.smog },
+                            { label: 'Coleman-Liau', value: readability.colemanLiau },
+                            { label: 'Passive Voice', value: `${Math.round(readability.passiveRatio * 100)}%` },
+                        ] : [
+                            { label: `Reading Ease (${readability.readingEaseFormula})`, value: readability.fleschReadingEase },
+                            { label: 'Estimated Grade', value: readability.averageGrade },
+                        ]).map(metric => (
+                            <div key={metric.label} className="readability-metric">
+                                <span className="readability-metric-value">{metric.value}</span>
+                                <span className="readability-metric-label">{metric.label}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="help-text">Grade levels are US school grades; the target is grade {readability.targetGrade}{styleGuide.readingLevel ? ' (project style guide)' : ''}. Average sentence: {readability.averageSentenceWords} words.{!readability.passiveChecked && ` The English grade formulas and passive voice check don't apply to ${getLanguage(language).name}; grades are read off the ${readability.readingEaseFormula} reading ease.`}</p>
+                    <h5>Sentence Lengths</h5>
+                    <div className="sentence-length-chart">
+                        {readability.sentenceLengths.map(bucket => (
+                            <div key={bucket.label} className="sentence-length-row">
+                                <span>{bucket.label}</span>
+                                <div className="progress-bar-container">
+                                    <div className="progress-bar-fill good" style={{ width: `${readability.sentenceCount > 0 ? (bucket.count / readability.sentenceCount) * 100 : 0}%` }}></div>
+                                </div>
+                                <span>{bucket.count}</span>
+                            </div>
+                        ))}
+                    </div>
+                    {readability.sections.length > 0 && (
+                        <>
+                            <h5>Sections</h5>
+                            <table className="run-log-table readability-sections">
+                                <thead>
+                                    <tr>
+                                        <th>Section</th>
+                                        <th>Grade</th>
+                                        <th>Flesch</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {readability.sections.map((section, i) => (
+                                        <tr key={i}>
+                                            <td>{section.heading}</td>
+                                            <td><span className={`readability-level ${section.level}`}>{section.grade}</span></td>
+                                            <td>{section.fleschReadingEase}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </div>
+
+                {!isStyleGuideEmpty(styleGuide) && (
+                    <div className="guardian-card">
+                        <h4>Style Guide</h4>
+                        {styleViolations.length === 0 ? (
+                            <div className="all-good">The article follows the project style guide.</div>
+                        ) : (
+                            <ul className="action-item-list">
+                                {styleViolations.map((violation: StyleViolation) => (
+                                    <li key={violation.message} className="priority-Medium">
+                                        <h5>{violation.message}{violation.count > 1 ? ` (${violation.count}×)` : ''}</h5>
+                                        {violation.examples.map((example, i) => <p key={i}>{example}</p>)}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
             </div>
         </div>
     );
@@ -1957,15 +2681,27 @@ const highlightHtml = (text: string): string => {
 interface ReviewModalProps {
     item: ContentItem;
     onClose: () => void;
-    onSaveChanges: (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string) => void;
+    onSaveChanges: (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string, claims: Claim[]) => void;
     wpConfig: { url: string, username: string };
     wpPassword: string;
     onPublishSuccess: (originalUrl: string) => void;
     publishItem: (itemToPublish: ContentItem, currentWpPassword: string, status: 'publish' | 'draft') => Promise<{ success: boolean; message: React.ReactNode; link?: string }>;
-    callAI: (promptKey: keyof typeof PROMPT_TEMPLATES, promptArgs: any[], responseFormat?: 'json' | 'html', useGrounding?: boolean) => Promise<string>;
+    callAI: (promptKey: keyof typeof PROMPT_TEMPLATES, promptArgs: any[], responseFormat?: 'json' | 'html', useGrounding?: boolean, options?: CallAIOptions) => Promise<string>;
     geoTargeting: ExpandedGeoTargeting;
+    existingPages: SitemapPage[];
+    requirements: ContentRequirements;
+    styleGuide: StyleGuide;
+    similarityIndex: SimilarityIndex;
+    strictClaimVerification: boolean;
+    /** The item and its translations, for the hreflang tags. */
+    hreflangVariants: HreflangVariant[];
 }
 
+/** Puts each block-level closing tag on its own line, so a line diff of two HTML snippets is readable. */
+const formatHtmlForDiff = (html: string): string => {
+    return html.replace(/(<\/(?:p|h[1-6]|li|ul|ol|table|tr|thead|tbody|blockquote)>)\s*/gi, '$1\n').trim();
+};
+
 const formatSerpUrl = (fullUrl: string): React.ReactNode => {
     try {
         const url = new URL(fullUrl);
@@ -1991,8 +2727,181 @@ const formatSerpUrl = (fullUrl: string): React.ReactNode => {
     }
 };
 
-const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPublishSuccess, publishItem, callAI, geoTargeting }: ReviewModalProps) => {
+/**
+ * The Run Log tab: every event from the item's latest generation run, filterable by level
+ * and exportable as JSON for bug reports.
+ */
+const RunLogPanel = ({ item }: { item: ContentItem }) => {
+    const [levelFilter, setLevelFilter] = useState<RunLogLevel | 'all'>('all');
+    const entries = item.runLog || [];
+    const visibleEntries = levelFilter === 'all' ? entries : entries.filter(entry => entry.level === levelFilter);
+    const countOf = (level: RunLogLevel) => entries.filter(entry => entry.level === level).length;
+    const retries = entries.filter(entry => entry.details?.retry !== undefined).length;
+    const repairs = entries.filter(entry => entry.details?.repair !== undefined).length;
+
+    const handleExport = () => {
+        const report = {
+            itemId: item.id,
+            title: item.title,
+            exportedAt: new Date().toISOString(),
+            usage: item.usage,
+            providersUsed: item.providersUsed,
+            entries,
+        };
+        const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${item.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-run-log.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    if (entries.length === 0) {
+        return <p className="help-text">No run log for this item. Logs are recorded while an article is generated in this session.</p>;
+    }
+
+    const startedAt = new Date(entries[0].timestamp).getTime();
+
+    return (
+        <div className="run-log">
+            <div className="run-log-toolbar">
+                <div className="run-log-summary">
+                    <span>{entries.length} events</span>
+                    <span className="run-log-level warn">{countOf('warn')} warnings</span>
+                    <span className="run-log-level error">{countOf('error')} errors</span>
+                    <span>{retries} retries</span>
+                    <span>{repairs} repairs</span>
+                </div>
+                <div className="action-buttons">
+                    <select value={levelFilter} onChange={e => setLevelFilter(e.target.value as RunLogLevel | 'all')} aria-label="Filter by level">
+                        <option value="all">All levels</option>
+                        <option value="info">Info</option>
+                        <option value="warn">Warnings</option>
+                        <option value="error">Errors</option>
+                    </select>
+                    <button className="btn btn-secondary btn-small" onClick={handleExport}>Export JSON</button>
+                </div>
+            </div>
+            <table className="run-log-table">
+                <thead>
+                    <tr>
+                        <th>Time</th>
+                        <th>Stage</th>
+                        <th>Level</th>
+                        <th>Message</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {visibleEntries.map((entry, i) => (
+                        <tr key={i} className={`run-log-row ${entry.level}`}>
+                            <td title={entry.timestamp}>+{((new Date(entry.timestamp).getTime() - startedAt) / 1000).toFixed(1)}s</td>
+                            <td>{entry.stage}</td>
+                            <td><span className={`run-log-level ${entry.level}`}>{entry.level}</span></td>
+                            <td>
+                                {entry.message}
+                                {entry.details && <pre className="run-log-details">{JSON.stringify(entry.details)}</pre>}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+/** The run log on its own, for items that failed or stopped and so have no article to review. */
+const RunLogModal = ({ item, onClose }: { item: ContentItem; onClose: () => void }) => (
+    <div className="modal-overlay" onClick={onClose}>
+        <div className="modal-content run-log-modal" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+                <h2 className="gradient-headline" style={{ margin: 0, padding: 0 }}>Run Log</h2>
+                <button className="modal-close-btn" onClick={onClose} aria-label="Close modal">&times;</button>
+            </div>
+            <div className="modal-body" style={{ padding: '0 2.5rem 2rem', overflowY: 'auto' }}>
+                <h3 className="analysis-title">{item.title}</h3>
+                {item.statusText && <p className="help-text">{item.statusText}</p>}
+                <RunLogPanel item={item} />
+            </div>
+        </div>
+    </div>
+);
+
+interface ClaimsPanelProps {
+    claims: Claim[];
+    strict: boolean;
+    onUpdate: (claimId: string, changes: Partial<Pick<Claim, 'status' | 'sourceUrl'>>) => void;
+    onRemove: (claim: Claim) => void;
+}
+
+const ClaimsPanel = ({ claims, strict, onUpdate, onRemove }: ClaimsPanelProps) => {
+    const countOf = (status: Claim['status']) => claims.filter(claim => claim.status === status).length;
+    const unverified = countOf('unverified');
+
+    if (claims.length === 0) {
+        return <p className="all-good">No statistics, dates or named studies found in this article.</p>;
+    }
+
+    return (
+        <div className="claims-panel">
+            <div className="run-log-toolbar">
+                <div className="run-log-summary">
+                    <span>{claims.length} claims</span>
+                    <span className="claim-status verified">{countOf('verified')} verified</span>
+                    <span className="claim-status removed">{countOf('removed')} removed</span>
+                    <span className="claim-status unverified">{unverified} unverified</span>
+                </div>
+            </div>
+            {strict && unverified > 0 && (
+                <p className="claims-blocking">Strict claim verification is on. Publishing is blocked until every claim is verified or removed.</p>
+            )}
+            <table className="run-log-table claims-table">
+                <thead>
+                    <tr>
+                        <th>Claim</th>
+                        <th>Source</th>
+                        <th>Status</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {claims.map(claim => (
+                        <tr key={claim.id} className={`claim-row ${claim.status}`}>
+                            <td>
+                                <div className="claim-facts">
+                                    {claim.facts.map((fact, i) => <span key={i} className={`claim-fact ${fact.kind}`} title={CLAIM_KIND_LABELS[fact.kind]}>{fact.text}</span>)}
+                                </div>
+                                <span className="claim-sentence">{claim.sentence}</span>
+                            </td>
+                            <td>
+                                <input type="url" value={claim.sourceUrl} onChange={e => onUpdate(claim.id, { sourceUrl: e.target.value })} placeholder="https://..." aria-label="Source URL" disabled={claim.status === 'removed'} />
+                                {claim.sourceUrl && <a href={claim.sourceUrl} target="_blank" rel="noopener noreferrer" className="claim-source-link">Open</a>}
+                            </td>
+                            <td>
+                                <span className={`claim-status ${claim.status}`}>{claim.status}</span>
+                                <div className="action-buttons">
+                                    {claim.status === 'unverified' && (
+                                        <>
+                                            <button className="btn btn-small" onClick={() => onUpdate(claim.id, { status: 'verified' })}>Verify</button>
+                                            <button className="btn btn-small btn-secondary" onClick={() => onRemove(claim)} title="Delete this sentence from the article">Remove</button>
+                                        </>
+                                    )}
+                                    {claim.status === 'verified' && (
+                                        <button className="btn btn-small btn-secondary" onClick={() => onUpdate(claim.id, { status: 'unverified' })}>Undo</button>
+                                    )}
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPublishSuccess, publishItem, callAI, geoTargeting, existingPages, requirements, styleGuide, similarityIndex, strictClaimVerification, hreflangVariants }: ReviewModalProps) => {
     if (!item || !item.generatedContent) return null;
+    const contentLanguage = item.generatedContent.language || DEFAULT_LANGUAGE;
 
     const [activeTab, setActiveTab] = useState('Live Preview');
     const [editedSeo, setEditedSeo] = useState({ title: '', metaDescription: '', slug: '' });
@@ -2003,6 +2912,12 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
     const [publishAction, setPublishAction] = useState<'publish' | 'draft'>('publish');
     const [showConfetti, setShowConfetti] = useState(false);
     const [isRegenerating, setIsRegenerating] = useState({ title: false, meta: false });
+    const [selectedSection, setSelectedSection] = useState(0);
+    const [sectionInstruction, setSectionInstruction] = useState('');
+    const [sectionProposal, setSectionProposal] = useState<{ index: number; before: string; after: string } | null>(null);
+    const [isRewritingSection, setIsRewritingSection] = useState(false);
+    const [savedClaims, setSavedClaims] = useState<Claim[]>([]);
+    const [showReadabilityHeatmap, setShowReadabilityHeatmap] = useState(false);
 
     // SOTA Editor State
     const editorRef = useRef<HTMLTextAreaElement>(null);
@@ -2026,6 +2941,9 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
             setWpPublishStatus('idle'); // Reset publish status
             setWpPublishMessage('');
             setShowConfetti(false);
+            setSelectedSection(0);
+            setSectionProposal(null);
+            setSavedClaims(item.generatedContent.claims || []);
         }
     }, [item, wpConfig.url]);
 
@@ -2046,10 +2964,103 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
     }, []);
 
 
+    const similarity = useMemo(
+        () => checkSimilarity(editedContent, similarityIndex, [item.id, item.originalUrl]),
+        [editedContent, similarityIndex, item.id, item.originalUrl]
+    );
+
+    const readability = useMemo(
+        () => showReadabilityHeatmap ? analyzeReadability(editedContent, getTargetGrade(styleGuide), [], contentLanguage) : null,
+        [showReadabilityHeatmap, editedContent, styleGuide, contentLanguage]
+    );
+
     const previewContent = useMemo(() => {
         // The editedContent now contains the base64 images directly, so no replacement is needed for preview.
-        return editedContent;
-    }, [editedContent]);
+        // Overlapping paragraphs and readability levels are only marked here; they never reach the saved content.
+        const withHeatmap = readability ? highlightReadability(editedContent, readability.paragraphs) : editedContent;
+        return highlightOverlaps(withHeatmap, similarity.passages);
+    }, [editedContent, similarity.passages, readability]);
+
+    const articleSections = useMemo(() => findArticleSections(editedContent), [editedContent]);
+
+    // Claims follow the edited text: new sentences appear as unverified, edited-away ones drop out.
+    const claims = useMemo(() => mergeClaims(savedClaims, extractClaims(editedContent)), [savedClaims, editedContent]);
+    const unverifiedClaims = getUnverifiedClaims(claims);
+    // Updates to an existing page go live right away, so only new drafts are allowed through.
+    const isPublishBlocked = strictClaimVerification && unverifiedClaims.length > 0 && (publishAction === 'publish' || !!item.originalUrl);
+
+    const handleUpdateClaim = (claimId: string, changes: Partial<Pick<Claim, 'status' | 'sourceUrl'>>) => {
+        setSavedClaims(claims.map(claim => claim.id === claimId ? { ...claim, ...changes } : claim));
+    };
+
+    const handleRemoveClaim = (claim: Claim) => {
+        const updatedContent = removeClaimFromHtml(editedContent, claim);
+        if (updatedContent === null) {
+            alert('This sentence contains formatting or links, so it could not be removed automatically. Please delete it in the Editor tab.');
+            return;
+        }
+        setSavedClaims(claims.map(other => other.id === claim.id ? { ...other, status: 'removed' } : other));
+        setEditedContent(updatedContent);
+    };
+
+    const sectionDiff = useMemo(() => {
+        return sectionProposal ? diffLines(formatHtmlForDiff(sectionProposal.before), formatHtmlForDiff(sectionProposal.after)) : [];
+    }, [sectionProposal]);
+
+    const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const heading = (e.target as HTMLElement).closest('h2');
+        if (!heading) return;
+        const index = articleSections.findIndex(section => section.heading === heading.textContent?.trim());
+        if (index !== -1) setSelectedSection(index);
+    };
+
+    /**
+     * Regenerates the selected section from its heading, or rewrites it with an instruction.
+     * The result is shown as a diff and only replaces the section once accepted.
+     */
+    const handleRewriteSection = async (instruction: string | null) => {
+        const section = articleSections[selectedSection];
+        if (!section || !item.generatedContent) return;
+        setIsRewritingSection(true);
+        try {
+            const { primaryKeyword, title } = item.generatedContent;
+            const { textHtml, figures } = splitSectionFigures(section.bodyHtml);
+            const responseHtml = instruction
+                ? await callAI('rewrite_article_section', [primaryKeyword, title, section.heading, textHtml, instruction, existingPages], 'html', false, { itemId: item.id, language: contentLanguage })
+                : await callAI('write_article_section', [primaryKeyword, title, section.heading, existingPages, item.articleFormat || 'standard', null, articleSections.map(other => other.heading), [], requirements], 'html', false, { itemId: item.id, language: contentLanguage });
+
+            let bodyHtml = sanitizeBrokenPlaceholders(sanitizeHtmlResponse(responseHtml));
+            bodyHtml = processInternalLinks(validateAndRepairInternalLinks(bodyHtml, existingPages), existingPages);
+            // Without a sitemap there is nothing to link to, so leftover placeholders become plain text.
+            bodyHtml = bodyHtml.replace(/\[INTERNAL_LINK\s+slug="[^"]+"\s+text="([^"]+)"\]/g, '$1');
+            // Keep the section's images, after the first paragraph where the pipeline usually places them.
+            if (figures.length > 0) {
+                const firstParagraphEnd = bodyHtml.search(/<\/p>/i);
+                bodyHtml = firstParagraphEnd === -1
+                    ? `${bodyHtml}\n${figures.join('\n')}`
+                    : `${bodyHtml.substring(0, firstParagraphEnd + 4)}\n${figures.join('\n')}${bodyHtml.substring(firstParagraphEnd + 4)}`;
+            }
+
+            setSectionProposal({ index: selectedSection, before: section.headingHtml + section.bodyHtml, after: `${section.headingHtml}\n${bodyHtml}\n\n` });
+        } catch (error: any) {
+            console.error(`Failed to rewrite section "${section.heading}":`, error);
+            alert(`An error occurred while rewriting the section: ${error.message}`);
+        } finally {
+            setIsRewritingSection(false);
+        }
+    };
+
+    const handleAcceptSection = () => {
+        if (!sectionProposal) return;
+        const section = articleSections[sectionProposal.index];
+        if (!section || section.headingHtml + section.bodyHtml !== sectionProposal.before) {
+            alert('This section was edited after the new version was generated. Please generate it again.');
+            setSectionProposal(null);
+            return;
+        }
+        setEditedContent(editedContent.substring(0, section.start) + sectionProposal.after + editedContent.substring(section.end));
+        setSectionProposal(null);
+    };
 
     const handleSeoChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
@@ -2106,7 +3117,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
 
             const responseText = await callAI('seo_metadata_generator', [
                 primaryKeyword, summary, strategy.targetAudience, competitorTitles, location
-            ], 'json');
+            ], 'json', false, { itemId: item.id, language: contentLanguage });
             const { seoTitle, metaDescription } = JSON.parse(extractJson(responseText));
 
             if (field === 'title' && seoTitle) {
@@ -2140,6 +3151,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                 ...item.generatedContent!,
                 ...editedSeo,
                 content: editedContent,
+                claims,
             }
         };
 
@@ -2157,7 +3169,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
         setWpPublishMessage(result.message);
     };
 
-    const TABS = ['Live Preview', 'Editor', 'Assets', 'Rank Guardian', 'Raw JSON'];
+    const TABS = ['Live Preview', 'Editor', 'Assets', 'Rank Guardian', 'Claims', 'Run Log', 'Raw JSON'];
     const { primaryKeyword } = item.generatedContent;
     const isUpdate = !!item.originalUrl;
 
@@ -2185,7 +3197,66 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
 
                 <div className="tab-content">
                     {activeTab === 'Live Preview' && (
-                        <div id="tab-panel-Live-Preview" role="tabpanel" className="live-preview" dangerouslySetInnerHTML={{ __html: previewContent }}></div>
+                        <div id="tab-panel-Live-Preview" role="tabpanel">
+                            {(similarity.passages.length > 0 || similarity.score >= SIMILARITY_WARNING_SCORE) && (
+                                <div className={`similarity-summary ${getSimilarityLevel(similarity.score)}`}>
+                                    <strong>{similarity.score}% overlap</strong> with "{similarity.matches[0].title}".
+                                    {similarity.passages.length > 0 && ` ${similarity.passages.length} overlapping paragraph(s) are highlighted below.`}
+                                    <ul>
+                                        {similarity.matches.map(match => (
+                                            <li key={match.sourceId}>
+                                                {Math.round(match.containment * 100)}% · {match.kind === 'page' ? 'Site page' : 'Batch article'}: {match.url ? <a href={match.url} target="_blank" rel="noopener noreferrer">{match.title}</a> : match.title}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            {articleSections.length > 0 && (
+                                <div className="section-tools">
+                                    <div className="section-tools-row">
+                                        <select value={selectedSection} onChange={e => { setSelectedSection(Number(e.target.value)); setSectionProposal(null); }} aria-label="Section to regenerate" disabled={isRewritingSection}>
+                                            {articleSections.map((section, i) => <option key={i} value={i}>{section.heading}</option>)}
+                                        </select>
+                                        <button className="btn btn-secondary btn-small" onClick={() => handleRewriteSection(null)} disabled={isRewritingSection}>
+                                            {isRewritingSection ? 'Working...' : 'Regenerate Section'}
+                                        </button>
+                                    </div>
+                                    <div className="section-tools-row">
+                                        <input type="text" value={sectionInstruction} onChange={e => setSectionInstruction(e.target.value)} placeholder='Rewrite instruction, e.g. "add a comparison table" or "shorten by half"' aria-label="Rewrite instruction" disabled={isRewritingSection} />
+                                        <button className="btn btn-secondary btn-small" onClick={() => handleRewriteSection(sectionInstruction.trim())} disabled={isRewritingSection || !sectionInstruction.trim()}>Rewrite</button>
+                                    </div>
+                                    <p className="help-text">Click a heading in the preview to select its section. The new version is shown as a diff before it replaces the old one.</p>
+                                    {sectionProposal && (
+                                        <div className="section-proposal">
+                                            <pre className="prompt-diff">
+                                                {sectionDiff.map((line, i) => (
+                                                    <span key={i} className={`prompt-diff-${line.type}`}>{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}</span>
+                                                ))}
+                                            </pre>
+                                            <div className="action-buttons">
+                                                <button className="btn btn-small" onClick={handleAcceptSection}>Accept New Version</button>
+                                                <button className="btn btn-secondary btn-small" onClick={() => setSectionProposal(null)}>Discard</button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                            <div className="readability-heatmap-toolbar">
+                                <div className="checkbox-group">
+                                    <input id="readabilityHeatmap" type="checkbox" checked={showReadabilityHeatmap} onChange={e => setShowReadabilityHeatmap(e.target.checked)} />
+                                    <label htmlFor="readabilityHeatmap">Readability Heatmap</label>
+                                </div>
+                                {readability && (
+                                    <div className="readability-legend">
+                                        <span className="readability-level easy">Grade {readability.targetGrade} or below</span>
+                                        <span className="readability-level ok">Up to 2 grades above</span>
+                                        <span className="readability-level hard">Harder</span>
+                                        <span className="readability-legend-long">Long paragraph ({readability.longParagraphs})</span>
+                                    </div>
+                                )}
+                            </div>
+                            <div className={`live-preview ${readability ? 'readability-heatmap' : ''}`} onClick={handlePreviewClick} dangerouslySetInnerHTML={{ __html: previewContent }}></div>
+                        </div>
                     )}
                     
                     {activeTab === 'Editor' && (
@@ -2231,6 +3302,13 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                                     ) : null
                                 ))}
                             </div>
+                            {hreflangVariants.length > 1 && (
+                                <>
+                                    <h3>Language Versions</h3>
+                                    <p className="help-text" style={{fontSize: '1rem', maxWidth: '800px', margin: '0 0 1rem 0'}}>Every language version of this article should carry these hreflang tags in its &lt;head&gt;. Multilingual plugins such as WPML or Polylang add them for you once the versions are linked there.</p>
+                                    <pre className="hreflang-tags">{buildHreflangTags(hreflangVariants)}</pre>
+                                </>
+                            )}
                         </div>
                     )}
 
@@ -2246,10 +3324,24 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                                 isRegenerating={isRegenerating}
                                 isUpdate={isUpdate}
                                 geoTargeting={geoTargeting}
+                                requirements={requirements}
+                                styleGuide={styleGuide}
                             />
                         </div>
                     )}
 
+                    {activeTab === 'Claims' && (
+                        <div id="tab-panel-Claims" role="tabpanel">
+                            <ClaimsPanel claims={claims} strict={strictClaimVerification} onUpdate={handleUpdateClaim} onRemove={handleRemoveClaim} />
+                        </div>
+                    )}
+
+                    {activeTab === 'Run Log' && (
+                        <div id="tab-panel-Run-Log" role="tabpanel">
+                            <RunLogPanel item={item} />
+                        </div>
+                    )}
+
                     {activeTab === 'Raw JSON' && (
                         <pre id="tab-panel-Raw-JSON" role="tabpanel" className="json-viewer">
                             {JSON.stringify(item.generatedContent, null, 2)}
@@ -2263,7 +3355,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                     </div>
 
                     <div className="modal-actions">
-                        <button className="btn btn-secondary" onClick={() => onSaveChanges(item.id, editedSeo, editedContent)}>Save Changes</button>
+                        <button className="btn btn-secondary" onClick={() => onSaveChanges(item.id, editedSeo, editedContent, claims)}>Save Changes</button>
                         <button className="btn btn-secondary" onClick={handleCopyHtml}>{copyStatus}</button>
                         <button className="btn btn-secondary" onClick={handleValidateSchema}>Validate Schema</button>
                         <div className="publish-action-group">
@@ -2274,7 +3366,8 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                             <button 
                                 className="btn"
                                 onClick={handlePublishToWordPress}
-                                disabled={wpPublishStatus === 'publishing'}
+                                disabled={wpPublishStatus === 'publishing' || isPublishBlocked}
+                                title={isPublishBlocked ? `${unverifiedClaims.length} unverified claim(s). Verify or remove them in the Claims tab.` : undefined}
                             >
                                 {wpPublishStatus === 'publishing' ? publishingButtonText : publishButtonText}
                             </button>
@@ -2437,77 +3530,767 @@ const AnalysisModal = ({ page, onClose, onPlanRewrite }: AnalysisModalProps) =>
     );
 };
 
-const AppFooter = () => (
-    <footer className="app-footer">
-        <div className="footer-grid">
-            <div className="footer-column footer-logo-column">
-                <a href="https://affiliatemarketingforsuccess.com/" target="_blank" rel="noopener noreferrer">
-                    <img src="https://affiliatemarketingforsuccess.com/wp-content/uploads/2023/03/cropped-Affiliate-Marketing-for-Success-Logo-Edited.png?lm=6666FEE0" alt="AffiliateMarketingForSuccess.com Logo" className="footer-logo-img" />
-                </a>
-                <p className="footer-tagline">
-                    Empowering creators with cutting-edge tools for digital success.
-                </p>
+interface EditableListProps {
+    label: string;
+    values: string[];
+    onChange: (values: string[]) => void;
+    addLabel: string;
+}
+
+/** A list of text inputs that can be edited, reordered, added to and deleted from. */
+const EditableList = ({ label, values, onChange, addLabel }: EditableListProps) => {
+    const move = (index: number, offset: number) => {
+        const next = [...values];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        onChange(next);
+    };
+
+    return (
+        <div className="editable-list">
+            <h4>{label} <span className="editable-list-count">({values.length})</span></h4>
+            <ol>
+                {values.map((value, i) => (
+                    <li key={i}>
+                        <input type="text" value={value} onChange={e => onChange(values.map((v, j) => j === i ? e.target.value : v))} aria-label={`${label} ${i + 1}`} />
+                        <button className="btn btn-secondary btn-small" onClick={() => move(i, -1)} disabled={i === 0} aria-label="Move up">↑</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => move(i, 1)} disabled={i === values.length - 1} aria-label="Move down">↓</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => onChange(values.filter((_, j) => j !== i))} aria-label="Delete">&times;</button>
+                    </li>
+                ))}
+            </ol>
+            <button className="btn btn-secondary btn-small" onClick={() => onChange([...values, ''])}>{addLabel}</button>
+        </div>
+    );
+};
+
+interface OutlineReviewModalProps {
+    item: ContentItem;
+    outline: ArticleOutline;
+    onApprove: (outline: ArticleOutline) => void;
+    onRegenerate: () => void;
+    onClose: () => void;
+}
+
+const OutlineReviewModal = ({ item, outline, onApprove, onRegenerate, onClose }: OutlineReviewModalProps) => {
+    const [headings, setHeadings] = useState<string[]>(outline.outline || []);
+    const [keyTakeaways, setKeyTakeaways] = useState<string[]>(outline.keyTakeaways || []);
+    const [faqQuestions, setFaqQuestions] = useState<string[]>((outline.faqSection || []).map(faq => faq.question));
+    const [imageDetails, setImageDetails] = useState(outline.imageDetails || []);
+
+    const cleanHeadings = headings.map(heading => heading.trim()).filter(Boolean);
+
+    const handleApprove = () => {
+        onApprove({
+            ...outline,
+            outline: cleanHeadings,
+            keyTakeaways: keyTakeaways.map(takeaway => takeaway.trim()).filter(Boolean),
+            faqSection: faqQuestions.map(question => question.trim()).filter(Boolean).map(question => ({ question })),
+            imageDetails,
+        });
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content outline-review-modal" onClick={e => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2 className="gradient-headline" style={{ margin: 0, padding: 0 }}>Review Outline</h2>
+                    <button className="modal-close-btn" onClick={onClose} aria-label="Close modal">&times;</button>
+                </div>
+                <div className="modal-body" style={{ padding: '0 2.5rem 2rem', overflowY: 'auto' }}>
+                    <h3 className="analysis-title">{outline.title || item.title}</h3>
+                    <p className="help-text">Sections are written from these headings once you approve. Nothing below has been written yet.</p>
+                    <div className="outline-review-grid">
+                        <EditableList label="Section Headings" values={headings} onChange={setHeadings} addLabel="Add Heading" />
+                        <div>
+                            <EditableList label="Key Takeaways" values={keyTakeaways} onChange={setKeyTakeaways} addLabel="Add Takeaway" />
+                            <EditableList label="FAQ Questions" values={faqQuestions} onChange={setFaqQuestions} addLabel="Add Question" />
+                        </div>
+                    </div>
+                    {imageDetails.length > 0 && (
+                        <div className="editable-list">
+                            <h4>Image Prompts</h4>
+                            {imageDetails.map((image, i) => (
+                                <div className="form-group" key={image.placeholder || i}>
+                                    <label htmlFor={`outlineImagePrompt${i}`}>Image {i + 1}</label>
+                                    <textarea id={`outlineImagePrompt${i}`} value={image.prompt} onChange={e => setImageDetails(prev => prev.map((detail, j) => j === i ? { ...detail, prompt: e.target.value } : detail))}></textarea>
+                                    <input type="text" value={image.altText} onChange={e => setImageDetails(prev => prev.map((detail, j) => j === i ? { ...detail, altText: e.target.value } : detail))} placeholder="Alt text" aria-label={`Image ${i + 1} alt text`} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={onRegenerate}>Regenerate Outline</button>
+                    <div className="modal-actions">
+                        <button className="btn btn-secondary" onClick={onClose}>Decide Later</button>
+                        <button className="btn" onClick={handleApprove} disabled={cleanHeadings.length === 0}>Approve & Write Article</button>
+                    </div>
+                </div>
             </div>
-            <div className="footer-column">
-                <h4 className="footer-heading">Resources</h4>
-                <ul className="footer-links-list">
-                    <li><a href="https://affiliatemarketingforsuccess.com/affiliate-marketing" target="_blank" rel="noopener noreferrer">Affiliate Marketing</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/ai" target="_blank" rel="noopener noreferrer">AI Automation</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/seo" target="_blank" rel="noopener noreferrer">SEO Strategy</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/blogging" target="_blank" rel="noopener noreferrer">Blogging Guides</a></li>
-                </ul>
+        </div>
+    );
+};
+
+interface RequirementProfilesEditorProps {
+    profiles: ContentRequirements[];
+    onChange: (profiles: ContentRequirements[]) => void;
+}
+
+const RequirementProfilesEditor = ({ profiles, onChange }: RequirementProfilesEditorProps) => {
+    const [selectedId, setSelectedId] = useState(STANDARD_PROFILE_ID);
+    const profile = profiles.find(p => p.id === selectedId) || profiles[0];
+
+    const updateProfile = (changes: Partial<ContentRequirements>) => {
+        onChange(profiles.map(p => p.id === profile.id ? { ...p, ...changes } : p));
+    };
+
+    const handleNewProfile = () => {
+        const copy = { ...profile, id: `profile-${Date.now()}`, name: `${profile.name} (Copy)` };
+        onChange([...profiles, copy]);
+        setSelectedId(copy.id);
+    };
+
+    const handleDeleteProfile = () => {
+        if (!window.confirm(`Delete the "${profile.name}" profile? Items using it fall back to Standard or Pillar.`)) return;
+        onChange(profiles.filter(p => p.id !== profile.id));
+        setSelectedId(STANDARD_PROFILE_ID);
+    };
+
+    const handleResetProfile = () => {
+        const builtIn = DEFAULT_REQUIREMENT_PROFILES.find(p => p.id === profile.id);
+        if (builtIn) onChange(profiles.map(p => p.id === profile.id ? builtIn : p));
+    };
+
+    return (
+        <>
+            <div className="form-group-row">
+                <div className="form-group">
+                    <label htmlFor="requirementProfile">Profile</label>
+                    <select id="requirementProfile" value={profile.id} onChange={e => setSelectedId(e.target.value)}>
+                        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="requirementProfileName">Name</label>
+                    <input type="text" id="requirementProfileName" value={profile.name} onChange={e => updateProfile({ name: e.target.value })} />
+                </div>
             </div>
-            <div className="footer-column">
-                <h4 className="footer-heading">Company</h4>
-                <ul className="footer-links-list">
-                    <li><a href="https://affiliatemarketingforsuccess.com/about/" target="_blank" rel="noopener noreferrer">About Us</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/review" target="_blank" rel="noopener noreferrer">Reviews</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/contact/" target="_blank" rel="noopener noreferrer">Contact</a></li>
-                </ul>
+            <div className="prompt-variables-grid">
+                {REQUIREMENT_FIELDS.map(({ key, label }) => (
+                    <div className="form-group" key={key}>
+                        <label htmlFor={`requirement-${key}`}>{label}</label>
+                        <input type="number" id={`requirement-${key}`} min="0" value={profile[key]} onChange={e => updateProfile({ [key]: Math.max(0, parseInt(e.target.value, 10) || 0) })} />
+                    </div>
+                ))}
             </div>
-             <div className="footer-column">
-                <h4 className="footer-heading">Legal</h4>
-                <ul className="footer-links-list">
-                    <li><a href="https://affiliatemarketingforsuccess.com/privacy-policy/" target="_blank" rel="noopener noreferrer">Privacy Policy</a></li>
-                    <li><a href="https://affiliatemarketingforsuccess.com/terms-of-service/" target="_blank" rel="noopener noreferrer">Terms of Service</a></li>
-                </ul>
+            <div className="action-buttons">
+                <button className="btn btn-small" onClick={handleNewProfile}>Duplicate as New Profile</button>
+                {isBuiltInProfile(profile.id) ? (
+                    <button className="btn btn-small btn-secondary" onClick={handleResetProfile}>Reset to Default</button>
+                ) : (
+                    <button className="btn btn-small btn-secondary" onClick={handleDeleteProfile}>Delete Profile</button>
+                )}
+            </div>
+        </>
+    );
+};
+
+interface StyleGuideEditorProps {
+    guide: StyleGuide;
+    onChange: (guide: StyleGuide) => void;
+}
+
+const StyleGuideEditor = ({ guide, onChange }: StyleGuideEditorProps) => {
+    const update = (changes: Partial<StyleGuide>) => onChange({ ...guide, ...changes });
+
+    return (
+        <div className="setup-card full-width">
+            <h3>Style Guide</h3>
+            <p className="help-text" style={{ marginBottom: '1rem' }}>
+                Added to the outline, section, FAQ and rewrite prompts of this project. Terms, capitalization, reading level and person are also checked after generation and listed in Rank Guardian.
+            </p>
+            <div className="prompt-variables-grid">
+                <div className="form-group">
+                    <label htmlFor="stylePerson">Person</label>
+                    <select id="stylePerson" value={guide.person} onChange={e => update({ person: e.target.value as StyleGuide['person'] })}>
+                        <option value="any">No preference</option>
+                        <option value="first">First person (we, I)</option>
+                        <option value="second">Second person (you)</option>
+                        <option value="third">Third person</option>
+                    </select>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="styleTense">Tense</label>
+                    <select id="styleTense" value={guide.tense} onChange={e => update({ tense: e.target.value as StyleGuide['tense'] })}>
+                        <option value="any">No preference</option>
+                        <option value="present">Present</option>
+                        <option value="past">Past</option>
+                    </select>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="styleHeadingCase">Heading Case</label>
+                    <select id="styleHeadingCase" value={guide.headingCase} onChange={e => update({ headingCase: e.target.value as StyleGuide['headingCase'] })}>
+                        <option value="any">No preference</option>
+                        <option value="sentence">Sentence case</option>
+                        <option value="title">Title Case</option>
+                    </select>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="styleReadingLevel">Reading Level (US grade, 0 = none)</label>
+                    <input type="number" id="styleReadingLevel" min="0" max="18" value={guide.readingLevel} onChange={e => update({ readingLevel: Math.min(18, Math.max(0, parseInt(e.target.value, 10) || 0)) })} />
+                </div>
+            </div>
+            <div className="prompt-variables-grid">
+                <div className="form-group">
+                    <label htmlFor="stylePreferredTerms">Preferred Terms</label>
+                    <textarea id="stylePreferredTerms" rows={4} value={guide.preferredTerms} onChange={e => update({ preferredTerms: e.target.value })} placeholder={'email: e-mail, E-mail\nsign up: signup'} />
+                    <p className="help-text">One per line: the term to use, a colon, then the variants to replace.</p>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="styleBannedTerms">Banned Terms</label>
+                    <textarea id="styleBannedTerms" rows={4} value={guide.bannedTerms} onChange={e => update({ bannedTerms: e.target.value })} placeholder="cheap, guru, hack" />
+                    <p className="help-text">Comma- or line-separated, on top of the built-in AI phrase list.</p>
+                </div>
+                <div className="form-group">
+                    <label htmlFor="styleCapitalizedTerms">Fixed Capitalization</label>
+                    <textarea id="styleCapitalizedTerms" rows={4} value={guide.capitalizedTerms} onChange={e => update({ capitalizedTerms: e.target.value })} placeholder="WordPress, iPhone, YouTube" />
+                    <p className="help-text">Terms that must always be written exactly like this.</p>
+                </div>
+            </div>
+            <div className="form-group">
+                <label htmlFor="styleSampleParagraphs">Sample Paragraphs</label>
+                <textarea id="styleSampleParagraphs" rows={6} value={guide.sampleParagraphs} onChange={e => update({ sampleParagraphs: e.target.value })} placeholder="Paste two or three paragraphs written in your site's voice." />
             </div>
         </div>
-        <div className="footer-bottom-bar">
-             <p>This App is Created by <a href="https://affiliatemarketingforsuccess.com/about" target="_blank" rel="noopener noreferrer"><strong>Alexios Papaioannou</strong></a>, Owner of <a href="https://affiliatemarketingforsuccess.com/" target="_blank" rel="noopener noreferrer">affiliatemarketingforsuccess.com</a></p>
-        </div>
-    </footer>
-);
+    );
+};
 
+interface PromptLibraryProps {
+    project: ProjectSettings;
+    onUpdateProject: (updater: (project: ProjectSettings) => ProjectSettings) => void;
+    /** Called when the editor gains or loses unsaved changes, so leaving the view can ask first. */
+    onDirtyChange: (isDirty: boolean) => void;
+}
 
-// --- Main App Component ---
-const App = () => {
-    const [activeView, setActiveView] = useState('setup');
-    
-    // Step 1: API Keys & Config
-    const [apiKeys, setApiKeys] = useState(() => {
-        const saved = localStorage.getItem('apiKeys');
-        // FIX: Remove Gemini API key from state to enforce usage of environment variable, and handle migration from old localStorage values.
-        const initialKeys = saved ? JSON.parse(saved) : { openaiApiKey: '', anthropicApiKey: '', openrouterApiKey: '', serperApiKey: '', groqApiKey: '' };
-        if (initialKeys.geminiApiKey) {
-            delete initialKeys.geminiApiKey;
-        }
-        return initialKeys;
-    });
-    const [apiKeyStatus, setApiKeyStatus] = useState({ gemini: 'idle', openai: 'idle', anthropic: 'idle', openrouter: 'idle', serper: 'idle', groq: 'idle' } as Record<string, 'idle' | 'validating' | 'valid' | 'invalid'>);
-    const [editingApiKey, setEditingApiKey] = useState<string | null>(null);
-    const [apiClients, setApiClients] = useState<{ gemini: GoogleGenAI | null, openai: OpenAI | null, anthropic: Anthropic | null, openrouter: OpenAI | null, groq: OpenAI | null }>({ gemini: null, openai: null, anthropic: null, openrouter: null, groq: null });
-    const [selectedModel, setSelectedModel] = useState(() => localStorage.getItem('selectedModel') || 'gemini');
-    const [selectedGroqModel, setSelectedGroqModel] = useState(() => localStorage.getItem('selectedGroqModel') || AI_MODELS.GROQ_MODELS[0]);
-    const [openrouterModels, setOpenrouterModels] = useState<string[]>(AI_MODELS.OPENROUTER_DEFAULT);
-    const [geoTargeting, setGeoTargeting] = useState<ExpandedGeoTargeting>(() => {
-        const saved = localStorage.getItem('geoTargeting');
-        return saved ? JSON.parse(saved) : { enabled: false, location: '', region: '', country: '', postalCode: '' };
-    });
-    const [useGoogleSearch, setUseGoogleSearch] = useState(false);
+const PromptLibrary = ({ project, onUpdateProject, onDirtyChange }: PromptLibraryProps) => {
+    const promptKeys = Object.keys(PROMPT_STAGE_LABELS) as (keyof typeof PROMPT_TEMPLATES)[];
+    const [selectedKey, setSelectedKey] = useState<keyof typeof PROMPT_TEMPLATES>(promptKeys[0]);
+    const [showDiff, setShowDiff] = useState(false);
 
+    const override = project.promptOverrides[selectedKey];
+    const defaultText = PROMPT_TEMPLATES[selectedKey].systemInstruction;
+    const activeText = override?.text ?? defaultText;
+    const [draft, setDraft] = useState(activeText);
 
-    // Step 2: Content Strategy
+    // Reload the editor whenever the prompt in use changes (switching prompt or project, save, reset, restore).
+    useEffect(() => { setDraft(activeText); }, [activeText, project.id]);
+
+    const isDirty = draft !== activeText;
+    useEffect(() => { onDirtyChange(isDirty); }, [isDirty, onDirtyChange]);
+    const diff = useMemo(() => showDiff ? diffLines(defaultText, draft) : [], [showDiff, defaultText, draft]);
+
+    const setOverride = (next: PromptOverride) => {
+        onUpdateProject(p => ({ ...p, promptOverrides: { ...p.promptOverrides, [selectedKey]: next } }));
+    };
+
+    const handleSelectPrompt = (promptKey: keyof typeof PROMPT_TEMPLATES) => {
+        if (isDirty && !window.confirm('Discard unsaved changes to this prompt?')) return;
+        setSelectedKey(promptKey);
+    };
+
+    const handleReset = () => {
+        if (!window.confirm(`Reset "${PROMPT_STAGE_LABELS[selectedKey]}" to the built-in prompt? Saved versions are kept.`)) return;
+        setOverride({ text: null, history: override?.history || [] });
+    };
+
+    const handleVariableChange = (key: keyof PromptVariables, value: string) => {
+        onUpdateProject(p => ({ ...p, promptVariables: { ...p.promptVariables, [key]: value } }));
+    };
+
+    return (
+        <div className="prompt-library">
+            <div className="setup-card full-width">
+                <h3>Prompt Variables</h3>
+                <p className="help-text" style={{ marginBottom: '1rem' }}>
+                    Used wherever a prompt contains {(Object.values(PROMPT_VARIABLE_PLACEHOLDERS)).join(', ')}. Leave a field blank to use the default shown.
+                </p>
+                <div className="prompt-variables-grid">
+                    <div className="form-group">
+                        <label htmlFor="promptBrandVoice">Brand Voice</label>
+                        <input type="text" id="promptBrandVoice" value={project.promptVariables.brandVoice} onChange={e => handleVariableChange('brandVoice', e.target.value)} placeholder={DEFAULT_PROMPT_VARIABLES.brandVoice} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="promptYear">Year</label>
+                        <input type="text" id="promptYear" value={project.promptVariables.year} onChange={e => handleVariableChange('year', e.target.value)} placeholder={DEFAULT_PROMPT_VARIABLES.year} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="promptAudience">Audience</label>
+                        <input type="text" id="promptAudience" value={project.promptVariables.audience} onChange={e => handleVariableChange('audience', e.target.value)} placeholder={DEFAULT_PROMPT_VARIABLES.audience} />
+                    </div>
+                </div>
+            </div>
+            <StyleGuideEditor guide={project.styleGuide} onChange={styleGuide => onUpdateProject(p => ({ ...p, styleGuide }))} />
+            <div className="prompt-library-layout">
+                <ul className="prompt-list">
+                    {promptKeys.map(promptKey => (
+                        <li key={promptKey}>
+                            <button className={`prompt-list-item ${selectedKey === promptKey ? 'active' : ''}`} onClick={() => handleSelectPrompt(promptKey)}>
+                                <span>{PROMPT_STAGE_LABELS[promptKey]}</span>
+                                {project.promptOverrides[promptKey]?.text != null && <span className="badge pillar">Customized</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="prompt-editor">
+                    <div className="prompt-editor-header">
+                        <h3>{PROMPT_STAGE_LABELS[selectedKey]} <code>{selectedKey}</code></h3>
+                        <span className="help-text">{override?.text != null ? 'Using this project\'s override' : 'Using the built-in prompt'}{isDirty ? ' (unsaved changes)' : ''}</span>
+                    </div>
+                    <textarea className="prompt-editor-textarea" value={draft} onChange={e => setDraft(e.target.value)} spellCheck={false} aria-label={`System instruction for ${PROMPT_STAGE_LABELS[selectedKey]}`} />
+                    <div className="action-buttons prompt-editor-actions">
+                        <button className="btn btn-small" onClick={() => setOverride(savePromptVersion(override, draft))} disabled={!isDirty}>Save Version</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => setDraft(activeText)} disabled={!isDirty}>Discard Changes</button>
+                        <button className="btn btn-secondary btn-small" onClick={() => setShowDiff(prev => !prev)}>{showDiff ? 'Hide Diff' : 'Diff vs Default'}</button>
+                        <button className="btn btn-secondary btn-small" onClick={handleReset} disabled={override?.text == null}>Reset to Default</button>
+                    </div>
+                    {showDiff && (
+                        <pre className="prompt-diff" aria-label="Changes compared to the built-in prompt">
+                            {diff.every(line => line.type === 'same')
+                                ? <span className="prompt-diff-same">No differences from the built-in prompt.</span>
+                                : diff.map((line, i) => (
+                                    <span key={i} className={`prompt-diff-${line.type}`}>{line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}{'\n'}</span>
+                                ))}
+                        </pre>
+                    )}
+                    <h4>Version History</h4>
+                    {override?.history.length ? (
+                        <ul className="prompt-history">
+                            {[...override.history].reverse().map((version, i) => (
+                                <li key={version.savedAt + i}>
+                                    <span>{new Date(version.savedAt).toLocaleString()}{version.text === override.text ? ' (active)' : ''}</span>
+                                    <button className="btn btn-secondary btn-small" onClick={() => setDraft(version.text)}>Load</button>
+                                    <button className="btn btn-secondary btn-small" onClick={() => setOverride(savePromptVersion(override, version.text))} disabled={version.text === override.text}>Restore</button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="help-text">No saved versions yet. Saving an edit creates the first one.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Splits an article's links into internal and external ones. Relative links and links to
+ * the site's own host are internal.
+ * @param html The article HTML.
+ * @param siteUrl The WordPress site URL.
+ * @returns The number of internal and external links.
+ */
+const countLinks = (html: string, siteUrl: string): { internal: number; external: number } => {
+    const tempDiv = document.createElement('div');
+    tempDiv.innerHTML = html;
+    let siteHost = '';
+    try { siteHost = new URL(siteUrl).hostname; } catch { /* No site configured; only relative links count as internal. */ }
+
+    let internal = 0;
+    let external = 0;
+    tempDiv.querySelectorAll('a[href]').forEach(anchor => {
+        const href = anchor.getAttribute('href') || '';
+        if (!/^https?:\/\//i.test(href)) {
+            internal++;
+            return;
+        }
+        try {
+            if (siteHost && new URL(href).hostname === siteHost) internal++;
+            else external++;
+        } catch {
+            external++;
+        }
+    });
+    return { internal, external };
+};
+
+type ExperimentMetric = { label: string; value: (result: ExperimentResult, scores: ExperimentScores) => number | null; better: 'higher' | 'lower' | null; format?: (value: number) => string };
+type ExperimentScores = ReturnType<typeof scoreExperimentContent>;
+
+/**
+ * Scores one experiment result with the same checks the Review modal uses.
+ * @param content The generated article.
+ * @param siteUrl The WordPress site URL, used to classify links.
+ * @param requirements The item's requirement profile.
+ */
+const scoreExperimentContent = (content: GeneratedContent, siteUrl: string, requirements: ContentRequirements) => {
+    const language = content.language || DEFAULT_LANGUAGE;
+    const { contentAnalysis, checks, scores } = analyzeRankGuardian(content.content, content, content.primaryKeyword, content.semanticKeywords, requirements, null, language);
+    return {
+        ...scores,
+        readabilityScore: contentAnalysis.readabilityScore,
+        humanScore: checkHumanWritingScore(content.content, undefined, language).humanScore,
+        wordCount: contentAnalysis.wordCount,
+        links: countLinks(content.content, siteUrl),
+        failedChecks: checks.filter(check => !check.valid).length,
+    };
+};
+
+const EXPERIMENT_METRICS: ExperimentMetric[] = [
+    { label: 'Overall Score', value: (_, scores) => scores.overallScore, better: 'higher' },
+    { label: 'SEO Score', value: (_, scores) => scores.seoScore, better: 'higher' },
+    { label: 'Readability', value: (_, scores) => scores.readabilityScore, better: 'higher' },
+    { label: 'Human Writing Score', value: (_, scores) => scores.humanScore, better: 'higher' },
+    { label: 'Failed Checks', value: (_, scores) => scores.failedChecks, better: 'lower' },
+    { label: 'Word Count', value: (_, scores) => scores.wordCount, better: null, format: value => value.toLocaleString() },
+    { label: 'Internal Links', value: (_, scores) => scores.links.internal, better: 'higher' },
+    { label: 'External Links', value: (_, scores) => scores.links.external, better: null },
+    { label: 'Tokens', value: result => result.usage ? result.usage.promptTokens + result.usage.completionTokens : null, better: 'lower', format: value => value.toLocaleString() },
+    { label: 'Cost', value: result => result.usage && result.usage.unpricedCalls === 0 ? result.usage.cost : null, better: 'lower', format: value => `$${value.toFixed(4)}` },
+];
+
+const describeExperimentVariant = (variant: ExperimentVariant): string => {
+    if (!variant.route) return 'Default routing';
+    return `${getAiProvider(variant.route.provider)?.name || variant.route.provider}${variant.route.model ? ` · ${variant.route.model}` : ''}`;
+};
+
+interface ExperimentComparisonProps {
+    experiment: PromptExperiment;
+    siteUrl: string;
+    onStop: () => void;
+    onDelete: () => void;
+}
+
+const ExperimentComparison = ({ experiment, siteUrl, onStop, onDelete }: ExperimentComparisonProps) => {
+    const [showArticles, setShowArticles] = useState(false);
+    const isRunning = experiment.results.some(result => result.status === 'running' || result.status === 'pending');
+    const scores = useMemo(
+        () => experiment.results.map(result => result.content ? scoreExperimentContent(result.content, siteUrl, experiment.requirements) : null),
+        [experiment.results, siteUrl, experiment.requirements]
+    );
+
+    return (
+        <div className="setup-card full-width experiment-card">
+            <div className="experiment-card-header">
+                <div>
+                    <h3>{experiment.itemTitle}</h3>
+                    <p className="help-text">Varying {PROMPT_STAGE_LABELS[experiment.promptKey]} · {new Date(experiment.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="action-buttons">
+                    {isRunning
+                        ? <button className="btn btn-secondary btn-small" onClick={onStop}>Stop</button>
+                        : <button className="btn btn-secondary btn-small" onClick={onDelete}>Delete</button>}
+                    <button className="btn btn-secondary btn-small" onClick={() => setShowArticles(prev => !prev)} disabled={scores.every(score => !score)}>{showArticles ? 'Hide Articles' : 'Show Articles'}</button>
+                </div>
+            </div>
+            <table className="experiment-table">
+                <thead>
+                    <tr>
+                        <th></th>
+                        {experiment.variants.map((variant, i) => (
+                            <th key={i}>
+                                Variant {i === 0 ? 'A' : 'B'}
+                                <span className="experiment-variant-meta">{describeExperimentVariant(variant)}</span>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr>
+                        <td>Status</td>
+                        {experiment.results.map((result, i) => <td key={i} className={result.status === 'error' ? 'error' : ''}>{result.statusText}</td>)}
+                    </tr>
+                    {EXPERIMENT_METRICS.map(metric => {
+                        const values = experiment.results.map((result, i) => scores[i] ? metric.value(result, scores[i]!) : null);
+                        const [a, b] = values;
+                        const winner = metric.better && a !== null && b !== null && a !== b
+                            ? ((metric.better === 'higher') === (a > b) ? 0 : 1)
+                            : -1;
+                        return (
+                            <tr key={metric.label}>
+                                <td>{metric.label}</td>
+                                {values.map((value, i) => (
+                                    <td key={i} className={winner === i ? 'experiment-better' : ''}>
+                                        {value === null ? '—' : metric.format ? metric.format(value) : value}
+                                    </td>
+                                ))}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            {showArticles && (
+                <div className="experiment-articles">
+                    {experiment.results.map((result, i) => (
+                        <div key={i} className="experiment-article">
+                            <h4>Variant {i === 0 ? 'A' : 'B'}: {result.content?.title || '—'}</h4>
+                            {result.content && <div className="live-preview" dangerouslySetInnerHTML={{ __html: result.content.content }}></div>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface PromptExperimentsProps {
+    items: ContentItem[];
+    project: ProjectSettings;
+    experiments: PromptExperiment[];
+    siteUrl: string;
+    onRun: (itemId: string, promptKey: keyof typeof PROMPT_TEMPLATES, variants: [ExperimentVariant, ExperimentVariant]) => void;
+    onStop: (experimentId: string) => void;
+    onDelete: (experimentId: string) => void;
+}
+
+const PromptExperiments = ({ items, project, experiments, siteUrl, onRun, onStop, onDelete }: PromptExperimentsProps) => {
+    const articleItems = items.filter(item => item.type !== 'link-optimizer');
+    const [itemId, setItemId] = useState('');
+    const [promptKey, setPromptKey] = useState(EXPERIMENT_PROMPT_KEYS[0]);
+    const projectPromptText = project.promptOverrides[promptKey]?.text ?? PROMPT_TEMPLATES[promptKey].systemInstruction;
+    const [drafts, setDrafts] = useState(() => [0, 1].map(() => ({ promptText: projectPromptText, provider: '', model: '' })));
+
+    // A new prompt or project starts both variants from the prompt currently in use.
+    useEffect(() => {
+        setDrafts([0, 1].map(() => ({ promptText: projectPromptText, provider: '', model: '' })));
+    }, [projectPromptText]);
+
+    const selectedItemId = articleItems.some(item => item.id === itemId) ? itemId : articleItems[0]?.id || '';
+    const versions = project.promptOverrides[promptKey]?.history || [];
+
+    const updateDraft = (index: number, patch: Partial<typeof drafts[number]>) => {
+        setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...patch } : draft));
+    };
+
+    const handleLoadPrompt = (index: number, source: string) => {
+        if (source === 'project') updateDraft(index, { promptText: projectPromptText });
+        else if (source === 'default') updateDraft(index, { promptText: PROMPT_TEMPLATES[promptKey].systemInstruction });
+        else if (versions[Number(source)]) updateDraft(index, { promptText: versions[Number(source)].text });
+    };
+
+    const handleRun = () => {
+        const variants = drafts.map(draft => ({
+            promptText: draft.promptText,
+            route: draft.provider ? { provider: draft.provider, model: draft.model.trim() } : null,
+        })) as [ExperimentVariant, ExperimentVariant];
+        onRun(selectedItemId, promptKey, variants);
+    };
+
+    const isIdentical = drafts[0].promptText === drafts[1].promptText && drafts[0].provider === drafts[1].provider && drafts[0].model.trim() === drafts[1].model.trim();
+
+    return (
+        <div className="setup-grid">
+            <div className="setup-card full-width">
+                <h3>New Experiment</h3>
+                {articleItems.length === 0 ? (
+                    <p className="help-text">Add articles in Content Strategy first. Experiments run on an item from the Review & Export list.</p>
+                ) : (
+                    <>
+                        <div className="form-group-row">
+                            <div className="form-group">
+                                <label htmlFor="experimentItem">Article</label>
+                                <select id="experimentItem" value={selectedItemId} onChange={e => setItemId(e.target.value)}>
+                                    {articleItems.map(item => <option key={item.id} value={item.id}>{item.title}</option>)}
+                                </select>
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="experimentPrompt">Prompt to Vary</label>
+                                <select id="experimentPrompt" value={promptKey} onChange={e => setPromptKey(e.target.value as keyof typeof PROMPT_TEMPLATES)}>
+                                    {EXPERIMENT_PROMPT_KEYS.map(key => <option key={key} value={key}>{PROMPT_STAGE_LABELS[key]}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="experiment-variants">
+                            {drafts.map((draft, i) => {
+                                const provider = getAiProvider(draft.provider);
+                                return (
+                                    <div key={i} className="experiment-variant">
+                                        <h4>Variant {i === 0 ? 'A' : 'B'}</h4>
+                                        <div className="form-group">
+                                            <label htmlFor={`experimentSource${i}`}>Load Prompt</label>
+                                            <select id={`experimentSource${i}`} value="" onChange={e => handleLoadPrompt(i, e.target.value)}>
+                                                <option value="" disabled>Choose a starting point...</option>
+                                                <option value="project">Current project prompt</option>
+                                                <option value="default">Built-in default</option>
+                                                {versions.map((version, v) => <option key={v} value={v}>Version saved {new Date(version.savedAt).toLocaleString()}</option>)}
+                                            </select>
+                                        </div>
+                                        <textarea className="prompt-editor-textarea" value={draft.promptText} onChange={e => updateDraft(i, { promptText: e.target.value })} spellCheck={false} aria-label={`Variant ${i === 0 ? 'A' : 'B'} system instruction`} />
+                                        <div className="form-group-row">
+                                            <div className="form-group">
+                                                <label htmlFor={`experimentProvider${i}`}>Provider</label>
+                                                <select id={`experimentProvider${i}`} value={draft.provider} onChange={e => updateDraft(i, { provider: e.target.value, model: '' })}>
+                                                    <option value="">Default routing</option>
+                                                    {listAiProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                </select>
+                                            </div>
+                                            <div className="form-group">
+                                                <label htmlFor={`experimentModel${i}`}>Model</label>
+                                                <input type="text" id={`experimentModel${i}`} list={`experimentModels${i}`} value={draft.model} onChange={e => updateDraft(i, { model: e.target.value })} placeholder={draft.provider ? 'Provider default' : '—'} disabled={!draft.provider} />
+                                                <datalist id={`experimentModels${i}`}>
+                                                    {(provider?.models || []).map(model => <option key={model} value={model} />)}
+                                                </datalist>
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="help-text">Both variants run the full article pipeline on the same item, without images. SERP data and semantic keywords are shared, so only the varied prompt or model differs. Results are kept until the page is reloaded.</p>
+                        <button className="btn" onClick={handleRun} disabled={!selectedItemId || isIdentical} style={{ marginTop: '1rem' }}>Run Experiment</button>
+                    </>
+                )}
+            </div>
+            {experiments.map(experiment => (
+                <ExperimentComparison
+                    key={experiment.id}
+                    experiment={experiment}
+                    siteUrl={siteUrl}
+                    onStop={() => onStop(experiment.id)}
+                    onDelete={() => onDelete(experiment.id)}
+                />
+            ))}
+        </div>
+    );
+};
+
+const AppFooter = () => (
+    <footer className="app-footer">
+        <div className="footer-grid">
+            <div className="footer-column footer-logo-column">
+                <a href="https://affiliatemarketingforsuccess.com/" target="_blank" rel="noopener noreferrer">
+                    <img src="https://affiliatemarketingforsuccess.com/wp-content/uploads/2023/03/cropped-Affiliate-Marketing-for-Success-Logo-Edited.png?lm=6666FEE0" alt="AffiliateMarketingForSuccess.com Logo" className="footer-logo-img" />
+                </a>
+                <p className="footer-tagline">
+                    Empowering creators with cutting-edge tools for digital success.
+                </p>
+            </div>
+            <div className="footer-column">
+                <h4 className="footer-heading">Resources</h4>
+                <ul className="footer-links-list">
+                    <li><a href="https://affiliatemarketingforsuccess.com/affiliate-marketing" target="_blank" rel="noopener noreferrer">Affiliate Marketing</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/ai" target="_blank" rel="noopener noreferrer">AI Automation</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/seo" target="_blank" rel="noopener noreferrer">SEO Strategy</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/blogging" target="_blank" rel="noopener noreferrer">Blogging Guides</a></li>
+                </ul>
+            </div>
+            <div className="footer-column">
+                <h4 className="footer-heading">Company</h4>
+                <ul className="footer-links-list">
+                    <li><a href="https://affiliatemarketingforsuccess.com/about/" target="_blank" rel="noopener noreferrer">About Us</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/review" target="_blank" rel="noopener noreferrer">Reviews</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/contact/" target="_blank" rel="noopener noreferrer">Contact</a></li>
+                </ul>
+            </div>
+             <div className="footer-column">
+                <h4 className="footer-heading">Legal</h4>
+                <ul className="footer-links-list">
+                    <li><a href="https://affiliatemarketingforsuccess.com/privacy-policy/" target="_blank" rel="noopener noreferrer">Privacy Policy</a></li>
+                    <li><a href="https://affiliatemarketingforsuccess.com/terms-of-service/" target="_blank" rel="noopener noreferrer">Terms of Service</a></li>
+                </ul>
+            </div>
+        </div>
+        <div className="footer-bottom-bar">
+             <p>This App is Created by <a href="https://affiliatemarketingforsuccess.com/about" target="_blank" rel="noopener noreferrer"><strong>Alexios Papaioannou</strong></a>, Owner of <a href="https://affiliatemarketingforsuccess.com/" target="_blank" rel="noopener noreferrer">affiliatemarketingforsuccess.com</a></p>
+        </div>
+    </footer>
+);
+
+
+// --- Main App Component ---
+const App = () => {
+    const [activeView, setActiveView] = useState('setup');
+    // The project can only be switched from Setup, so leaving the Prompt Library is where an unsaved draft would be lost.
+    const [hasUnsavedPrompt, setHasUnsavedPrompt] = useState(false);
+    
+    // Step 1: API Keys & Config
+    const [apiKeys, setApiKeys] = useState(() => {
+        const saved = localStorage.getItem('apiKeys');
+        // FIX: Remove Gemini API key from state to enforce usage of environment variable, and handle migration from old localStorage values.
+        const initialKeys = saved ? JSON.parse(saved) : { openaiApiKey: '', anthropicApiKey: '', openrouterApiKey: '', serperApiKey: '', groqApiKey: '' };
+        if (initialKeys.geminiApiKey) {
+            delete initialKeys.geminiApiKey;
+        }
+        return initialKeys;
+    });
+    const [apiKeyStatus, setApiKeyStatus] = useState(() => {
+        const initialStatus: Record<string, 'idle' | 'validating' | 'valid' | 'invalid'> = { serper: 'idle' };
+        listAiProviders().forEach(provider => { initialStatus[provider.id] = 'idle'; });
+        return initialStatus;
+    });
+    const [editingApiKey, setEditingApiKey] = useState<string | null>(null);
+    // Initialized SDK clients, keyed by provider id. The shape of each client is owned by its provider.
+    const [apiClients, setApiClients] = useState<Record<string, any>>({});
+    const [selectedModel, setSelectedModel] = useState(() => localStorage.getItem('selectedModel') || 'gemini');
+    // Chosen model(s) per provider, in order of preference. Providers without an entry use their defaults.
+    const [providerModels, setProviderModels] = useState<Record<string, string[]>>(() => {
+        const saved = localStorage.getItem('providerModels');
+        const initialModels: Record<string, string[]> = saved ? JSON.parse(saved) : {};
+        // Migrate the pre-registry Groq model setting.
+        const legacyGroqModel = localStorage.getItem('selectedGroqModel');
+        if (legacyGroqModel && !initialModels.groq) {
+            initialModels.groq = [legacyGroqModel];
+        }
+        return initialModels;
+    });
+    // Providers tried, in order, for any prompt whose routed and primary providers fail.
+    const [providerFailover, setProviderFailover] = useState<string[]>(() => {
+        const saved = localStorage.getItem('providerFailover');
+        return saved ? JSON.parse(saved) : [];
+    });
+    // Per-prompt provider/model routes, tried in order. The primary provider is always the last resort.
+    const [modelRouting, setModelRouting] = useState<Partial<Record<keyof typeof PROMPT_TEMPLATES, ModelRoute[]>>>(() => {
+        const saved = localStorage.getItem('modelRouting');
+        return saved ? JSON.parse(saved) : {};
+    });
+    // Editable price table used for cost estimates. Starts from DEFAULT_MODEL_PRICES.
+    const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>(() => {
+        const saved = localStorage.getItem('modelPrices');
+        return saved ? JSON.parse(saved) : DEFAULT_MODEL_PRICES;
+    });
+    const [newPriceModel, setNewPriceModel] = useState('');
+    // The model chain textarea as typed. Parsed into providerModels on blur, so blank lines can be typed.
+    const [providerModelsDraft, setProviderModelsDraft] = useState<string | null>(null);
+    // Endpoint URLs for providers with a configurable base URL (see AiProvider.defaultBaseUrl).
+    const [providerBaseUrls, setProviderBaseUrls] = useState<Record<string, string>>(() => {
+        const saved = localStorage.getItem('providerBaseUrls');
+        return saved ? JSON.parse(saved) : {};
+    });
+    const [geoTargeting, setGeoTargeting] = useState<ExpandedGeoTargeting>(() => {
+        const saved = localStorage.getItem('geoTargeting');
+        return saved ? JSON.parse(saved) : { enabled: false, location: '', region: '', country: '', postalCode: '' };
+    });
+    const [useGoogleSearch, setUseGoogleSearch] = useState(false);
+    // Per-run ceiling for bulk generation, measured from the usage callAI reports. A limit of 0 disables it.
+    const [runBudget, setRunBudget] = useState<RunBudget>(() => {
+        const saved = localStorage.getItem('runBudget');
+        return saved ? JSON.parse(saved) : { type: 'cost', limit: 0 };
+    });
+    // Sections and FAQ answers written at once per article, and articles generated at once.
+    const [generationConcurrency, setGenerationConcurrency] = useState<{ sections: number; items: number }>(() => {
+        const saved = localStorage.getItem('generationConcurrency');
+        return saved ? JSON.parse(saved) : { sections: DEFAULT_SECTION_CONCURRENCY, items: 1 };
+    });
+    const [requireOutlineApproval, setRequireOutlineApproval] = useState(() => localStorage.getItem('requireOutlineApproval') === 'true');
+    const [humanizeRewrite, setHumanizeRewrite] = useState(() => localStorage.getItem('humanizeRewrite') === 'true');
+    const [strictClaimVerification, setStrictClaimVerification] = useState(() => localStorage.getItem('strictClaimVerification') === 'true');
+    const [expansionAttempts, setExpansionAttempts] = useState(() => {
+        const saved = localStorage.getItem('expansionAttempts');
+        return saved !== null ? parseInt(saved, 10) : DEFAULT_EXPANSION_ATTEMPTS;
+    });
+    const [requirementProfiles, setRequirementProfiles] = useState<ContentRequirements[]>(() => {
+        const saved = localStorage.getItem('requirementProfiles');
+        return normalizeRequirementProfiles(saved ? JSON.parse(saved) : null);
+    });
+    const [projects, setProjects] = useState<ProjectSettings[]>(() => {
+        const saved = localStorage.getItem('projects');
+        return saved ? JSON.parse(saved).map(normalizeProject) : [createProject('Default Project', 'default')];
+    });
+    const [activeProjectId, setActiveProjectId] = useState(() => localStorage.getItem('activeProjectId') || 'default');
+    const activeProject = projects.find(project => project.id === activeProjectId) || projects[0];
+
+
+    // Step 2: Content Strategy
     const [contentMode, setContentMode] = useState('bulk'); // 'bulk', 'single', or 'imageGenerator'
     const [topic, setTopic] = useState('');
     const [primaryKeyword, setPrimaryKeyword] = useState('');
@@ -2583,13 +4366,22 @@ const App = () => {
     // Step 3: Generation & Review
     const [items, dispatch] = useReducer(itemsReducer, []);
     const [isGenerating, setIsGenerating] = useState(false);
-    const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0 });
+    const [generationProgress, setGenerationProgress] = useState<{ current: number; total: number; itemIds: string[] }>({ current: 0, total: 0, itemIds: [] });
+    // The partial HTML of each item being generated, as it streams in.
+    const [liveDrafts, setLiveDrafts] = useState<Record<string, { title: string; html: string }>>({});
+    const liveDraftUpdatedAtRef = useRef(new Map<string, number>());
     const [selectedItems, setSelectedItems] = useState(new Set<string>());
     const [filter, setFilter] = useState('');
     const [sortConfig, setSortConfig] = useState({ key: 'title', direction: 'asc' });
     const [selectedItemForReview, setSelectedItemForReview] = useState<ContentItem | null>(null);
     const [isBulkPublishModalOpen, setIsBulkPublishModalOpen] = useState(false);
     const stopGenerationRef = useRef(new Set<string>());
+    // Lets Stop cancel an item's in-flight AI request instead of waiting for it to finish.
+    const generationAbortRef = useRef(new Map<string, AbortController>());
+    // A/B prompt experiments. Results hold full articles, so they are not persisted.
+    const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+    const [outlineReview, setOutlineReview] = useState<{ item: ContentItem; outline: ArticleOutline } | null>(null);
+    const experimentAbortRef = useRef(new Map<string, AbortController>());
     
     // Content Hub State
     const [hubSearchFilter, setHubSearchFilter] = useState('');
@@ -2599,6 +4391,9 @@ const App = () => {
     const [healthAnalysisProgress, setHealthAnalysisProgress] = useState({ current: 0, total: 0 });
     const [selectedHubPages, setSelectedHubPages] = useState(new Set<string>());
     const [viewingAnalysis, setViewingAnalysis] = useState<SitemapPage | null>(null);
+    // By id, so the log keeps updating while the modal is open.
+    const [runLogItemId, setRunLogItemId] = useState<string | null>(null);
+    const runLogItem = runLogItemId ? items.find(item => item.id === runLogItemId) : undefined;
     
     // Web Worker
     const workerRef = useRef<Worker | null>(null);
@@ -2608,34 +4403,47 @@ const App = () => {
     // Persist settings to localStorage
     useEffect(() => { localStorage.setItem('apiKeys', JSON.stringify(apiKeys)); }, [apiKeys]);
     useEffect(() => { localStorage.setItem('selectedModel', selectedModel); }, [selectedModel]);
-    useEffect(() => { localStorage.setItem('selectedGroqModel', selectedGroqModel); }, [selectedGroqModel]);
+    useEffect(() => { localStorage.setItem('providerModels', JSON.stringify(providerModels)); }, [providerModels]);
+    useEffect(() => { localStorage.setItem('modelRouting', JSON.stringify(modelRouting)); }, [modelRouting]);
+    useEffect(() => { localStorage.setItem('providerFailover', JSON.stringify(providerFailover)); }, [providerFailover]);
+    useEffect(() => { localStorage.setItem('modelPrices', JSON.stringify(modelPrices)); }, [modelPrices]);
+    useEffect(() => { localStorage.setItem('providerBaseUrls', JSON.stringify(providerBaseUrls)); }, [providerBaseUrls]);
     useEffect(() => { localStorage.setItem('wpConfig', JSON.stringify(wpConfig)); }, [wpConfig]);
     useEffect(() => { localStorage.setItem('wpPassword', wpPassword); }, [wpPassword]);
     useEffect(() => { localStorage.setItem('geoTargeting', JSON.stringify(geoTargeting)); }, [geoTargeting]);
+    useEffect(() => { localStorage.setItem('runBudget', JSON.stringify(runBudget)); }, [runBudget]);
+    useEffect(() => { localStorage.setItem('generationConcurrency', JSON.stringify(generationConcurrency)); }, [generationConcurrency]);
+    useEffect(() => { localStorage.setItem('requireOutlineApproval', String(requireOutlineApproval)); }, [requireOutlineApproval]);
+    useEffect(() => { localStorage.setItem('humanizeRewrite', String(humanizeRewrite)); }, [humanizeRewrite]);
+    useEffect(() => { localStorage.setItem('strictClaimVerification', String(strictClaimVerification)); }, [strictClaimVerification]);
+    useEffect(() => { localStorage.setItem('expansionAttempts', String(expansionAttempts)); }, [expansionAttempts]);
+    useEffect(() => { localStorage.setItem('requirementProfiles', JSON.stringify(requirementProfiles)); }, [requirementProfiles]);
+    useEffect(() => { localStorage.setItem('projects', JSON.stringify(projects)); }, [projects]);
+    useEffect(() => { localStorage.setItem('activeProjectId', activeProjectId); }, [activeProjectId]);
     useEffect(() => { localStorage.setItem('siteInfo', JSON.stringify(siteInfo)); }, [siteInfo]);
 
-    // FIX: Initialize Gemini client from environment variable on component mount, per guidelines.
+    // FIX: Initialize environment-keyed providers (e.g. Gemini) on component mount, per guidelines.
     useEffect(() => {
-        (async () => {
-            if (process.env.API_KEY) {
+        listAiProviders().filter(provider => provider.readEnvApiKey).forEach(async (provider) => {
+            const envKey = provider.readEnvApiKey!();
+            if (envKey) {
                 try {
-                    setApiKeyStatus(prev => ({...prev, gemini: 'validating' }));
-                    const geminiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                    // A quick test call to ensure the key is valid.
-                    await callAiWithRetry(() => geminiClient.models.generateContent({ model: AI_MODELS.GEMINI_FLASH, contents: 'test' }));
-                    setApiClients(prev => ({ ...prev, gemini: geminiClient }));
-                    setApiKeyStatus(prev => ({...prev, gemini: 'valid' }));
+                    setApiKeyStatus(prev => ({...prev, [provider.id]: 'validating' }));
+                    const client = provider.init(envKey);
+                    await provider.validateKey(client);
+                    setApiClients(prev => ({ ...prev, [provider.id]: client }));
+                    setApiKeyStatus(prev => ({...prev, [provider.id]: 'valid' }));
                 } catch (e) {
-                    console.error("Gemini client initialization/validation failed:", e);
-                    setApiClients(prev => ({ ...prev, gemini: null }));
-                    setApiKeyStatus(prev => ({...prev, gemini: 'invalid' }));
+                    console.error(`${provider.label} client initialization/validation failed:`, e);
+                    setApiClients(prev => ({ ...prev, [provider.id]: null }));
+                    setApiKeyStatus(prev => ({...prev, [provider.id]: 'invalid' }));
                 }
             } else {
-                console.error("Gemini API key (API_KEY environment variable) is not set.");
-                setApiClients(prev => ({ ...prev, gemini: null }));
-                setApiKeyStatus(prev => ({...prev, gemini: 'invalid' }));
+                console.error(`${provider.label} API key is not set in the environment.`);
+                setApiClients(prev => ({ ...prev, [provider.id]: null }));
+                setApiKeyStatus(prev => ({...prev, [provider.id]: 'invalid' }));
             }
-        })();
+        });
     }, []);
 
 
@@ -2838,8 +4646,10 @@ const App = () => {
         return filtered;
     }, [existingPages, hubSearchFilter, hubStatusFilter, hubSortConfig]);
 
-    const validateApiKey = useCallback(debounce(async (provider: string, key: string) => {
-        if (!key) {
+    const validateApiKeyNow = useCallback(async (provider: string, key: string, options?: AiProviderOptions) => {
+        const aiProvider = getAiProvider(provider);
+        const canValidateWithoutKey = !!aiProvider?.apiKeyOptional && !!options?.baseUrl;
+        if (!key && !canValidateWithoutKey) {
             setApiKeyStatus(prev => ({ ...prev, [provider]: 'idle' }));
             setApiClients(prev => ({ ...prev, [provider]: null }));
             return;
@@ -2848,75 +4658,33 @@ const App = () => {
         setApiKeyStatus(prev => ({ ...prev, [provider]: 'validating' }));
 
         try {
-            let client;
+            let client: unknown = null;
             let isValid = false;
-            switch (provider) {
-                case 'openai':
-                    client = new OpenAI({ apiKey: key, dangerouslyAllowBrowser: true });
-                    await callAiWithRetry(() => client.models.list());
-                    isValid = true;
-                    break;
-                case 'anthropic':
-                    client = new Anthropic({ apiKey: key });
-                    await callAiWithRetry(() => client.messages.create({
-                        model: AI_MODELS.ANTHROPIC_HAIKU,
-                        max_tokens: 1,
-                        messages: [{ role: "user", content: "test" }],
-                    }));
-                    isValid = true;
-                    break;
-                 case 'openrouter':
-                    client = new OpenAI({
-                        baseURL: "https://openrouter.ai/api/v1",
-                        apiKey: key,
-                        dangerouslyAllowBrowser: true,
-                        defaultHeaders: {
-                            'HTTP-Referer': window.location.href,
-                            'X-Title': 'WP Content Optimizer Pro',
-                        }
-                    });
-                    await callAiWithRetry(() => client.chat.completions.create({
-                        model: 'google/gemini-2.5-flash',
-                        messages: [{ role: "user", content: "test" }],
-                        max_tokens: 1
-                    }));
-                    isValid = true;
-                    break;
-                case 'groq':
-                    client = new OpenAI({
-                        baseURL: "https://api.groq.com/openai/v1",
-                        apiKey: key,
-                        dangerouslyAllowBrowser: true,
-                    });
-                    await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                        model: AI_MODELS.GROQ_MODELS[1], // Use a small model for testing
-                        messages: [{ role: "user", content: "test" }],
-                        max_tokens: 1
-                    }));
+            if (aiProvider) {
+                client = aiProvider.init(key, options);
+                await aiProvider.validateKey(client);
+                isValid = true;
+            } else if (provider === 'serper') {
+                const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
+                    method: 'POST',
+                    headers: {
+                        'X-API-KEY': key,
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({ q: 'test' })
+                });
+                if (serperResponse.ok) {
                     isValid = true;
-                    break;
-                 case 'serper':
-                    const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
-                        method: 'POST',
-                        headers: {
-                            'X-API-KEY': key,
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify({ q: 'test' })
-                    });
-                    if (serperResponse.ok) {
-                        isValid = true;
-                    } else {
-                        const errorBody = await serperResponse.json().catch(() => ({ message: `Serper validation failed with status ${serperResponse.status}` }));
-                        throw new Error(errorBody.message || `Serper validation failed with status ${serperResponse.status}`);
-                    }
-                    break;
+                } else {
+                    const errorBody = await serperResponse.json().catch(() => ({ message: `Serper validation failed with status ${serperResponse.status}` }));
+                    throw new Error(errorBody.message || `Serper validation failed with status ${serperResponse.status}`);
+                }
             }
 
             if (isValid) {
                 setApiKeyStatus(prev => ({ ...prev, [provider]: 'valid' }));
                 if (client) {
-                     setApiClients(prev => ({ ...prev, [provider]: client as any }));
+                     setApiClients(prev => ({ ...prev, [provider]: client }));
                 }
                 setEditingApiKey(null);
             } else {
@@ -2927,12 +4695,18 @@ const App = () => {
             setApiKeyStatus(prev => ({ ...prev, [provider]: 'invalid' }));
             setApiClients(prev => ({ ...prev, [provider]: null }));
         }
-    }, 500), []);
+    }, []);
+    const validateApiKey = useCallback(debounce(validateApiKeyNow, 500), [validateApiKeyNow]);
     
      useEffect(() => {
-        Object.entries(apiKeys).forEach(([key, value]) => {
-            if (value) {
-                validateApiKey(key.replace('ApiKey', ''), value as string);
+        // Validate immediately rather than through the shared debounce, which would drop all but the last provider.
+        const providerIds = new Set(Object.keys(apiKeys).map(key => key.replace('ApiKey', '')));
+        listAiProviders().filter(provider => provider.apiKeyOptional).forEach(provider => providerIds.add(provider.id));
+        providerIds.forEach(provider => {
+            const key = apiKeys[`${provider}ApiKey`] || '';
+            const baseUrl = providerBaseUrls[provider];
+            if (key || (getAiProvider(provider)?.apiKeyOptional && baseUrl)) {
+                validateApiKeyNow(provider, key, { baseUrl });
             }
         });
     }, []); // Run only on initial mount to validate saved keys
@@ -2941,11 +4715,82 @@ const App = () => {
         const { name, value } = e.target;
         const provider = name.replace('ApiKey', '');
         setApiKeys(prev => ({ ...prev, [name]: value }));
-        validateApiKey(provider, value);
+        validateApiKey(provider, value, { baseUrl: providerBaseUrls[provider] });
+    };
+
+    const handleProviderBaseUrlChange = (providerId: string, baseUrl: string) => {
+        setProviderBaseUrls(prev => ({ ...prev, [providerId]: baseUrl }));
+        validateApiKey(providerId, apiKeys[`${providerId}ApiKey`] || '', { baseUrl: baseUrl.trim() });
     };
     
-    const handleOpenrouterModelsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        setOpenrouterModels(e.target.value.split('\n').map(m => m.trim()).filter(Boolean));
+    const handleProviderModelsChange = (providerId: string, models: string[]) => {
+        setProviderModels(prev => ({ ...prev, [providerId]: models }));
+    };
+
+    const handleProviderFailoverChange = (index: number, providerId: string) => {
+        setProviderFailover(prev => {
+            const next = [...prev];
+            if (providerId) {
+                next[index] = providerId;
+            } else {
+                next.splice(index, 1);
+            }
+            return next.filter((id, i) => next.indexOf(id) === i);
+        });
+    };
+
+    const handleModelRouteChange = (promptKey: keyof typeof PROMPT_TEMPLATES, index: number, change: Partial<ModelRoute>) => {
+        setModelRouting(prev => {
+            const existing = prev[promptKey] || [];
+            const routes = Array.from({ length: Math.max(existing.length, index + 1) }, (_, i) => existing[i] || { provider: '', model: '' });
+            // Model names are provider-specific, so switching provider resets the model to that provider's default.
+            routes[index] = change.provider !== undefined && change.provider !== routes[index].provider
+                ? { provider: change.provider, model: '' }
+                : { ...routes[index], ...change };
+            return { ...prev, [promptKey]: routes };
+        });
+    };
+
+    const handleModelPriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        setModelPrices(prev => ({ ...prev, [model]: { ...prev[model], [field]: isNaN(parsed) ? 0 : parsed } }));
+    };
+
+    const handleAddModelPrice = () => {
+        const model = newPriceModel.trim();
+        if (!model || modelPrices[model]) return;
+        setModelPrices(prev => ({ ...prev, [model]: { input: 0, output: 0 } }));
+        setNewPriceModel('');
+    };
+
+    const handleRemoveModelPrice = (model: string) => {
+        setModelPrices(prev => {
+            const { [model]: _removed, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleNavClick = useCallback((view: string) => {
+        if (view !== activeView && activeView === 'prompts' && hasUnsavedPrompt && !window.confirm('Discard unsaved changes to this prompt?')) return;
+        setActiveView(view);
+    }, [activeView, hasUnsavedPrompt]);
+
+    const updateActiveProject = useCallback((updater: (project: ProjectSettings) => ProjectSettings) => {
+        setProjects(prev => prev.map(project => project.id === activeProject.id ? updater(project) : project));
+    }, [activeProject.id]);
+
+    const handleAddProject = () => {
+        const project = createProject(`Project ${projects.length + 1}`);
+        setProjects(prev => [...prev, project]);
+        setActiveProjectId(project.id);
+    };
+
+    const handleDeleteProject = () => {
+        if (projects.length <= 1) return;
+        if (!window.confirm(`Delete the project "${activeProject.name}" and all of its prompt overrides?`)) return;
+        const remaining = projects.filter(project => project.id !== activeProject.id);
+        setProjects(remaining);
+        setActiveProjectId(remaining[0].id);
     };
 
     const handleHubSort = (key: string) => {
@@ -3013,7 +4858,11 @@ const App = () => {
                             .replace(/\s+/g, ' ')
                             .trim();
                         
-                        setExistingPages(prev => prev.map(p => p.id === page.id ? { ...p, title, crawledContent: bodyText } : p));
+                        // Only freshly fetched HTML has headings; a cached crawl is plain text, so keep the old ones.
+                        const headings = (pageHtml.match(/<h[1-3]\b[^>]*>[\s\S]*?<\/h[1-3]>/gi) || [])
+                            .map(heading => heading.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim())
+                            .filter(heading => heading.length > 0);
+                        setExistingPages(prev => prev.map(p => p.id === page.id ? { ...p, title, crawledContent: bodyText, headings: headings.length > 0 ? headings : p.headings } : p));
 
                         if (bodyText.length < 100) {
                             throw new Error("Content is too thin for analysis.");
@@ -3056,7 +4905,11 @@ const App = () => {
         }
     };
 
-    const handlePlanRewrite = (page: SitemapPage) => {
+    /**
+     * Plans a rewrite of an existing page. From the Review table, `replacingItemId` swaps a planned
+     * item that would compete with the page for the rewrite and keeps the rest of the batch.
+     */
+    const handlePlanRewrite = (page: SitemapPage, replacingItemId?: string) => {
         const newItem: ContentItem = { 
             id: page.id, // Use stable ID
             title: sanitizeTitle(page.title, page.slug), 
@@ -3068,6 +4921,10 @@ const App = () => {
             crawledContent: page.crawledContent,
             analysis: page.analysis,
         };
+        if (replacingItemId) {
+            dispatch({ type: 'REPLACE_ITEM', payload: { id: replacingItemId, item: newItem } });
+            return;
+        }
         dispatch({ type: 'SET_ITEMS', payload: [newItem] });
         setActiveView('review');
     };
@@ -3227,8 +5084,9 @@ const App = () => {
 
     // --- Image Generation Logic ---
     const handleGenerateImages = async () => {
+        const geminiProvider = getAiProvider('gemini');
         const geminiClient = apiClients.gemini;
-        if (!geminiClient || apiKeyStatus.gemini !== 'valid') {
+        if (!geminiProvider?.generateImages || !geminiClient || apiKeyStatus.gemini !== 'valid') {
             setImageGenerationError('Please enter a valid Gemini API key in Step 1 to generate images.');
             return;
         }
@@ -3242,17 +5100,12 @@ const App = () => {
         setImageGenerationError('');
 
         try {
-            const geminiResponse = await callAiWithRetry(() => geminiClient.models.generateImages({
-                model: AI_MODELS.GEMINI_IMAGEN,
-                prompt: imagePrompt,
-                config: {
-                    numberOfImages: numImages,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
-                },
-            }));
-            const imagesData = geminiResponse.generatedImages.map(img => ({
-                src: `data:image/jpeg;base64,${img.image.imageBytes}`,
+            const imageSources = await geminiProvider.generateImages(geminiClient, imagePrompt, {
+                numberOfImages: numImages,
+                aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
+            });
+            const imagesData = imageSources.map(src => ({
+                src,
                 prompt: imagePrompt
             }));
             
@@ -3325,6 +5178,44 @@ const App = () => {
         return sorted;
     }, [items, filter, sortConfig]);
 
+    // The near-duplicate index covers crawled pages and generated articles. It is keyed on their
+    // ids and lengths, so status updates during a run don't rebuild it.
+    const similarityCorpusKey = [
+        ...existingPages.filter(page => page.crawledContent).map(page => `${page.id}:${page.crawledContent!.length}`),
+        ...items.filter(item => item.generatedContent).map(item => `${item.id}:${item.generatedContent!.content.length}`),
+    ].join('|');
+    const similarityIndex = useMemo(() => buildSimilarityIndex([
+        ...existingPages.filter(page => page.crawledContent).map(page => ({ id: page.id, title: page.title, url: page.id, kind: 'page' as const, text: page.crawledContent! })),
+        ...items.filter(item => item.generatedContent).map(item => ({ id: item.id, title: item.generatedContent!.title || item.title, kind: 'item' as const, text: stripHtmlTags(item.generatedContent!.content) })),
+    ]), [similarityCorpusKey]);
+    const similarityReports = useMemo(() => new Map(items
+        .filter(item => item.generatedContent)
+        .map(item => [item.id, checkSimilarity(item.generatedContent!.content, similarityIndex, [item.id, item.originalUrl])])
+    ), [similarityIndex]);
+
+    // Planned items are checked against the crawled pages and each other. Like the similarity index,
+    // this is keyed on what it reads so status updates during a run don't recompute it.
+    const cannibalizationKey = [
+        ...existingPages.map(page => `${page.id}:${page.title}:${page.healthScore}:${page.isStale}:${page.headings?.length ?? 0}`),
+        ...items.map(item => `${item.id}:${item.title}:${item.generatedContent?.primaryKeyword ?? ''}`),
+    ].join('|');
+    const cannibalization = useMemo(() => findCannibalization(
+        items.filter(item => item.type !== 'link-optimizer').map(item => ({ id: item.id, title: item.title, primaryKeyword: item.generatedContent?.primaryKeyword, originalUrl: item.originalUrl })),
+        existingPages
+    ), [cannibalizationKey]);
+
+    // Usage totals for the most recent "Generate" batch.
+    const batchUsage = useMemo(() => {
+        const batchIds = new Set(generationProgress.itemIds);
+        return items.filter(item => batchIds.has(item.id) && item.usage).reduce<ItemUsage>((total, item) => ({
+            promptTokens: total.promptTokens + item.usage!.promptTokens,
+            completionTokens: total.completionTokens + item.usage!.completionTokens,
+            cost: total.cost + item.usage!.cost,
+            calls: total.calls + item.usage!.calls,
+            unpricedCalls: total.unpricedCalls + item.usage!.unpricedCalls,
+        }), { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0, unpricedCalls: 0 });
+    }, [items, generationProgress.itemIds]);
+
     const handleSort = (key: string) => {
         let direction: 'asc' | 'desc' = 'asc';
         if (sortConfig.key === key && sortConfig.direction === 'asc') {
@@ -3336,23 +5227,86 @@ const App = () => {
     const handleGenerateSingle = (item: ContentItem) => {
         stopGenerationRef.current.delete(item.id);
         setIsGenerating(true);
-        setGenerationProgress({ current: 0, total: 1 });
+        setGenerationProgress({ current: 0, total: 1, itemIds: [item.id] });
         generateContent([item]);
     };
 
+    const handleRestartGeneration = async (item: ContentItem) => {
+        await clearCheckpoint(item.id);
+        handleGenerateSingle(item);
+    };
+
+    const handleOpenOutlineReview = async (item: ContentItem) => {
+        const checkpoint = await loadCheckpoint(item.id);
+        if (!checkpoint?.outline) {
+            // The checkpoint is gone (e.g. expired), so there is nothing to review.
+            dispatch({ type: 'SET_CHECKPOINT', payload: { id: item.id, resumeFrom: undefined } });
+            return;
+        }
+        setOutlineReview({ item, outline: checkpoint.outline });
+    };
+
+    const handleApproveOutline = async (item: ContentItem, outline: ArticleOutline) => {
+        const checkpoint = await loadCheckpoint(item.id);
+        if (!checkpoint) return;
+        await saveCheckpoint({ ...checkpoint, outline, outlineApproved: true });
+        dispatch({ type: 'SET_CHECKPOINT', payload: { id: item.id, resumeFrom: item.resumeFrom, awaitingOutlineApproval: false } });
+        setOutlineReview(null);
+        handleGenerateSingle(item);
+    };
+
+    const handleRegenerateOutline = (item: ContentItem) => {
+        setOutlineReview(null);
+        handleRestartGeneration(item);
+    };
+
     const handleGenerateSelected = () => {
         stopGenerationRef.current.clear();
-        const itemsToGenerate = items.filter(item => selectedItems.has(item.id));
+        // Translations are redone from their original with Retry Translation, never written from their title.
+        const selected = items.filter(item => selectedItems.has(item.id) && !item.translationOf);
+        // Items that target the same keyword as an existing page or an earlier item are left out of
+        // bulk runs. Generating one on its own is the deliberate override.
+        const duplicates = selected.filter(item => item.status !== 'done' && cannibalization.get(item.id)?.some(conflict => conflict.blocking));
+        const itemsToGenerate = selected.filter(item => !duplicates.includes(item));
+        if (duplicates.length > 0) {
+            const list = duplicates.map(item => `- ${item.title} (${cannibalization.get(item.id)!.find(conflict => conflict.blocking)!.targetTitle})`).join('\n');
+            const message = `These items target the same keyword as an existing page or another item and will be skipped:\n${list}\n\nUse their own Generate button to generate them anyway.`;
+            if (itemsToGenerate.length === 0) {
+                alert(message);
+                return;
+            }
+            if (!window.confirm(`${message}\n\nGenerate the other ${itemsToGenerate.length} item(s)?`)) return;
+        }
         if (itemsToGenerate.length > 0) {
             setIsGenerating(true);
-            setGenerationProgress({ current: 0, total: itemsToGenerate.length });
+            setGenerationProgress({ current: 0, total: itemsToGenerate.length, itemIds: itemsToGenerate.map(item => item.id) });
             generateContent(itemsToGenerate);
         }
     };
     
+    /**
+     * Updates an item's live preview. Streaming calls this for every chunk, so updates are
+     * throttled unless `force` is set.
+     */
+    const updateLiveDraft = useCallback((itemId: string, title: string, html: string, force = false) => {
+        const now = Date.now();
+        if (!force && now - (liveDraftUpdatedAtRef.current.get(itemId) || 0) < LIVE_PREVIEW_THROTTLE_MS) return;
+        liveDraftUpdatedAtRef.current.set(itemId, now);
+        setLiveDrafts(prev => ({ ...prev, [itemId]: { title, html } }));
+    }, []);
+
+    const clearLiveDraft = useCallback((itemId: string) => {
+        liveDraftUpdatedAtRef.current.delete(itemId);
+        setLiveDrafts(prev => {
+            const { [itemId]: _cleared, ...rest } = prev;
+            return rest;
+        });
+    }, []);
+
      const handleStopGeneration = (itemId: string | null = null) => {
         if (itemId) {
             stopGenerationRef.current.add(itemId);
+            generationAbortRef.current.get(itemId)?.abort();
              dispatch({
                 type: 'UPDATE_STATUS',
                 payload: { id: itemId, status: 'idle', statusText: 'Stopped by user' }
@@ -3362,6 +5316,7 @@ const App = () => {
             items.forEach(item => {
                 if (item.status === 'generating') {
                     stopGenerationRef.current.add(item.id);
+                    generationAbortRef.current.get(item.id)?.abort();
                      dispatch({
                         type: 'UPDATE_STATUS',
                         payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' }
@@ -3372,218 +5327,774 @@ const App = () => {
         }
     };
 
-    const generateImageWithFallback = async (prompt: string): Promise<string | null> => {
-        // Priority 1: OpenAI DALL-E 3
-        if (apiClients.openai && apiKeyStatus.openai === 'valid') {
-            try {
-                console.log("Attempting image generation with OpenAI DALL-E 3...");
-                const openaiImgResponse = await callAiWithRetry(() => apiClients.openai!.images.generate({ model: AI_MODELS.OPENAI_DALLE3, prompt, n: 1, size: '1792x1024', response_format: 'b64_json' }));
-                const base64Image = openaiImgResponse.data[0].b64_json;
-                if (base64Image) {
-                    console.log("OpenAI image generation successful.");
-                    return `data:image/png;base64,${base64Image}`;
-                }
-            } catch (error: any) {
-                console.warn("OpenAI image generation failed, falling back to Gemini.", error);
-            }
-        }
+    const generateImageWithFallback = useCallback(async (prompt: string): Promise<string | null> => {
+        // Try every image-capable provider with a valid key, in priority order (DALL-E 3 first, then Imagen).
+        const imageProviders = listAiProviders()
+            .filter(provider => provider.generateImages && apiClients[provider.id] && apiKeyStatus[provider.id] === 'valid')
+            .sort((a, b) => (a.imagePriority ?? Infinity) - (b.imagePriority ?? Infinity));
 
-        // Priority 2: Gemini Imagen
-        if (apiClients.gemini && apiKeyStatus.gemini === 'valid') {
+        for (const provider of imageProviders) {
             try {
-                 console.log("Attempting image generation with Google Gemini Imagen...");
-                 const geminiImgResponse = await callAiWithRetry(() => apiClients.gemini!.models.generateImages({ model: AI_MODELS.GEMINI_IMAGEN, prompt: prompt, config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio: '16:9' } }));
-                 const base64Image = geminiImgResponse.generatedImages[0].image.imageBytes;
-                 if (base64Image) {
-                    console.log("Gemini image generation successful.");
-                    return `data:image/jpeg;base64,${base64Image}`;
-                 }
+                console.log(`Attempting image generation with ${provider.label}...`);
+                const [imageSrc] = await provider.generateImages!(apiClients[provider.id], prompt, { numberOfImages: 1, aspectRatio: '16:9' });
+                if (imageSrc) {
+                    console.log(`${provider.label} image generation successful.`);
+                    return imageSrc;
+                }
             } catch (error: any) {
-                 console.error("Gemini image generation also failed.", error);
+                console.warn(`${provider.label} image generation failed, trying the next provider.`, error);
             }
         }
         
         console.error("All image generation services failed or are unavailable.");
         return null;
-    };
+    }, [apiClients, apiKeyStatus]);
     
     const callAI = useCallback(async (
         promptKey: keyof typeof PROMPT_TEMPLATES,
         promptArgs: any[],
         responseFormat: 'json' | 'html' = 'json',
-        useGrounding: boolean = false
+        useGrounding: boolean = false,
+        options: CallAIOptions = {}
     ): Promise<string> => {
-        const client = apiClients[selectedModel as keyof typeof apiClients];
-        if (!client) throw new Error(`API Client for '${selectedModel}' not initialized.`);
+        const { itemId, onStream, signal, onUsage, log, runUsage } = options;
+        // Candidates in order: the stage's routes, the primary provider, then the failover chain.
+        // Only providers with an initialized client are tried.
+        const routes = options.route ? [options.route] : (modelRouting[promptKey] || []).filter(route => route.provider);
+        const fallbacks = options.route ? [] : [{ provider: selectedModel, model: '' }, ...providerFailover.map(provider => ({ provider, model: '' }))];
+        const candidates = [...routes, ...fallbacks]
+            .filter((candidate, i, all) => all.findIndex(other => other.provider === candidate.provider && other.model === candidate.model) === i)
+            .filter(candidate => getAiProvider(candidate.provider) && apiClients[candidate.provider]);
+        if (candidates.length === 0) throw new Error(`API Client for '${options.route?.provider || selectedModel}' not initialized.`);
+        if (routes.length > 0 && candidates[0] !== routes[0]) {
+            console.warn(`[Routing] '${routes[0].provider}' is not initialized for '${promptKey}'. Using '${candidates[0].provider}' instead.`);
+            log?.('warn', `'${routes[0].provider}' is not initialized for '${promptKey}'. Using '${candidates[0].provider}' instead.`, { promptKey });
+        }
 
         const template = PROMPT_TEMPLATES[promptKey];
+        // The active project's override, if any, replaces the built-in instruction.
+        const instruction = options.promptOverrides?.[promptKey] ?? activeProject.promptOverrides[promptKey]?.text ?? template.systemInstruction;
+        const baseInstruction = applyPromptVariables(instruction, activeProject.promptVariables)
+            + (STYLE_GUIDE_PROMPT_KEYS.includes(promptKey) ? formatStyleGuideForPrompt(activeProject.styleGuide) : '')
+            + formatLanguageForPrompt(options.language || activeProject.language);
         // Geo-targeting replacement is only relevant for the cluster planner
         const systemInstruction = (promptKey === 'cluster_planner') 
-            ? template.systemInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', (geoTargeting.enabled && geoTargeting.location) ? `All titles must be geo-targeted for "${geoTargeting.location}".` : '')
-            : template.systemInstruction;
+            ? baseInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', (geoTargeting.enabled && geoTargeting.location) ? `All titles must be geo-targeted for "${geoTargeting.location}".` : '')
+            : baseInstruction;
             
         // @ts-ignore
         const userPrompt = template.userPrompt(...promptArgs);
+        const responseSchema = responseFormat === 'json' ? getPromptSchema(promptKey) : undefined;
+
+        let lastError: Error | null = null;
+        for (const [attempt, route] of candidates.entries()) {
+            const provider = getAiProvider(route.provider)!;
+            const client = apiClients[route.provider];
+            const groundedRequest = useGrounding && !!provider.supportsGrounding;
+            // Without native structured output the model only sees the schema if it is in the prompt.
+            const schemaInPrompt = responseSchema && (!provider.supportsStructuredOutput || groundedRequest);
+            const request: AiGenerateRequest = {
+                promptKey,
+                systemInstruction: schemaInPrompt ? `${systemInstruction}\n\n**REQUIRED JSON SCHEMA:** Your JSON MUST validate against this schema:\n${JSON.stringify(responseSchema)}` : systemInstruction,
+                userPrompt,
+                models: route.model ? [route.model] : providerModels[route.provider] || [],
+                useGrounding: groundedRequest,
+                responseSchema,
+                signal,
+                onRetry: log && ((failedAttempt, delayMs, error) => log('warn', `'${promptKey}' request to '${route.provider}' failed (attempt ${failedAttempt}). Retrying in ${Math.round(delayMs / 1000)}s.`, { promptKey, provider: route.provider, retry: failedAttempt, delayMs, error: error?.message })),
+            };
+            const generate = async (currentRequest: AiGenerateRequest) => {
+                let streamedText = '';
+                const completion = responseFormat === 'json'
+                    ? await provider.generateJson(client, currentRequest)
+                    : onStream && provider.streamText
+                        ? await provider.streamText(client, currentRequest, delta => { streamedText += delta; onStream(streamedText); })
+                        : await provider.generateText(client, currentRequest);
+                const cost = completion.usage ? estimateCost(completion.model, completion.usage, modelPrices) : null;
+                if (itemId) {
+                    dispatch({ type: 'ADD_USAGE', payload: { id: itemId, usage: completion.usage, cost, provider: completion.text ? route.provider : undefined } });
+                }
+                if (runUsage) {
+                    runUsage.tokens += (completion.usage?.promptTokens || 0) + (completion.usage?.completionTokens || 0);
+                    runUsage.cost += cost || 0;
+                }
+                onUsage?.(completion.usage, cost);
+                if (!completion.text) {
+                    throw new Error(`AI returned an empty response for the '${promptKey}' stage.`);
+                }
+                return completion.text;
+            };
+
+            try {
+                let responseText = await generate(request);
+
+                // Validate JSON responses against the prompt's schema, re-prompting with the errors on failure.
+                if (responseSchema) {
+                    for (let repair = 0; ; repair++) {
+                        let errors: string[];
+                        try {
+                            const parsed = JSON.parse(extractJson(responseText));
+                            errors = validateJsonSchema(parsed, responseSchema);
+                            if (errors.length === 0) {
+                                responseText = JSON.stringify(parsed);
+                                break;
+                            }
+                        } catch (parseError: any) {
+                            errors = [`The response is not valid JSON: ${parseError.message}`];
+                        }
+                        if (repair >= MAX_SCHEMA_REPAIR_ATTEMPTS) {
+                            throw new Error(`'${promptKey}' response failed validation after ${repair} repair attempt(s): ${errors.slice(0, 3).join(' ')}`);
+                        }
+                        console.warn(`[Schema] '${promptKey}' response from '${route.provider}' is invalid (${errors.length} error(s)). Re-prompting...`, errors);
+                        log?.('warn', `'${promptKey}' response from '${route.provider}' failed schema validation. Re-prompting.`, { promptKey, provider: route.provider, repair: repair + 1, errors: errors.slice(0, 5) });
+                        responseText = await generate({ ...request, userPrompt: buildSchemaRepairPrompt(userPrompt, responseText, errors) });
+                    }
+                }
+
+                if (attempt > 0) {
+                    console.warn(`[Failover] '${promptKey}' was answered by '${route.provider}' after ${attempt} failed provider(s).`);
+                    log?.('info', `'${promptKey}' was answered by '${route.provider}' after ${attempt} failed provider(s).`, { promptKey, provider: route.provider, failedProviders: attempt });
+                }
+                return responseText;
+            } catch (error: any) {
+                if (signal?.aborted || isAbortError(error)) throw error;
+                const next = candidates[attempt + 1];
+                console.error(`[Failover] '${route.provider}' failed for '${promptKey}'.${next ? ` Trying '${next.provider}'...` : ''}`, error);
+                log?.('error', `'${route.provider}' failed for '${promptKey}'.${next ? ` Trying '${next.provider}'.` : ''}`, { promptKey, provider: route.provider, error: error?.message });
+                lastError = error;
+            }
+        }
+        throw lastError || new Error(`All providers failed for the '${promptKey}' stage.`);
+    }, [apiClients, selectedModel, modelRouting, providerFailover, geoTargeting, providerModels, modelPrices, useGoogleSearch, activeProject]);
+
+
+    const generateEeatAuthorBoxHtml = useCallback((
+        siteInfo: SiteInfo, 
+        articleFormat: 'standard' | 'scientific' = 'standard',
+        language: LanguageCode = DEFAULT_LANGUAGE
+    ): string => {
+        const { authorName, authorUrl, authorCredentials, expertReviewers } = siteInfo;
+        const strings = getLocaleStrings(language);
+        const formattedDate = formatLocalizedDate(new Date(), language);
+    
+        const authorHtml = authorName ? `
+            <div class="fact-check-card author-card">
+                <div class="card-icon">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>
+                </div>
+                <div class="card-content">
+                    <span class="card-label">${strings.writtenBy}</span>
+                    <span class="card-title">${authorUrl ? `<a href="${authorUrl}" target="_blank" rel="noopener noreferrer">${authorName}</a>` : authorName}</span>
+                    ${authorCredentials ? `<span class="card-subtitle">${authorCredentials}</span>` : ''}
+                </div>
+            </div>
+        ` : '';
+    
+        const reviewersHtml = (expertReviewers && expertReviewers.filter(r => r && r.name).length > 0) ? `
+            <div class="fact-check-card reviewer-card">
+                <div class="card-icon">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="9 11 12 14 22 4"></polyline><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path></svg>
+                </div>
+                <div class="card-content">
+                    <span class="card-label">${strings.factCheckedBy}</span>
+                    ${expertReviewers.filter(r => r && r.name).map(reviewer => `
+                        <div>
+                            <span class="card-title">${reviewer.name}</span>
+                            ${reviewer.credentials ? `<span class="card-subtitle">${reviewer.credentials}</span>` : ''}
+                        </div>
+                    `).join('')}
+                </div>
+            </div>
+        ` : '';
+    
+        const commitmentText = articleFormat === 'scientific' ? strings.commitmentScientific : strings.commitmentStandard;
+    
+        return `
+    <aside class="sota-fact-check-protocol">
+        <div class="protocol-header">
+            <h3 class="protocol-title">
+                <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>
+                <span>${strings.protocolTitle}</span>
+            </h3>
+            <div class="protocol-meta">
+                <span>${strings.published} ${formattedDate}</span>
+                <span>${strings.lastUpdated} ${formattedDate}</span>
+            </div>
+        </div>
+        <div class="protocol-grid">
+            ${authorHtml}
+            ${reviewersHtml}
+        </div>
+        <div class="protocol-commitment">
+            <p><strong>${strings.commitmentLabel}</strong> ${commitmentText}</p>
+        </div>
+    </aside>
+    `;
+    }, []);
+
+
+    /**
+     * Runs the full article pipeline (SERP research, outline, sections, FAQs, references, images
+     * and quality gates) for one item and returns the finished content. Where status, drafts and
+     * usage are reported is up to the caller, so bulk generation and prompt experiments share it.
+     * @throws {ContentTooShortError} When the article fails the word count gate.
+     * @throws {GenerationStoppedError} When the run is stopped between stages.
+     */
+    const writeArticle = useCallback(async (item: ContentItem, run: ArticleRun): Promise<GeneratedContent> => {
+        let semanticKeywords: string[] | null = null;
+        let serpData: any[] | null = null;
+        let peopleAlsoAsk: string[] | null = null;
+        let youtubeVideos: any[] | null = null;
         
-        let responseText: string | null = '';
+        const currentArticleFormat = item.articleFormat || 'standard';
+        const language = item.language || activeProject.language;
+        const strings = getLocaleStrings(language);
+
+        let logStage = 'Setup';
+        const log: RunLogger = (level, message, details) => run.onLog?.({ timestamp: new Date().toISOString(), stage: logStage, level, message, details });
+        const callOptions: CallAIOptions = { ...run.callOptions, language, log };
+        const startStage = (stage: string, statusText: string) => {
+            logStage = stage;
+            run.onStatus(statusText);
+            log('info', statusText);
+        };
+
+        const savedCheckpoint = run.onCheckpoint ? await loadCheckpoint(item.id) : null;
+        const checkpoint = savedCheckpoint?.itemTitle === item.title ? savedCheckpoint : createCheckpoint(item.id, item.title);
+        const saveProgress = async () => {
+            if (!run.onCheckpoint) return;
+            await saveCheckpoint(checkpoint);
+            run.onCheckpoint(checkpoint);
+        };
+        if (checkpoint.research) {
+            run.onStatus(`Resuming from checkpoint (${describeCheckpoint(checkpoint)})...`);
+            log('info', `Resuming from checkpoint (${describeCheckpoint(checkpoint)}).`, { checkpointUpdatedAt: checkpoint.updatedAt });
+            ({ semanticKeywords, serpData, peopleAlsoAsk, youtubeVideos } = checkpoint.research);
+        }
+
+        // --- STAGE 1: SERP & Keyword Intelligence ---
+        if (!checkpoint.research && apiKeys.serperApiKey && apiKeyStatus.serper === 'valid') {
+            startStage('Research', 'Stage 1/5: Fetching SERP Data...');
+            const cacheKey = `serp-${language}-${item.title}`;
+            const cachedSerp = apiCache.get(cacheKey);
+
+            if (cachedSerp) {
+                 serpData = cachedSerp.serpData;
+                 youtubeVideos = cachedSerp.youtubeVideos?.slice(0, run.requirements.youtubeEmbeds) || null;
+                 peopleAlsoAsk = cachedSerp.peopleAlsoAsk;
+            } else {
+                try {
+                    const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
+                        method: 'POST',
+                        headers: { 'X-API-KEY': apiKeys.serperApiKey as string, 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ q: item.title, hl: language })
+                    });
+                    if (!serperResponse.ok) throw new Error(`Serper API failed with status ${serperResponse.status}`);
+                    const serperJson = await serperResponse.json();
+                    serpData = serperJson.organic ? serperJson.organic.slice(0, 10) : [];
+                    peopleAlsoAsk = serperJson.peopleAlsoAsk ? serperJson.peopleAlsoAsk.map((p: any) => p.question) : [];
+                    
+                    const videoCandidates = new Map<string, any>();
+                    // Profiles without videos skip the video searches entirely.
+                    const videoQueries = run.requirements.youtubeEmbeds > 0 ? [`"${item.title}" tutorial`, `how to ${item.title}`, item.title] : [];
 
-        switch (selectedModel) {
-            case 'gemini':
-                 const geminiConfig: { systemInstruction: string; responseMimeType?: string; tools?: any[] } = { systemInstruction };
-                if (responseFormat === 'json') {
-                    geminiConfig.responseMimeType = "application/json";
+                    for (const query of videoQueries) {
+                        if (videoCandidates.size >= 10) break;
+                        try {
+                            const videoResponse = await fetchWithProxies("https://google.serper.dev/videos", {
+                                method: 'POST', headers: { 'X-API-KEY': apiKeys.serperApiKey as string, 'Content-Type': 'application/json' }, body: JSON.stringify({ q: query, hl: language })
+                            });
+                            if (videoResponse.ok) {
+                                const json = await videoResponse.json();
+                                for (const v of (json.videos || [])) {
+                                    const videoId = extractYouTubeID(v.link);
+                                    if (videoId && !videoCandidates.has(videoId)) videoCandidates.set(videoId, { ...v, videoId });
+                                }
+                            }
+                        } catch (e) {
+                            console.warn(`Video search failed for "${query}".`, e);
+                            log('warn', `Video search failed for "${query}".`, { error: (e as Error).message });
+                        }
+                    }
+                    youtubeVideos = run.requirements.youtubeEmbeds > 0 ? getUniqueYoutubeVideos(Array.from(videoCandidates.values()), run.requirements.youtubeEmbeds) : null;
+                    apiCache.set(cacheKey, { serpData, youtubeVideos, peopleAlsoAsk });
+                } catch (serpError) {
+                    console.error("Failed to fetch SERP data:", serpError);
+                    log('error', 'SERP data could not be fetched. Continuing without it.', { error: (serpError as Error).message });
                 }
-                 if (useGrounding) {
-                    geminiConfig.tools = [{googleSearch: {}}];
-                    if (geminiConfig.responseMimeType) {
-                        delete geminiConfig.responseMimeType;
+            }
+        }
+
+        if (!checkpoint.research) {
+            startStage('Research', 'Stage 1/5: Analyzing Topic...');
+            const skCacheKey = `sk-${item.title}`;
+            if (apiCache.get(skCacheKey)) {
+                semanticKeywords = apiCache.get(skCacheKey);
+            } else {
+                const skResponseText = await callAI('semantic_keyword_generator', [item.title], 'json', false, callOptions);
+                const parsedSk = JSON.parse(extractJson(skResponseText));
+                semanticKeywords = parsedSk.semanticKeywords;
+                apiCache.set(skCacheKey, semanticKeywords);
+            }
+            checkpoint.research = { semanticKeywords, serpData, peopleAlsoAsk, youtubeVideos };
+            await saveProgress();
+        }
+
+        if (run.isStopped()) throw new GenerationStoppedError();
+        run.assertWithinBudget();
+
+        // --- STAGE 2: Generate Metadata and Outline ---
+        if (!checkpoint.outline) {
+            startStage('Outline', 'Stage 2/5: Generating Article Outline...');
+            const outlineResponseText = await callAI('content_meta_and_outline', [item.title, semanticKeywords, serpData, peopleAlsoAsk, existingPages, item.crawledContent, item.analysis, currentArticleFormat, primaryData, run.requirements], 'json', useGoogleSearch, callOptions);
+            const parsedOutline: ArticleOutline = JSON.parse(extractJson(outlineResponseText));
+
+            // SOTA FIX: Sanitize the introduction and conclusion HTML that comes from the JSON payload.
+            if (parsedOutline.introduction) parsedOutline.introduction = sanitizeHtmlResponse(parsedOutline.introduction);
+            if (parsedOutline.conclusion) parsedOutline.conclusion = sanitizeHtmlResponse(parsedOutline.conclusion);
+            checkpoint.outline = parsedOutline;
+            await saveProgress();
+        }
+        const metaAndOutline = checkpoint.outline;
+
+        // Outline review: stop here until an editor approves. Outlines that already have written parts are not paused.
+        const hasWrittenParts = checkpoint.sections.length > 0 || checkpoint.faqAnswers.length > 0;
+        if (run.requireOutlineApproval && run.onCheckpoint && !checkpoint.outlineApproved && !hasWrittenParts) {
+            checkpoint.outlineApproved = false;
+            await saveProgress();
+            log('info', 'Paused for outline approval.', { sections: metaAndOutline.outline?.length ?? 0 });
+            throw new OutlineApprovalRequiredError();
+        }
+
+        // --- STAGE 3: Generate Sections and FAQ Answers ---
+        const sections: string[] = metaAndOutline.outline;
+        const faqs: { question: string }[] = metaAndOutline.faqSection || [];
+        // Text received so far for the sections and answers that are still streaming, by index.
+        const streamingSections = new Map<number, string>();
+        const streamingAnswers = new Map<number, string>();
+
+        /** The article body in outline order. Unwritten parts are left out; streaming ones show their partial text. */
+        const assembleBody = (): string[] => {
+            const parts: string[] = [];
+            if (metaAndOutline.introduction) parts.push(metaAndOutline.introduction);
+            if (metaAndOutline.keyTakeaways) parts.push(`<h3>${strings.keyTakeaways}</h3>\n<ul>\n${metaAndOutline.keyTakeaways.map((t: string) => `<li>${t}</li>`).join('\n')}\n</ul>`);
+
+            sections.forEach((heading, i) => {
+                const sectionHtml = checkpoint.sections[i] ?? (streamingSections.has(i) ? `<h2>${heading}</h2>${streamingSections.get(i)}` : undefined);
+                if (sectionHtml !== undefined) parts.push(sectionHtml);
+
+                // Embed YouTube videos at strategic points
+                if (youtubeVideos && youtubeVideos.length > 0 && currentArticleFormat === 'standard') {
+                    if (i === 1 && youtubeVideos[0]) { // After 2nd section
+                        parts.push(`<div class="video-container"><iframe width="100%" height="410" src="${youtubeVideos[0].embedUrl}" title="${youtubeVideos[0].title}" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>`);
+                    }
+                    if (i === Math.floor(sections.length / 2) && youtubeVideos[1]) { // In the middle
+                        parts.push(`<div class="video-container"><iframe width="100%" height="410" src="${youtubeVideos[1].embedUrl}" title="${youtubeVideos[1].title}" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>`);
                     }
                 }
-                const geminiResponse = await callAiWithRetry(() => (client as GoogleGenAI).models.generateContent({
-                    model: AI_MODELS.GEMINI_FLASH,
-                    contents: userPrompt,
-                    config: geminiConfig,
-                }));
-                responseText = geminiResponse.text;
-                break;
-            case 'openai':
-                const openaiResponse = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                    model: AI_MODELS.OPENAI_GPT4_TURBO,
-                    messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                    ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                }));
-                responseText = openaiResponse.choices[0].message.content;
-                break;
-            case 'openrouter':
-                let lastError: Error | null = null;
-                for (const modelName of openrouterModels) {
+            });
+
+            if (metaAndOutline.conclusion) parts.push(metaAndOutline.conclusion);
+
+            if (metaAndOutline.faqSection) {
+                parts.push(`<div class="faq-section"><h2>${strings.faq}</h2>`);
+                faqs.forEach((faq, i) => {
+                    if (checkpoint.faqAnswers[i] !== undefined) parts.push(`<h3>${faq.question}</h3>\n<p>${checkpoint.faqAnswers[i]}</p>`);
+                    else if (streamingAnswers.has(i)) parts.push(`<h3>${faq.question}</h3>\n${streamingAnswers.get(i)}`);
+                });
+                parts.push(`</div>`);
+            }
+            return parts;
+        };
+
+        const countWritten = () => [...checkpoint.sections, ...checkpoint.faqAnswers].filter(part => part !== undefined).length;
+        let firstWriteError: unknown = null;
+        const onPartWritten = async () => {
+            await saveProgress();
+            run.onStatus(`Stage 3/5: Writing sections and FAQ answers (${countWritten()} of ${sections.length + faqs.length} done)...`);
+            run.onDraft(assembleBody().join('\n\n'), true);
+        };
+
+        // Every section is given a summary of all the sections before it, so one worker writes the
+        // sections in outline order. FAQ answers don't need the summary and share the rest of the
+        // bounded pool. Rate limits are still handled per call by callAiWithRetry's backoff.
+        const writeSectionsInOrder = async () => {
+            for (let i = 0; i < sections.length; i++) {
+                if (run.isStopped() || firstWriteError !== null) return;
+                if (checkpoint.sections[i] !== undefined) continue;
+                const heading = sections[i];
+                run.assertWithinBudget();
+                const coveredSoFar = sections.slice(0, i)
+                    .map((earlierHeading, j) => summarizeSectionForContext(earlierHeading, checkpoint.sections[j].substring(`<h2>${earlierHeading}</h2>`.length)));
+                const sectionHtml = await callAI('write_article_section', [item.title, metaAndOutline.title, heading, existingPages, currentArticleFormat, primaryData, sections, coveredSoFar, run.requirements], 'html', false, {
+                    ...callOptions,
+                    onStream: partial => {
+                        streamingSections.set(i, partial);
+                        run.onDraft(assembleBody().join('\n\n'));
+                    },
+                });
+                streamingSections.delete(i);
+                checkpoint.sections[i] = `<h2>${heading}</h2>` + sanitizeHtmlResponse(sectionHtml);
+                await onPartWritten();
+            }
+        };
+        const writeTasks: (() => Promise<void>)[] = [
+            writeSectionsInOrder,
+            ...faqs.map((faq, i) => async () => {
+                if (checkpoint.faqAnswers[i] !== undefined) return;
+                run.assertWithinBudget();
+                const answerHtml = await callAI('write_faq_answer', [faq.question], 'html', false, {
+                    ...callOptions,
+                    onStream: partial => {
+                        streamingAnswers.set(i, partial);
+                        run.onDraft(assembleBody().join('\n\n'));
+                    },
+                });
+                streamingAnswers.delete(i);
+                checkpoint.faqAnswers[i] = sanitizeHtmlResponse(answerHtml).replace(/^<p>|<\/p>$/g, '');
+                await onPartWritten();
+            }),
+        ];
+
+        startStage('Writing', `Stage 3/5: Writing ${sections.length} sections and ${faqs.length} FAQ answers...`);
+        await processConcurrently(writeTasks, async task => {
+            try {
+                await task();
+            } catch (error) {
+                firstWriteError = firstWriteError ?? error;
+            }
+        }, run.concurrency, undefined, () => run.isStopped() || firstWriteError !== null);
+
+        if (run.isStopped()) throw new GenerationStoppedError();
+        // Finished sections are already checkpointed, so a failed run resumes with only the rest.
+        if (firstWriteError) throw firstWriteError;
+
+        // Repetition post-pass: sections can still repeat each other despite the summaries,
+        // so sections with a paragraph that repeats an earlier section are rewritten once.
+        if (!checkpoint.repetitionChecked) {
+            const duplicates = findDuplicateParagraphs(checkpoint.sections);
+            const sectionsToRewrite = [...new Set(duplicates.map(duplicate => duplicate.sectionIndex))].slice(0, MAX_DUPLICATE_REWRITES);
+            if (sectionsToRewrite.length > 0) {
+                startStage('Repetition', `Stage 3/5: Rewriting ${duplicates.length} repeated paragraph(s)...`);
+            }
+            for (const i of sectionsToRewrite) {
+                run.assertWithinBudget();
+                const headingHtml = `<h2>${sections[i]}</h2>`;
+                const repeats = duplicates.filter(duplicate => duplicate.sectionIndex === i);
+                const instruction = `Rewrite only the paragraphs below, which repeat earlier sections. Replace the repeated facts, stats and examples with new information specific to this heading.\n${repeats.map(repeat => `- "${repeat.paragraph}" (repeats "${sections[repeat.duplicateOfSection]}": "${repeat.duplicateOf}")`).join('\n')}`;
+                try {
+                    const rewrittenHtml = await callAI('rewrite_article_section', [item.title, metaAndOutline.title, sections[i], checkpoint.sections[i].substring(headingHtml.length), instruction, existingPages], 'html', false, callOptions);
+                    checkpoint.sections[i] = headingHtml + sanitizeHtmlResponse(rewrittenHtml);
+                    log('warn', `Rewrote "${sections[i]}" to remove ${repeats.length} repeated paragraph(s).`, { repair: 'repetition', section: sections[i], similarities: repeats.map(repeat => Number(repeat.similarity.toFixed(2))) });
+                    run.onDraft(assembleBody().join('\n\n'), true);
+                } catch (error) {
+                    if (run.isStopped()) throw new GenerationStoppedError();
+                    if (error instanceof BudgetExceededError) throw error;
+                    console.warn(`[Repetition] Could not rewrite "${sections[i]}". Keeping the original.`, error);
+                    log('warn', `Could not rewrite "${sections[i]}". Keeping the original.`, { error: (error as Error).message });
+                }
+            }
+            checkpoint.repetitionChecked = true;
+            await saveProgress();
+        }
+
+        // Expansion pass: an article under its minimum word count gets its thinnest sections expanded,
+        // plus new sections for content gaps while the profile allows more, then is re-counted.
+        // The word count gate in Stage 5 still has the final say.
+        if (currentArticleFormat === 'standard') {
+            const addedSections: string[] = [];
+            const expandedSections: { section: string; wordsBefore: number; wordsAfter: number }[] = [];
+            const wordsBeforeExpansion = countWords(assembleBody().join('\n\n'));
+            for (let attempt = (checkpoint.expansionAttempts ?? 0) + 1; attempt <= run.expansionAttempts; attempt++) {
+                const wordCount = countWords(assembleBody().join('\n\n'));
+                const shortfall = run.requirements.minWords - wordCount;
+                if (shortfall <= 0) break;
+
+                const sectionWordCounts = sections.map((heading, i) => countWords(checkpoint.sections[i].substring(`<h2>${heading}</h2>`.length)));
+                const plan = planExpansion(sectionWordCounts, shortfall, run.requirements);
+                startStage('Expansion', `Stage 3/5: Expanding the article, ${shortfall} words short (attempt ${attempt} of ${run.expansionAttempts})...`);
+                log('warn', `${wordCount} words, ${shortfall} short of the minimum. Expanding ${plan.expand.length} section(s) and adding ${plan.addSections}.`, { attempt, wordCount, minWords: run.requirements.minWords });
+
+                for (const { index, words, targetWords } of plan.expand) {
+                    run.assertWithinBudget();
+                    const headingHtml = `<h2>${sections[index]}</h2>`;
+                    const instruction = `Expand this section from about ${words} to about ${targetWords} words. Keep everything that is already there and add depth: concrete examples, steps, data and the questions a reader would ask next. Do not cover topics that belong to other sections of the outline: ${sections.filter((_, i) => i !== index).map(heading => `"${heading}"`).join(', ')}. Keep any [IMAGE_N_PLACEHOLDER] markers where they are.`;
                     try {
-                        console.log(`[OpenRouter] Attempting '${promptKey}' with model: ${modelName}`);
-                        const response = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                            model: modelName,
-                            messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                             ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                        }));
-                        const content = response.choices[0].message.content;
-                        if (!content) throw new Error("Empty response from model.");
-                        responseText = content;
-                        lastError = null; // Clear error on success
-                        break; // Success
-                    } catch (error: any) {
-                        console.error(`OpenRouter model '${modelName}' failed for '${promptKey}'. Trying next...`, error);
-                        lastError = error;
+                        const expandedHtml = await callAI('rewrite_article_section', [item.title, metaAndOutline.title, sections[index], checkpoint.sections[index].substring(headingHtml.length), instruction, existingPages], 'html', false, callOptions);
+                        const expandedBody = sanitizeHtmlResponse(expandedHtml);
+                        const wordsAfter = countWords(expandedBody);
+                        if (wordsAfter <= words) {
+                            log('warn', `The expansion of "${sections[index]}" came back shorter (${wordsAfter} words). Keeping the original.`);
+                            continue;
+                        }
+                        checkpoint.sections[index] = headingHtml + expandedBody;
+                        expandedSections.push({ section: sections[index], wordsBefore: words, wordsAfter });
+                        log('info', `Expanded "${sections[index]}" from ${words} to ${wordsAfter} words.`, { repair: 'expansion', attempt, section: sections[index], wordsBefore: words, wordsAfter });
+                        run.onDraft(assembleBody().join('\n\n'), true);
+                    } catch (error) {
+                        if (run.isStopped()) throw new GenerationStoppedError();
+                        if (error instanceof BudgetExceededError) throw error;
+                        console.warn(`[Expansion] Could not expand "${sections[index]}". Keeping the original.`, error);
+                        log('warn', `Could not expand "${sections[index]}". Keeping the original.`, { error: (error as Error).message });
                     }
                 }
-                if (lastError && !responseText) throw lastError;
-                break;
-            case 'groq':
-                 const groqResponse = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                    model: selectedGroqModel,
-                    messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                    ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                }));
-                responseText = groqResponse.choices[0].message.content;
-                break;
-            case 'anthropic':
-                const anthropicResponse = await callAiWithRetry(() => (client as Anthropic).messages.create({
-                    model: promptKey.includes('section') ? AI_MODELS.ANTHROPIC_HAIKU : AI_MODELS.ANTHROPIC_OPUS,
-                    max_tokens: 4096,
-                    system: systemInstruction,
-                    messages: [{ role: "user", content: userPrompt }],
-                }));
-                responseText = anthropicResponse.content.map(c => c.text).join("");
-                break;
+
+                if (plan.addSections > 0) {
+                    try {
+                        run.assertWithinBudget();
+                        const gapsResponseText = await callAI('suggest_gap_sections', [item.title, metaAndOutline.title, sections, plan.addSections, peopleAlsoAsk], 'json', false, callOptions);
+                        const { headings } = JSON.parse(extractJson(gapsResponseText));
+                        const newHeadings = (headings as string[])
+                            .filter(heading => !sections.some(existing => existing.toLowerCase() === heading.toLowerCase()))
+                            .slice(0, plan.addSections);
+                        for (const heading of newHeadings) {
+                            run.assertWithinBudget();
+                            const coveredSoFar = sections.map((earlierHeading, j) => summarizeSectionForContext(earlierHeading, checkpoint.sections[j].substring(`<h2>${earlierHeading}</h2>`.length)));
+                            const sectionHtml = await callAI('write_article_section', [item.title, metaAndOutline.title, heading, existingPages, currentArticleFormat, primaryData, [...sections, heading], coveredSoFar, run.requirements], 'html', false, callOptions);
+                            // `sections` is the checkpointed outline, so the new section is saved with it.
+                            sections.push(heading);
+                            checkpoint.sections[sections.length - 1] = `<h2>${heading}</h2>` + sanitizeHtmlResponse(sectionHtml);
+                            const sectionWords = countWords(sectionHtml);
+                            addedSections.push(heading);
+                            log('info', `Added the section "${heading}" (${sectionWords} words) for a content gap.`, { repair: 'expansion', attempt, addedSection: heading, words: sectionWords });
+                            run.onDraft(assembleBody().join('\n\n'), true);
+                        }
+                    } catch (error) {
+                        if (run.isStopped()) throw new GenerationStoppedError();
+                        if (error instanceof BudgetExceededError) throw error;
+                        console.warn('[Expansion] Could not add gap sections.', error);
+                        log('warn', 'Could not add sections for content gaps.', { error: (error as Error).message });
+                    }
+                }
+
+                checkpoint.expansionAttempts = attempt;
+                await saveProgress();
+            }
+            if (expandedSections.length > 0 || addedSections.length > 0) {
+                const wordsAfterExpansion = countWords(assembleBody().join('\n\n'));
+                log('info', `Expansion added ${wordsAfterExpansion - wordsBeforeExpansion} words: ${expandedSections.length} section(s) expanded, ${addedSections.length} added.`, { repair: 'expansion', wordsBefore: wordsBeforeExpansion, wordsAfter: wordsAfterExpansion, expandedSections, addedSections });
+            }
+        }
+
+        const contentParts = assembleBody();
+        const fullFaqData = faqs.map((faq, i) => ({ question: faq.question, answer: checkpoint.faqAnswers[i] }));
+
+        if (currentArticleFormat === 'standard' && checkpoint.references !== undefined) {
+            if (checkpoint.references) contentParts.push(checkpoint.references);
+        } else if (currentArticleFormat === 'standard') {
+            logStage = 'References';
+            run.assertWithinBudget();
+            try {
+                const referencesResponseText = await callAI('generate_references', [metaAndOutline.title], 'json', true, callOptions);
+                const { references } = JSON.parse(extractJson(referencesResponseText));
+                let referencesHtml = '';
+                if (references && references.length > 0) {
+                    referencesHtml = `<h2>${strings.references}</h2>\n<p>${strings.referencesIntro}</p>\n<ul>\n`;
+                    references.forEach((ref: { title: string, url: string }) => {
+                        referencesHtml += `<li><a href="${ref.url}" target="_blank" rel="noopener noreferrer">${ref.title}</a></li>\n`;
+                    });
+                    referencesHtml += '</ul>';
+                    contentParts.push(referencesHtml);
+                }
+                checkpoint.references = referencesHtml;
+                await saveProgress();
+            } catch (refError) {
+                console.warn("Failed to generate grounded references.", refError);
+                log('warn', 'References could not be generated. Continuing without them.', { error: (refError as Error).message });
+            }
+        }
+        
+        if (run.isStopped()) throw new GenerationStoppedError();
+        
+        // Scientific outlines use fixed English headings as keys; readers get them in the article's language.
+        let finalContent = currentArticleFormat === 'scientific' ? localizeScientificHeadings(contentParts.join('\n\n'), language) : contentParts.join('\n\n');
+        
+        // --- STAGE 4: Image Generation & Placement ---
+        startStage('Images', 'Stage 4/5: Generating Images...');
+        const updatedImageDetails = [...metaAndOutline.imageDetails];
+        for (let i = 0; i < updatedImageDetails.length; i++) {
+            if (run.isStopped() || !run.generateImages) break;
+            const imageDetail = updatedImageDetails[i];
+            try {
+                const generatedImageSrc = await generateImageWithFallback(imageDetail.prompt);
+                if (generatedImageSrc) {
+                    imageDetail.generatedImageSrc = generatedImageSrc;
+                    const imageHtml = `<figure class="wp-block-image size-large"><img src="${generatedImageSrc}" alt="${imageDetail.altText}" title="${imageDetail.title}"/><figcaption>${imageDetail.altText}</figcaption></figure>`;
+                    finalContent = finalContent.replace(imageDetail.placeholder, imageHtml);
+                } else {
+                     finalContent = finalContent.replace(imageDetail.placeholder, ''); // Remove placeholder if generation fails
+                     log('warn', `No image was generated for ${imageDetail.placeholder}. Placeholder removed.`);
+                }
+            } catch (imgError) {
+                console.error(`Failed to generate image for prompt: "${imageDetail.prompt}"`, imgError);
+                log('error', `Image generation failed for ${imageDetail.placeholder}. Placeholder removed.`, { prompt: imageDetail.prompt, error: (imgError as Error).message });
+                finalContent = finalContent.replace(imageDetail.placeholder, '');
+            }
+        }
+        finalContent = finalContent.replace(/\[IMAGE_\d_PLACEHOLDER\]/g, ''); // Clean up any remaining placeholders
+
+         // --- STAGE 5: Final Assembly & Quality Checks ---
+        startStage('Finalize', 'Stage 5/5: Finalizing...');
+        
+        // Link validation and quota enforcement
+        finalContent = sanitizeBrokenPlaceholders(finalContent);
+        finalContent = validateAndRepairInternalLinks(finalContent, existingPages, log);
+        finalContent = enforceInternalLinkQuota(finalContent, existingPages, metaAndOutline.primaryKeyword, run.requirements.minInternalLinks, log);
+        finalContent = processInternalLinks(finalContent, existingPages);
+        finalContent = enforceUniqueVideoEmbeds(finalContent, youtubeVideos || [], log);
+
+        // Humanization pass: paragraphs with banned phrases or overlong sentences are sent back
+        // with the exact fixes to make, then the article is re-scored.
+        if (run.humanizeRewrite && currentArticleFormat === 'standard') {
+            const before = checkHumanWritingScore(finalContent, undefined, language);
+            const flagged = groupFindingsByParagraph(before.findings).slice(0, MAX_HUMANIZED_PARAGRAPHS);
+            if (flagged.length > 0) {
+                startStage('Humanize', `Stage 5/5: Rewriting ${flagged.length} paragraph(s) flagged by the human writing check...`);
+                try {
+                    run.assertWithinBudget();
+                    const parts = flagged.map(paragraph => {
+                        const openingTag = paragraph.paragraphHtml.match(/^<[^>]+>/)![0];
+                        const closingTag = paragraph.paragraphHtml.match(/<\/\w+>$/)![0];
+                        return { openingTag, closingTag, innerHtml: paragraph.paragraphHtml.slice(openingTag.length, -closingTag.length) };
+                    });
+                    const responseText = await callAI('humanize_paragraphs', [metaAndOutline.primaryKeyword, flagged.map((paragraph, id) => ({ id, html: parts[id].innerHtml, issues: paragraph.issues }))], 'json', false, callOptions);
+                    const { paragraphs } = JSON.parse(extractJson(responseText));
+                    let rewrittenCount = 0;
+                    (paragraphs as { id: number; html: string }[]).forEach(({ id, html }) => {
+                        const paragraph = flagged[id];
+                        const rewritten = html?.trim();
+                        if (!paragraph || !rewritten) return;
+                        // A rewrite that drops or adds links would undo the link quota, so it is skipped.
+                        if ((rewritten.match(/<a\s/gi) || []).length !== (parts[id].innerHtml.match(/<a\s/gi) || []).length) {
+                            log('warn', `Skipped the rewrite of a paragraph in "${paragraph.section}" because it changed the links.`);
+                            return;
+                        }
+                        if (!finalContent.includes(paragraph.paragraphHtml)) return;
+                        finalContent = finalContent.replace(paragraph.paragraphHtml, () => parts[id].openingTag + rewritten + parts[id].closingTag);
+                        rewrittenCount++;
+                    });
+                    const after = checkHumanWritingScore(finalContent, undefined, language);
+                    log(after.humanScore >= before.humanScore ? 'info' : 'warn', `Rewrote ${rewrittenCount} of ${flagged.length} flagged paragraph(s). Human writing score: ${before.humanScore}% → ${after.humanScore}%.`, {
+                        repair: 'humanize',
+                        scoreBefore: before.humanScore,
+                        scoreAfter: after.humanScore,
+                        findingsBefore: before.findings.length,
+                        findingsAfter: after.findings.length,
+                        paragraphs: flagged.map(paragraph => ({ section: paragraph.section, issues: paragraph.issues })),
+                    });
+                } catch (error) {
+                    if (run.isStopped()) throw new GenerationStoppedError();
+                    if (error instanceof BudgetExceededError) throw error;
+                    console.warn('[Humanize] Could not rewrite the flagged paragraphs. Keeping the originals.', error);
+                    log('warn', 'Could not rewrite the flagged paragraphs. Keeping the originals.', { error: (error as Error).message });
+                }
+            }
+        }
+
+        // E-E-A-T Injections
+        const authorBoxHtml = generateEeatAuthorBoxHtml(siteInfo, currentArticleFormat, language);
+        finalContent = authorBoxHtml + finalContent;
+
+        // Word count enforcement (only for standard articles)
+        if (currentArticleFormat === 'standard') {
+            enforceWordCount(finalContent, run.requirements, log);
+            checkHumanWritingScore(finalContent, log, language);
+        }
+
+        // Style guide violations are reported, not fixed; the editor sees them in Rank Guardian.
+        if (!isStyleGuideEmpty(activeProject.styleGuide)) {
+            const articleText = stripHtmlTags(finalContent);
+            const violations = checkStyleGuide(articleText, activeProject.styleGuide, calculateFleschKincaidGrade(articleText, language));
+            violations.forEach(violation => log('warn', `Style guide: ${violation.message}`, { rule: violation.rule, count: violation.count, examples: violation.examples }));
+            if (violations.length === 0) log('info', 'The article follows the project style guide.');
+        }
+
+        // The prompts ask for easy reading; this checks it per section against the project's target.
+        if (currentArticleFormat === 'standard') {
+            const readability = analyzeReadability(finalContent, getTargetGrade(activeProject.styleGuide), findArticleSections(finalContent), language);
+            const hardSections = readability.sections.filter(section => section.level === 'hard');
+            log(readability.level === 'hard' ? 'warn' : 'info', `Readability: grade ${readability.averageGrade} (target ${readability.targetGrade}), ${readability.readingEaseFormula} ${readability.fleschReadingEase}, ${readability.passiveChecked ? `${Math.round(readability.passiveRatio * 100)}% passive, ` : ''}${readability.longParagraphs} long paragraph(s).`, {
+                fleschKincaidGrade: readability.fleschKincaidGrade,
+                gunningFog: readability.gunningFog,
+                smog: readability.smog,
+                colemanLiau: readability.colemanLiau,
+            });
+            hardSections.forEach(section => log('warn', `Section "${section.heading}" reads at grade ${section.grade}, above the target of ${readability.targetGrade}.`, { fleschReadingEase: section.fleschReadingEase }));
         }
 
-        if (!responseText) {
-            throw new Error(`AI returned an empty response for the '${promptKey}' stage.`);
+        // Claims are only listed here; the editor verifies them in the review modal's Claims tab.
+        const claims = extractClaims(finalContent);
+        if (claims.length > 0) {
+            const factsOfKind = (kind: Claim['facts'][number]['kind']) => claims.reduce((total, claim) => total + claim.facts.filter(fact => fact.kind === kind).length, 0);
+            log('info', `Found ${claims.length} sentence(s) with statistics, dates or studies to verify.`, { statistics: factsOfKind('statistic'), dates: factsOfKind('date'), studies: factsOfKind('study') });
         }
+        
+        const processedContent = normalizeGeneratedContent({
+            ...metaAndOutline,
+            content: finalContent,
+            imageDetails: updatedImageDetails,
+            serpData: serpData
+        }, item.title);
+        processedContent.language = language;
+        processedContent.styleGuide = activeProject.styleGuide;
+        
+        processedContent.jsonLdSchema = generateFullSchema(processedContent, wpConfig, siteInfo, fullFaqData, geoTargeting);
+        processedContent.content += generateSchemaMarkup(processedContent.jsonLdSchema);
+        processedContent.claims = claims;
+        return processedContent;
+    }, [apiKeys.serperApiKey, apiKeyStatus.serper, existingPages, wpConfig, siteInfo, callAI, generateImageWithFallback, generateEeatAuthorBoxHtml, geoTargeting, primaryData, useGoogleSearch, activeProject.styleGuide, activeProject.language]);
+
+    const clearCheckpoint = useCallback(async (itemId: string) => {
+        await deleteCheckpoint(itemId);
+        dispatch({ type: 'SET_CHECKPOINT', payload: { id: itemId, resumeFrom: undefined } });
+    }, []);
 
-        return responseText;
-    }, [apiClients, selectedModel, geoTargeting, openrouterModels, selectedGroqModel, useGoogleSearch]);
-
-
-    const generateEeatAuthorBoxHtml = (
-        siteInfo: SiteInfo, 
-        articleFormat: 'standard' | 'scientific' = 'standard'
-    ): string => {
-        const { authorName, authorUrl, authorCredentials, expertReviewers } = siteInfo;
-        const today = new Date();
-        const formattedDate = today.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-    
-        const authorHtml = authorName ? `
-            <div class="fact-check-card author-card">
-                <div class="card-icon">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>
-                </div>
-                <div class="card-content">
-                    <span class="card-label">Written & Researched By</span>
-                    <span class="card-title">${authorUrl ? `<a href="${authorUrl}" target="_blank" rel="noopener noreferrer">${authorName}</a>` : authorName}</span>
-                    ${authorCredentials ? `<span class="card-subtitle">${authorCredentials}</span>` : ''}
-                </div>
-            </div>
-        ` : '';
-    
-        const reviewersHtml = (expertReviewers && expertReviewers.filter(r => r && r.name).length > 0) ? `
-            <div class="fact-check-card reviewer-card">
-                <div class="card-icon">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="9 11 12 14 22 4"></polyline><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path></svg>
-                </div>
-                <div class="card-content">
-                    <span class="card-label">Independently Fact-Checked By</span>
-                    ${expertReviewers.filter(r => r && r.name).map(reviewer => `
-                        <div>
-                            <span class="card-title">${reviewer.name}</span>
-                            ${reviewer.credentials ? `<span class="card-subtitle">${reviewer.credentials}</span>` : ''}
-                        </div>
-                    `).join('')}
-                </div>
-            </div>
-        ` : '';
-    
-        const commitmentText = articleFormat === 'scientific' 
-            ? `This scientific article adheres to rigorous standards of academic integrity. The methodology is transparent, the data is verifiable, and all conclusions are based on empirical analysis. Every claim is fact-checked against primary data and peer-reviewed literature to ensure the highest degree of accuracy.`
-            : `This content is grounded in the principles of journalistic integrity. Every claim is fact-checked against the latest available data, and the entire article has been rigorously reviewed by a panel of distinguished experts. Our commitment is to provide information that is not only actionable but also verifiable, trustworthy, and accurate.`;
-    
-        return `
-    <aside class="sota-fact-check-protocol">
-        <div class="protocol-header">
-            <h3 class="protocol-title">
-                <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path></svg>
-                <span>E-E-A-T & Credibility Protocol</span>
-            </h3>
-            <div class="protocol-meta">
-                <span>Published: ${formattedDate}</span>
-                <span>Last Updated: ${formattedDate}</span>
-            </div>
-        </div>
-        <div class="protocol-grid">
-            ${authorHtml}
-            ${reviewersHtml}
-        </div>
-        <div class="protocol-commitment">
-            <p><strong>Our Commitment to Accuracy:</strong> ${commitmentText}</p>
-        </div>
-    </aside>
-    `;
-    }
-
+    // Show saved checkpoints (including ones from before a reload) on the items they belong to.
+    const itemIdsKey = items.map(item => item.id).join('\n');
+    useEffect(() => {
+        if (!itemIdsKey) return;
+        const itemIds = new Set(itemIdsKey.split('\n'));
+        listCheckpoints().then(checkpoints => checkpoints
+            .filter(checkpoint => itemIds.has(checkpoint.itemId))
+            .forEach(checkpoint => dispatch({ type: 'SET_CHECKPOINT', payload: { id: checkpoint.itemId, resumeFrom: describeCheckpoint(checkpoint), awaitingOutlineApproval: checkpoint.outlineApproved === false } })));
+    }, [itemIdsKey]);
 
     const generateContent = useCallback(async (itemsToGenerate: ContentItem[]) => {
         let generatedCount = 0;
-
-        for (const item of itemsToGenerate) {
-            if (stopGenerationRef.current.has(item.id)) continue;
+        // Each call counts its own usage, so a row generated during a batch can't reset the batch's budget.
+        const runUsage: RunUsage = { tokens: 0, cost: 0 };
+        const isBudgetReached = () => isRunBudgetReached(runUsage, runBudget);
+        const assertWithinBudget = () => assertWithinRunBudget(runUsage, runBudget);
+
+        const processItem = async (item: ContentItem) => {
+            if (stopGenerationRef.current.has(item.id)) return;
+
+            if (isBudgetReached()) {
+                console.warn(`[Budget] Run budget reached. Skipping "${item.title}".`);
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped: budget reached' } });
+                return;
+            }
 
             dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Initializing...' } });
+            dispatch({ type: 'RESET_USAGE', payload: { id: item.id } });
+            dispatch({ type: 'RESET_RUN_LOG', payload: { id: item.id } });
+            const appendLog = (entry: RunLogEntry) => dispatch({ type: 'APPEND_RUN_LOG', payload: { id: item.id, entry } });
+            const loggerFor = (stage: string): RunLogger => (level, message, details) => appendLog({ timestamp: new Date().toISOString(), stage, level, message, details });
+            const logResult = loggerFor('Result');
+            const abortController = new AbortController();
+            generationAbortRef.current.set(item.id, abortController);
+            const { signal } = abortController;
 
-            let rawResponseForDebugging: any = null;
-            let processedContent: GeneratedContent | null = null;
-            
             if (item.type === 'link-optimizer') {
                 try {
                     dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/1: Optimizing Internal Links...' } });
-                    const optimizedContentText = await callAI('internal_link_optimizer', [item.crawledContent, existingPages], 'html');
+                    const optimizedContentText = await callAI('internal_link_optimizer', [item.crawledContent, existingPages], 'html', false, {
+                        itemId: item.id,
+                        signal,
+                        runUsage,
+                        onStream: partial => updateLiveDraft(item.id, item.title, partial),
+                        log: loggerFor('Link Optimizer'),
+                    });
                     
                     const finalContent = normalizeGeneratedContent({
                         title: item.title,
@@ -3599,243 +6110,304 @@ const App = () => {
                     }, item.title);
 
                     finalContent.content = processInternalLinks(finalContent.content, existingPages);
+                    finalContent.language = item.language || activeProject.language;
                     finalContent.jsonLdSchema = generateFullSchema(finalContent, wpConfig, siteInfo, [], geoTargeting);
 
                     dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: finalContent } });
+                    logResult('info', 'Internal links optimized.');
 
                 } catch (error: any) {
-                    console.error(`Error optimizing links for "${item.title}":`, error);
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...` } });
+                    if (stopGenerationRef.current.has(item.id)) {
+                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' } });
+                        logResult('info', 'Stopped by user.');
+                    } else {
+                        console.error(`Error optimizing links for "${item.title}":`, error);
+                        logResult('error', error.message);
+                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...` } });
+                    }
                 } finally {
+                    generationAbortRef.current.delete(item.id);
+                    clearLiveDraft(item.id);
                     generatedCount++;
-                    setGenerationProgress({ current: generatedCount, total: itemsToGenerate.length });
+                    setGenerationProgress(prev => ({ ...prev, current: generatedCount }));
                 }
-                continue; // Skip the rest of the loop
+                return; // Skip the article pipeline
             }
              
             try {
-                let semanticKeywords: string[] | null = null;
-                let serpData: any[] | null = null;
-                let peopleAlsoAsk: string[] | null = null;
-                let youtubeVideos: any[] | null = null;
-                
-                const isPillar = item.type === 'pillar';
-                const currentArticleFormat = item.articleFormat || 'standard';
-
-                // --- STAGE 1: SERP & Keyword Intelligence ---
-                if (apiKeys.serperApiKey && apiKeyStatus.serper === 'valid') {
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/5: Fetching SERP Data...' } });
-                    const cacheKey = `serp-${item.title}`;
-                    const cachedSerp = apiCache.get(cacheKey);
-
-                    if (cachedSerp) {
-                         serpData = cachedSerp.serpData;
-                         youtubeVideos = cachedSerp.youtubeVideos;
-                         peopleAlsoAsk = cachedSerp.peopleAlsoAsk;
-                    } else {
-                        try {
-                            const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
-                                method: 'POST',
-                                headers: { 'X-API-KEY': apiKeys.serperApiKey as string, 'Content-Type': 'application/json' },
-                                body: JSON.stringify({ q: item.title })
-                            });
-                            if (!serperResponse.ok) throw new Error(`Serper API failed with status ${serperResponse.status}`);
-                            const serperJson = await serperResponse.json();
-                            serpData = serperJson.organic ? serperJson.organic.slice(0, 10) : [];
-                            peopleAlsoAsk = serperJson.peopleAlsoAsk ? serperJson.peopleAlsoAsk.map((p: any) => p.question) : [];
-                            
-                            const videoCandidates = new Map<string, any>();
-                            const videoQueries = [`"${item.title}" tutorial`, `how to ${item.title}`, item.title];
-
-                            for (const query of videoQueries) {
-                                if (videoCandidates.size >= 10) break;
-                                try {
-                                    const videoResponse = await fetchWithProxies("https://google.serper.dev/videos", {
-                                        method: 'POST', headers: { 'X-API-KEY': apiKeys.serperApiKey as string, 'Content-Type': 'application/json' }, body: JSON.stringify({ q: query })
-                                    });
-                                    if (videoResponse.ok) {
-                                        const json = await videoResponse.json();
-                                        for (const v of (json.videos || [])) {
-                                            const videoId = extractYouTubeID(v.link);
-                                            if (videoId && !videoCandidates.has(videoId)) videoCandidates.set(videoId, { ...v, videoId });
-                                        }
-                                    }
-                                } catch (e) { console.warn(`Video search failed for "${query}".`, e); }
-                            }
-                            youtubeVideos = getUniqueYoutubeVideos(Array.from(videoCandidates.values()), YOUTUBE_EMBED_COUNT);
-                            apiCache.set(cacheKey, { serpData, youtubeVideos, peopleAlsoAsk });
-                        } catch (serpError) {
-                            console.error("Failed to fetch SERP data:", serpError);
-                        }
-                    }
-                }
-
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/5: Analyzing Topic...' } });
-                const skCacheKey = `sk-${item.title}`;
-                if (apiCache.get(skCacheKey)) {
-                    semanticKeywords = apiCache.get(skCacheKey);
-                } else {
-                    const skResponseText = await callAI('semantic_keyword_generator', [item.title], 'json');
-                    const parsedSk = JSON.parse(extractJson(skResponseText));
-                    semanticKeywords = parsedSk.semanticKeywords;
-                    apiCache.set(skCacheKey, semanticKeywords);
-                }
-
-                if (stopGenerationRef.current.has(item.id)) break;
-
-                // --- STAGE 2: Generate Metadata and Outline ---
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 2/5: Generating Article Outline...' } });
-                const outlineResponseText = await callAI('content_meta_and_outline', [item.title, semanticKeywords, serpData, peopleAlsoAsk, existingPages, item.crawledContent, item.analysis, currentArticleFormat, primaryData], 'json', useGoogleSearch);
-                rawResponseForDebugging = outlineResponseText; // Save for debugging if JSON parse fails
-                const metaAndOutline = JSON.parse(extractJson(outlineResponseText));
-
-                // SOTA FIX: Sanitize the introduction and conclusion HTML that comes from the JSON payload.
-                if (metaAndOutline.introduction) metaAndOutline.introduction = sanitizeHtmlResponse(metaAndOutline.introduction);
-                if (metaAndOutline.conclusion) metaAndOutline.conclusion = sanitizeHtmlResponse(metaAndOutline.conclusion);
-
-                // --- STAGE 3: Generate Content Section-by-Section ---
-                const fullFaqData: { question: string, answer: string }[] = [];
-                let contentParts: string[] = [];
-                if(metaAndOutline.introduction) contentParts.push(metaAndOutline.introduction);
-                if(metaAndOutline.keyTakeaways) contentParts.push(`<h3>Key Takeaways</h3>\n<ul>\n${metaAndOutline.keyTakeaways.map((t: string) => `<li>${t}</li>`).join('\n')}\n</ul>`);
-
-                const sections = metaAndOutline.outline;
-                for (let i = 0; i < sections.length; i++) {
-                    if (stopGenerationRef.current.has(item.id)) break;
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 3/5: Writing section ${i + 1} of ${sections.length}...` } });
-                    
-                    let sectionContent = `<h2>${sections[i]}</h2>`;
-                    const sectionHtml = await callAI('write_article_section', [item.title, metaAndOutline.title, sections[i], existingPages, currentArticleFormat, primaryData], 'html');
-                    sectionContent += sanitizeHtmlResponse(sectionHtml);
-                    contentParts.push(sectionContent);
-                    
-                    // Embed YouTube videos at strategic points
-                    if (youtubeVideos && youtubeVideos.length > 0 && currentArticleFormat === 'standard') {
-                        if (i === 1 && youtubeVideos[0]) { // After 2nd section
-                            contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${youtubeVideos[0].embedUrl}" title="${youtubeVideos[0].title}" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>`);
-                        }
-                        if (i === Math.floor(sections.length / 2) && youtubeVideos[1]) { // In the middle
-                            contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${youtubeVideos[1].embedUrl}" title="${youtubeVideos[1].title}" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" allowfullscreen></iframe></div>`);
-                        }
-                    }
-                }
-                
-                if(metaAndOutline.conclusion) contentParts.push(metaAndOutline.conclusion);
-
-                if (metaAndOutline.faqSection) {
-                    contentParts.push(`<div class="faq-section"><h2>Frequently Asked Questions</h2>`);
-                    for (let i = 0; i < metaAndOutline.faqSection.length; i++) {
-                        if (stopGenerationRef.current.has(item.id)) break;
-                        const faq = metaAndOutline.faqSection[i];
-                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 3/5: Answering FAQ ${i + 1} of ${metaAndOutline.faqSection.length}...` } });
-                        
-                        const answerHtml = await callAI('write_faq_answer', [faq.question], 'html');
-                        const cleanAnswer = sanitizeHtmlResponse(answerHtml).replace(/^<p>|<\/p>$/g, '');
-                        contentParts.push(`<h3>${faq.question}</h3>\n<p>${cleanAnswer}</p>`);
-                        fullFaqData.push({ question: faq.question, answer: cleanAnswer });
-                    }
-                    contentParts.push(`</div>`);
-                }
-
-                if (currentArticleFormat === 'standard') {
-                    try {
-                        const referencesResponseText = await callAI('generate_references', [metaAndOutline.title], 'json', true);
-                        const { references } = JSON.parse(extractJson(referencesResponseText));
-                        if (references && references.length > 0) {
-                            let referencesHtml = '<h2>References</h2>\n<p>For further reading on this topic, we recommend these high-quality, external resources from reputable sources:</p>\n<ul>\n';
-                            references.forEach((ref: { title: string, url: string }) => {
-                                referencesHtml += `<li><a href="${ref.url}" target="_blank" rel="noopener noreferrer">${ref.title}</a></li>\n`;
-                            });
-                            referencesHtml += '</ul>';
-                            contentParts.push(referencesHtml);
-                        }
-                    } catch (refError) {
-                        console.warn("Failed to generate grounded references.", refError);
-                    }
-                }
-                
-                if (stopGenerationRef.current.has(item.id)) {
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' } });
-                    break;
-                }
-                
-                let finalContent = contentParts.join('\n\n');
-                
-                // --- STAGE 4: Image Generation & Placement ---
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 4/5: Generating Images...' } });
-                const updatedImageDetails = [...metaAndOutline.imageDetails];
-                for (let i = 0; i < updatedImageDetails.length; i++) {
-                    if (stopGenerationRef.current.has(item.id)) break;
-                    const imageDetail = updatedImageDetails[i];
-                    try {
-                        const generatedImageSrc = await generateImageWithFallback(imageDetail.prompt);
-                        if (generatedImageSrc) {
-                            imageDetail.generatedImageSrc = generatedImageSrc;
-                            const imageHtml = `<figure class="wp-block-image size-large"><img src="${generatedImageSrc}" alt="${imageDetail.altText}" title="${imageDetail.title}"/><figcaption>${imageDetail.altText}</figcaption></figure>`;
-                            finalContent = finalContent.replace(imageDetail.placeholder, imageHtml);
-                        } else {
-                             finalContent = finalContent.replace(imageDetail.placeholder, ''); // Remove placeholder if generation fails
-                        }
-                    } catch (imgError) {
-                        console.error(`Failed to generate image for prompt: "${imageDetail.prompt}"`, imgError);
-                        finalContent = finalContent.replace(imageDetail.placeholder, '');
-                    }
-                }
-                finalContent = finalContent.replace(/\[IMAGE_\d_PLACEHOLDER\]/g, ''); // Clean up any remaining placeholders
-
-                 // --- STAGE 5: Final Assembly & Quality Checks ---
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 5/5: Finalizing...' } });
-                
-                // Link validation and quota enforcement
-                finalContent = sanitizeBrokenPlaceholders(finalContent);
-                finalContent = validateAndRepairInternalLinks(finalContent, existingPages);
-                finalContent = enforceInternalLinkQuota(finalContent, existingPages, metaAndOutline.primaryKeyword, MIN_INTERNAL_LINKS);
-                finalContent = processInternalLinks(finalContent, existingPages);
-                finalContent = enforceUniqueVideoEmbeds(finalContent, youtubeVideos || []);
-
-                // E-E-A-T Injections
-                const authorBoxHtml = generateEeatAuthorBoxHtml(siteInfo, currentArticleFormat);
-                finalContent = authorBoxHtml + finalContent;
-
-                // Word count enforcement (only for standard articles)
-                if (currentArticleFormat === 'standard') {
-                    const minWords = isPillar ? TARGET_MIN_WORDS_PILLAR : TARGET_MIN_WORDS;
-                    const maxWords = isPillar ? TARGET_MAX_WORDS_PILLAR : TARGET_MAX_WORDS;
-                    enforceWordCount(finalContent, minWords, maxWords);
-                    checkHumanWritingScore(finalContent);
-                }
-                
-                processedContent = normalizeGeneratedContent({
-                    ...metaAndOutline,
-                    content: finalContent,
-                    imageDetails: updatedImageDetails,
-                    serpData: serpData
-                }, item.title);
-                
-                processedContent.jsonLdSchema = generateFullSchema(processedContent, wpConfig, siteInfo, fullFaqData, geoTargeting);
-                processedContent.content += generateSchemaMarkup(processedContent.jsonLdSchema);
-                
+                const processedContent = await writeArticle(item, {
+                    signal,
+                    callOptions: { itemId: item.id, signal, runUsage },
+                    onStatus: statusText => dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText } }),
+                    onDraft: (html, force) => updateLiveDraft(item.id, item.title, html, force),
+                    isStopped: () => stopGenerationRef.current.has(item.id),
+                    assertWithinBudget,
+                    generateImages: true,
+                    concurrency: generationConcurrency.sections,
+                    requirements: resolveRequirements(requirementProfiles, item.requirementProfileId, item.type),
+                    expansionAttempts,
+                    humanizeRewrite,
+                    onCheckpoint: checkpoint => dispatch({ type: 'SET_CHECKPOINT', payload: { id: item.id, resumeFrom: describeCheckpoint(checkpoint), awaitingOutlineApproval: checkpoint.outlineApproved === false } }),
+                    requireOutlineApproval,
+                    onLog: appendLog,
+                });
+                await clearCheckpoint(item.id);
                 dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: processedContent } });
+                // Count the article itself, not the JSON-LD block appended to it.
+                const articleText = processedContent.content.replace(/<!-- wp:html -->[\s\S]*?<!-- \/wp:html -->/g, '').replace(/<[^>]+>/g, ' ');
+                logResult('info', 'Article completed.', { wordCount: articleText.split(/\s+/).filter(Boolean).length });
 
             } catch (error: any) {
+                 if (stopGenerationRef.current.has(item.id)) {
+                     dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' } });
+                     logResult('info', 'Stopped by user.');
+                     return;
+                 }
+                 if (error instanceof OutlineApprovalRequiredError) {
+                     dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Outline ready for review' } });
+                     return;
+                 }
                  console.error(`Error generating content for "${item.title}":`, error);
-                 if (error instanceof ContentTooShortError) {
+                 logResult(error instanceof BudgetExceededError ? 'warn' : 'error', error.message, { error: error.name });
+                 if (error instanceof BudgetExceededError) {
+                     console.warn(`[Budget] ${error.message} Stopping "${item.title}".`);
+                     dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Stopped: budget reached' } });
+                 } else if (error instanceof ContentTooShortError) {
                     console.warn("Content generation failed word count but preserving content for review.");
-                     const partialContent = normalizeGeneratedContent({ content: error.content, title: item.title, slug: item.title.toLowerCase().replace(/\s+/g, '-'), metaDescription: `Review needed: Content for ${item.title}`, primaryKeyword: item.title, semanticKeywords: [], imageDetails: [], strategy: {}, jsonLdSchema: {}, socialMediaCopy: {} }, item.title);
+                     // Every stage ran, so resuming would only rebuild the same article.
+                     await clearCheckpoint(item.id);
+                     const partialContent = normalizeGeneratedContent({ content: error.content, title: item.title, slug: item.title.toLowerCase().replace(/\s+/g, '-'), metaDescription: `Review needed: Content for ${item.title}`, primaryKeyword: item.title, semanticKeywords: [], imageDetails: [], strategy: {}, jsonLdSchema: {}, socialMediaCopy: {}, language: item.language || activeProject.language, styleGuide: activeProject.styleGuide }, item.title);
                      dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: partialContent } });
                      dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Word count too low: ${error.wordCount}` } });
                  } else {
                      dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...` } });
                  }
             } finally {
+                generationAbortRef.current.delete(item.id);
+                clearLiveDraft(item.id);
                 generatedCount++;
-                setGenerationProgress({ current: generatedCount, total: itemsToGenerate.length });
+                setGenerationProgress(prev => ({ ...prev, current: generatedCount }));
             }
-        }
+        };
+
+        // Each item runs its own worker pool for sections, so keep item concurrency low.
+        await processConcurrently(itemsToGenerate, processItem, generationConcurrency.items);
         setIsGenerating(false);
-    }, [apiClients, selectedModel, apiKeys.serperApiKey, existingPages, wpConfig, siteInfo, callAI, geoTargeting, primaryData]);
+    }, [existingPages, wpConfig, siteInfo, callAI, writeArticle, geoTargeting, runBudget, generationConcurrency, requireOutlineApproval, requirementProfiles, expansionAttempts, humanizeRewrite, updateLiveDraft, clearLiveDraft, clearCheckpoint, activeProject.language, activeProject.styleGuide]);
+
+    const updateExperimentResult = (experimentId: string, index: number, updater: (result: ExperimentResult) => ExperimentResult) => {
+        setExperiments(prev => prev.map(experiment => experiment.id !== experimentId ? experiment : {
+            ...experiment,
+            results: experiment.results.map((result, i) => i === index ? updater(result) : result) as PromptExperiment['results'],
+        }));
+    };
+
+    const handleRunExperiment = useCallback(async (itemId: string, promptKey: keyof typeof PROMPT_TEMPLATES, variants: [ExperimentVariant, ExperimentVariant]) => {
+        const item = items.find(i => i.id === itemId);
+        if (!item) return;
+
+        const pending: ExperimentResult = { status: 'pending', statusText: 'Waiting...' };
+        const experiment: PromptExperiment = {
+            id: `experiment-${Date.now()}`,
+            itemId,
+            itemTitle: item.title,
+            promptKey,
+            createdAt: new Date().toISOString(),
+            variants,
+            results: [pending, pending],
+            requirements: resolveRequirements(requirementProfiles, item.requirementProfileId, item.type),
+        };
+        setExperiments(prev => [experiment, ...prev]);
+        const abortController = new AbortController();
+        experimentAbortRef.current.set(experiment.id, abortController);
+        const { signal } = abortController;
+
+        // Variants run one after the other so they do not compete for rate limits.
+        for (const [index, variant] of variants.entries()) {
+            const update = (updater: (result: ExperimentResult) => ExperimentResult) => updateExperimentResult(experiment.id, index, updater);
+            if (signal.aborted) {
+                update(result => ({ ...result, status: 'error', statusText: 'Stopped by user' }));
+                continue;
+            }
+            update(result => ({ ...result, status: 'running', statusText: 'Initializing...' }));
+            // Each variant is its own run, so each gets the full run budget.
+            const runUsage: RunUsage = { tokens: 0, cost: 0 };
+            try {
+                const content = await writeArticle(item, {
+                    signal,
+                    callOptions: {
+                        signal,
+                        runUsage,
+                        route: variant.route || undefined,
+                        promptOverrides: { [promptKey]: variant.promptText },
+                        onUsage: (usage, cost) => update(result => ({ ...result, usage: addUsage(result.usage, usage, cost) })),
+                    },
+                    onStatus: statusText => update(result => ({ ...result, statusText })),
+                    onDraft: () => {},
+                    isStopped: () => signal.aborted,
+                    assertWithinBudget: () => assertWithinRunBudget(runUsage, runBudget),
+                    generateImages: false,
+                    concurrency: generationConcurrency.sections,
+                    requirements: experiment.requirements,
+                    // Variants are compared as the prompts wrote them, without top-ups.
+                    expansionAttempts: 0,
+                    humanizeRewrite: false,
+                });
+                update(result => ({ ...result, status: 'done', statusText: 'Complete', content }));
+            } catch (error: any) {
+                if (signal.aborted) {
+                    update(result => ({ ...result, status: 'error', statusText: 'Stopped by user' }));
+                } else if (error instanceof BudgetExceededError) {
+                    update(result => ({ ...result, status: 'error', statusText: 'Stopped: budget reached' }));
+                } else if (error instanceof ContentTooShortError) {
+                    // Still worth comparing: score the short article instead of discarding it.
+                    const content = normalizeGeneratedContent({ content: error.content, title: item.title, primaryKeyword: item.title, language: item.language || activeProject.language }, item.title);
+                    content.content = content.content.replace(/\[IMAGE_\d_PLACEHOLDER\]/g, '');
+                    update(result => ({ ...result, status: 'error', statusText: `Word count too low: ${error.wordCount}`, content }));
+                } else {
+                    console.error(`[Experiment] Variant ${index === 0 ? 'A' : 'B'} failed for "${item.title}":`, error);
+                    update(result => ({ ...result, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}` }));
+                }
+            }
+        }
+        experimentAbortRef.current.delete(experiment.id);
+    }, [items, writeArticle, generationConcurrency.sections, requirementProfiles, runBudget, activeProject.language]);
+
+    const handleStopExperiment = (experimentId: string) => {
+        experimentAbortRef.current.get(experimentId)?.abort();
+    };
+
+    const handleDeleteExperiment = (experimentId: string) => {
+        setExperiments(prev => prev.filter(experiment => experiment.id !== experimentId));
+    };
     
-    const handleSaveChanges = (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string) => {
+    /**
+     * Translates a finished article into another language as a new item linked to the original.
+     * The metadata is localized first, so the body can use the localized keyword; the body is
+     * then translated one H2 section at a time. Images are reused and only their alt texts change.
+     */
+    const handleTranslateItem = async (item: ContentItem, language: LanguageCode) => {
+        const original = item.generatedContent;
+        if (!original) return;
+        const sourceLanguage = getLanguage(original.language || DEFAULT_LANGUAGE);
+        const targetLanguage = getLanguage(language);
+        const id = `${item.id}#${language}`;
+        // A stopped translation is still winding down until its controller is removed.
+        if (generationAbortRef.current.has(id)) return;
+        const existing = items.find(other => other.id === id);
+        if (existing?.generatedContent && !window.confirm(`"${item.title}" already has a ${targetLanguage.name} translation. Replace it, including any edits?`)) return;
+        const log: RunLogger = (level, message, details) => dispatch({ type: 'APPEND_RUN_LOG', payload: { id, entry: { timestamp: new Date().toISOString(), stage: 'Translate', level, message, details } } });
+        const setStatus = (statusText: string) => dispatch({ type: 'UPDATE_STATUS', payload: { id, status: 'generating', statusText } });
+        const isStopped = () => stopGenerationRef.current.has(id);
+        stopGenerationRef.current.delete(id);
+        const abortController = new AbortController();
+        generationAbortRef.current.set(id, abortController);
+        // A translation is its own run, with its own share of the run budget.
+        const runUsage: RunUsage = { tokens: 0, cost: 0 };
+        const callOptions: CallAIOptions = { itemId: id, signal: abortController.signal, language, log, runUsage };
+
+        dispatch({ type: 'ADD_ITEM', payload: { item: {
+            id,
+            title: `${item.title} (${targetLanguage.nativeName})`,
+            type: item.type,
+            status: 'generating',
+            statusText: `Translating into ${targetLanguage.name}...`,
+            generatedContent: null,
+            crawledContent: null,
+            articleFormat: item.articleFormat,
+            requirementProfileId: item.requirementProfileId,
+            language,
+            translationOf: item.id,
+        } } });
+        log('info', `Translating "${original.title}" from ${sourceLanguage.name} into ${targetLanguage.name}.`);
+
+        try {
+            setStatus('Localizing metadata...');
+            assertWithinRunBudget(runUsage, runBudget);
+            const metadataText = await callAI('translate_metadata', [sourceLanguage.name, targetLanguage.name, {
+                title: original.title,
+                slug: original.slug,
+                metaDescription: original.metaDescription,
+                primaryKeyword: original.primaryKeyword,
+                semanticKeywords: original.semanticKeywords,
+                altTexts: original.imageDetails.map(image => image.altText),
+                socialMediaCopy: original.socialMediaCopy,
+            }], 'json', false, callOptions);
+            const metadata = JSON.parse(extractJson(metadataText));
+
+            // The schema block is rebuilt below. Embedded images are swapped for short tokens so
+            // their data URLs are not sent to the model.
+            const imageSources: string[] = [];
+            const body = original.content.replace(/<!-- wp:html -->[\s\S]*?<!-- \/wp:html -->/g, '').trim()
+                .replace(/src="(data:[^"]+)"/g, (_match, src: string) => `src="[[IMAGE_${imageSources.push(src) - 1}]]"`);
+            const chunks = body.split(/(?=<h2[\s>])/i).filter(chunk => chunk.trim());
+            const translatedChunks: string[] = [];
+            let translatedCount = 0;
+            let firstTranslateError: unknown = null;
+            await processConcurrently(chunks.map((html, index) => ({ html, index })), async ({ html, index }) => {
+                try {
+                    assertWithinRunBudget(runUsage, runBudget);
+                    const translated = await callAI('translate_article', [html, sourceLanguage.name, targetLanguage.name, original.primaryKeyword, metadata.primaryKeyword], 'html', false, callOptions);
+                    translatedChunks[index] = sanitizeHtmlResponse(translated);
+                } catch (error) {
+                    firstTranslateError = firstTranslateError ?? error;
+                    return;
+                }
+                setStatus(`Translating into ${targetLanguage.name} (${++translatedCount}/${chunks.length} parts)...`);
+            }, generationConcurrency.sections, undefined, () => isStopped() || firstTranslateError !== null);
+            if (isStopped()) throw new GenerationStoppedError();
+            if (firstTranslateError) throw firstTranslateError;
+            const content = translatedChunks.join('\n\n').replace(/\[\[IMAGE_(\d+)\]\]/g, (token, index: string) => imageSources[Number(index)] ?? token);
+
+            const translation: GeneratedContent = {
+                ...original,
+                title: metadata.title || original.title,
+                slug: metadata.slug || original.slug,
+                metaDescription: metadata.metaDescription || original.metaDescription,
+                primaryKeyword: metadata.primaryKeyword || original.primaryKeyword,
+                semanticKeywords: metadata.semanticKeywords || original.semanticKeywords,
+                imageDetails: original.imageDetails.map((image, i) => ({ ...image, altText: metadata.altTexts?.[i] || image.altText })),
+                socialMediaCopy: metadata.socialMediaCopy || original.socialMediaCopy,
+                content,
+                claims: extractClaims(content),
+                language,
+                translationOfUrl: getItemUrl(item),
+            };
+            translation.jsonLdSchema = generateFullSchema(translation, wpConfig, siteInfo, extractFaqData(content), geoTargeting);
+            translation.content += generateSchemaMarkup(translation.jsonLdSchema);
+            dispatch({ type: 'SET_CONTENT', payload: { id, content: translation } });
+            log('info', `Translated ${chunks.length} part(s) into ${targetLanguage.name}.`);
+        } catch (error: any) {
+            if (isStopped()) {
+                dispatch({ type: 'UPDATE_STATUS', payload: { id, status: 'idle', statusText: 'Stopped by user' } });
+                log('info', 'Stopped by user.');
+                return;
+            }
+            if (error instanceof BudgetExceededError) {
+                log('warn', error.message, { error: error.name });
+                dispatch({ type: 'UPDATE_STATUS', payload: { id, status: 'idle', statusText: 'Stopped: budget reached' } });
+                return;
+            }
+            console.error(`[Translate] Could not translate "${item.title}" into ${targetLanguage.name}:`, error);
+            log('error', error.message);
+            dispatch({ type: 'UPDATE_STATUS', payload: { id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...` } });
+        } finally {
+            generationAbortRef.current.delete(id);
+        }
+    };
+
+    /** The URL an item is or will be published at: the page it rewrites, or the site URL and its slug. */
+    const getItemUrl = (item: ContentItem): string => item.originalUrl || `${wpConfig.url.replace(/\/+$/, '')}/${item.generatedContent?.slug || ''}`;
+
+    /** Every finished language version of an item: the original and its translations. */
+    const getHreflangVariants = (item: ContentItem): HreflangVariant[] => {
+        const originalId = item.translationOf || item.id;
+        return items
+            .filter(other => other.generatedContent && (other.id === originalId || other.translationOf === originalId))
+            .map(other => ({ language: other.generatedContent!.language || DEFAULT_LANGUAGE, url: getItemUrl(other), isDefault: other.id === originalId }));
+    };
+
+    const handleSaveChanges = (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string, claims: Claim[]) => {
         const itemToUpdate = items.find(i => i.id === itemId);
         if (!itemToUpdate || !itemToUpdate.generatedContent) return;
 
@@ -3848,6 +6420,7 @@ const App = () => {
             metaDescription: updatedSeo.metaDescription,
             slug: slugPart, // Store the clean slug
             content: updatedContent,
+            claims,
         };
         
         // Regenerate schema with the new data
@@ -3890,6 +6463,15 @@ const App = () => {
         const { generatedContent, originalUrl } = itemToPublish;
         if (!generatedContent) return { success: false, message: 'No content to publish.' };
 
+        // Only going live is blocked: a new draft can still be uploaded so claims can be checked in WordPress.
+        if (strictClaimVerification && (status === 'publish' || originalUrl)) {
+            // Re-extract so edits made after the claims were saved are covered too.
+            const unverified = getUnverifiedClaims(mergeClaims(generatedContent.claims || [], extractClaims(generatedContent.content)));
+            if (unverified.length > 0) {
+                return { success: false, message: `Not published: ${unverified.length} claim(s) are still unverified. Verify or remove them in the Claims tab of Review & Edit.` };
+            }
+        }
+
         const { title, metaDescription, imageDetails } = generatedContent;
         let { content } = generatedContent;
         const isUpdate = !!originalUrl;
@@ -4003,7 +6585,7 @@ const App = () => {
             console.error('Publish to WordPress failed:', error);
             return { success: false, message: error.message };
         }
-    }, [wpConfig]);
+    }, [wpConfig, strictClaimVerification]);
 
     const verifyWpConnection = useCallback(debounce(async () => {
         if (!wpConfig.url || !wpConfig.username || !wpPassword) return;
@@ -4063,7 +6645,7 @@ const App = () => {
                 </div>
             </header>
             <div className="main-layout">
-                <aside className="sidebar"><SidebarNav activeView={activeView} onNavClick={setActiveView} /></aside>
+                <aside className="sidebar"><SidebarNav activeView={activeView} onNavClick={handleNavClick} /></aside>
                 <main className="main-content">
                     {activeView === 'setup' && (
                         <div className="setup-view">
@@ -4072,35 +6654,57 @@ const App = () => {
                                 <p>Configure your API keys, AI models, and WordPress connection. All data is saved securely in your browser's local storage.</p>
                             </div>
                             <div className="setup-grid">
+                                <div className="setup-card full-width">
+                                    <h3>Project</h3>
+                                    <div className="project-selector">
+                                        <div className="form-group">
+                                            <label htmlFor="activeProject">Active Project</label>
+                                            <select id="activeProject" value={activeProject.id} onChange={e => setActiveProjectId(e.target.value)}>
+                                                {projects.map(project => <option key={project.id} value={project.id}>{project.name}</option>)}
+                                            </select>
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="projectName">Project Name</label>
+                                            <input type="text" id="projectName" value={activeProject.name} onChange={e => updateActiveProject(project => ({ ...project, name: e.target.value }))} />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="projectLanguage">Language</label>
+                                            <select id="projectLanguage" value={activeProject.language} onChange={e => updateActiveProject(project => ({ ...project, language: e.target.value as LanguageCode }))}>
+                                                {SUPPORTED_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                                            </select>
+                                        </div>
+                                        <button className="btn btn-secondary" onClick={handleAddProject}>New Project</button>
+                                        {projects.length > 1 && <button className="btn btn-secondary" onClick={handleDeleteProject}>Delete</button>}
+                                    </div>
+                                    <p className="help-text">Prompt overrides and prompt variables in the Prompt Library belong to the active project. Articles are written in the project's language unless an item sets its own in the Review table.</p>
+                                </div>
                                 <div className="setup-card">
                                     <h3>API Keys</h3>
-                                    <div className="form-group">
-                                        <label htmlFor="geminiApiKey">Google Gemini API Key (from Environment)</label>
-                                         <div className="api-key-group">
-                                            <input type="text" readOnly value="Loaded from environment variables" disabled />
-                                             <div className="key-status-icon" role="status">
-                                                {apiKeyStatus.gemini === 'validating' && <div className="key-status-spinner" aria-label="Validating key"></div>}
-                                                {apiKeyStatus.gemini === 'valid' && <span className="success"><CheckIcon /></span>}
-                                                {apiKeyStatus.gemini === 'invalid' && <span className="error"><XIcon /></span>}
+                                    {listAiProviders().map(provider => provider.readEnvApiKey ? (
+                                        <div className="form-group" key={provider.id}>
+                                            <label htmlFor={`${provider.id}ApiKey`}>{provider.name} API Key (from Environment)</label>
+                                             <div className="api-key-group">
+                                                <input type="text" readOnly value="Loaded from environment variables" disabled />
+                                                 <div className="key-status-icon" role="status">
+                                                    {apiKeyStatus[provider.id] === 'validating' && <div className="key-status-spinner" aria-label="Validating key"></div>}
+                                                    {apiKeyStatus[provider.id] === 'valid' && <span className="success"><CheckIcon /></span>}
+                                                    {apiKeyStatus[provider.id] === 'invalid' && <span className="error"><XIcon /></span>}
+                                                </div>
                                             </div>
                                         </div>
-                                    </div>
-                                    <div className="form-group">
-                                        <label htmlFor="openaiApiKey">OpenAI API Key</label>
-                                        <ApiKeyInput provider="openai" value={apiKeys.openaiApiKey} onChange={handleApiKeyChange} status={apiKeyStatus.openai} isEditing={editingApiKey === 'openai'} onEdit={() => setEditingApiKey('openai')} />
-                                    </div>
-                                    <div className="form-group">
-                                        <label htmlFor="anthropicApiKey">Anthropic API Key</label>
-                                        <ApiKeyInput provider="anthropic" value={apiKeys.anthropicApiKey} onChange={handleApiKeyChange} status={apiKeyStatus.anthropic} isEditing={editingApiKey === 'anthropic'} onEdit={() => setEditingApiKey('anthropic')} />
-                                    </div>
-                                    <div className="form-group">
-                                        <label htmlFor="openrouterApiKey">OpenRouter API Key</label>
-                                        <ApiKeyInput provider="openrouter" value={apiKeys.openrouterApiKey} onChange={handleApiKeyChange} status={apiKeyStatus.openrouter} isEditing={editingApiKey === 'openrouter'} onEdit={() => setEditingApiKey('openrouter')} />
-                                    </div>
-                                     <div className="form-group">
-                                        <label htmlFor="groqApiKey">Groq API Key</label>
-                                        <ApiKeyInput provider="groq" value={apiKeys.groqApiKey} onChange={handleApiKeyChange} status={apiKeyStatus.groq} isEditing={editingApiKey === 'groq'} onEdit={() => setEditingApiKey('groq')} />
-                                    </div>
+                                    ) : (
+                                        <div className="form-group" key={provider.id}>
+                                            {provider.defaultBaseUrl !== undefined && (
+                                                <>
+                                                    <label htmlFor={`${provider.id}BaseUrl`}>{provider.name} Base URL</label>
+                                                    <input type="url" id={`${provider.id}BaseUrl`} value={providerBaseUrls[provider.id] || ''} onChange={e => handleProviderBaseUrlChange(provider.id, e.target.value)} placeholder={`e.g. ${provider.defaultBaseUrl}`} />
+                                                </>
+                                            )}
+                                            <label htmlFor={`${provider.id}ApiKey`}>{provider.name} API Key{provider.apiKeyOptional ? ' (optional)' : ''}</label>
+                                            <ApiKeyInput provider={provider.id} value={apiKeys[`${provider.id}ApiKey`] || ''} onChange={handleApiKeyChange} status={apiKeyStatus[provider.id]} isEditing={editingApiKey === provider.id} onEdit={() => setEditingApiKey(provider.id)} placeholder={provider.apiKeyOptional ? 'Leave blank if your server does not require one' : undefined} />
+                                            {provider.defaultBaseUrl !== undefined && <p className="help-text">Any OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1) or vLLM (http://localhost:8000/v1). The server must allow CORS requests from this page.</p>}
+                                        </div>
+                                    ))}
                                     <div className="form-group">
                                         <label htmlFor="serperApiKey">Serper API Key (for SERP data)</label>
                                         <ApiKeyInput provider="serper" value={apiKeys.serperApiKey} onChange={handleApiKeyChange} status={apiKeyStatus.serper} isEditing={editingApiKey === 'serper'} onEdit={() => setEditingApiKey('serper')} />
@@ -4111,27 +6715,81 @@ const App = () => {
                                     <div className="form-group">
                                         <label htmlFor="selectedModel">Primary AI Provider</label>
                                         <select id="selectedModel" value={selectedModel} onChange={e => setSelectedModel(e.target.value)}>
-                                            <option value="gemini">Google Gemini</option>
-                                            <option value="openai">OpenAI (GPT-4o)</option>
-                                            <option value="anthropic">Anthropic (Claude 3)</option>
-                                            <option value="openrouter">OpenRouter (Model Fallback)</option>
-                                            <option value="groq">Groq (High-Speed LLMs)</option>
+                                            {listAiProviders().map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
                                         </select>
                                     </div>
-                                    {selectedModel === 'openrouter' && (
+                                    {getAiProvider(selectedModel)?.modelSelection === 'chain' && (
                                         <div className="form-group">
-                                            <label htmlFor="openrouterModels">OpenRouter Model Fallback Chain (one per line)</label>
-                                            <textarea id="openrouterModels" value={openrouterModels.join('\n')} onChange={handleOpenrouterModelsChange} rows={5}></textarea>
+                                            <label htmlFor="providerModelChain">{getAiProvider(selectedModel)!.name} Model Fallback Chain (one per line)</label>
+                                            <textarea id="providerModelChain" value={providerModelsDraft ?? (providerModels[selectedModel] || getAiProvider(selectedModel)!.models).join('\n')} onChange={e => setProviderModelsDraft(e.target.value)} onBlur={e => { handleProviderModelsChange(selectedModel, e.target.value.split('\n').map(m => m.trim()).filter(Boolean)); setProviderModelsDraft(null); }} rows={5} placeholder="e.g. llama3.1:8b"></textarea>
                                         </div>
                                     )}
-                                    {selectedModel === 'groq' && (
+                                    {getAiProvider(selectedModel)?.modelSelection === 'select' && (
                                          <div className="form-group">
-                                            <label htmlFor="selectedGroqModel">Groq Model</label>
-                                            <select id="selectedGroqModel" value={selectedGroqModel} onChange={e => setSelectedGroqModel(e.target.value)}>
-                                                {AI_MODELS.GROQ_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                                            <label htmlFor="providerModel">{getAiProvider(selectedModel)!.name} Model</label>
+                                            <select id="providerModel" value={providerModels[selectedModel]?.[0] || getAiProvider(selectedModel)!.models[0]} onChange={e => handleProviderModelsChange(selectedModel, [e.target.value])}>
+                                                {getAiProvider(selectedModel)!.models.map(model => <option key={model} value={model}>{model}</option>)}
                                             </select>
                                         </div>
                                     )}
+                                    <div className="form-group">
+                                        <label htmlFor="providerFailover0">Failover Providers</label>
+                                        {[...providerFailover, ''].map((providerId, index) => (
+                                            <select key={index} id={`providerFailover${index}`} className="failover-select" aria-label={`Failover provider ${index + 1}`} value={providerId} onChange={e => handleProviderFailoverChange(index, e.target.value)}>
+                                                <option value="">{providerId ? 'Remove' : 'Add a failover provider...'}</option>
+                                                {listAiProviders().filter(provider => provider.id === providerId || !providerFailover.includes(provider.id)).map(provider => (
+                                                    <option key={provider.id} value={provider.id}>{index + 1}. {provider.name}{apiKeyStatus[provider.id] === 'valid' ? '' : ' (not connected)'}</option>
+                                                ))}
+                                            </select>
+                                        ))}
+                                        <p className="help-text">If the provider for a prompt still fails after retries, these are tried in order with their default models, so a bulk run survives one vendor's outage.</p>
+                                    </div>
+                                    <div className="form-group-row">
+                                        <div className="form-group">
+                                            <label htmlFor="runBudgetType">Run Budget</label>
+                                            <select id="runBudgetType" value={runBudget.type} onChange={e => setRunBudget(p => ({ ...p, type: e.target.value as 'tokens' | 'cost' }))}>
+                                                <option value="cost">Spend (USD)</option>
+                                                <option value="tokens">Tokens</option>
+                                            </select>
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="runBudgetLimit">Limit (0 = no limit)</label>
+                                            <input type="number" id="runBudgetLimit" min="0" step={runBudget.type === 'cost' ? '0.5' : '10000'} value={runBudget.limit} onChange={e => setRunBudget(p => ({ ...p, limit: Math.max(0, parseFloat(e.target.value) || 0) }))} />
+                                        </div>
+                                    </div>
+                                    <p className="help-text">Each run (a bulk generation, a translation or an A/B experiment variant) stops between stages once it has used this much, based on the usage each provider reports and the Model Pricing table. Remaining items are marked "Stopped: budget reached".</p>
+                                    <div className="form-group-row">
+                                        <div className="form-group">
+                                            <label htmlFor="sectionConcurrency">Parallel Requests per Article</label>
+                                            <input type="number" id="sectionConcurrency" min="1" max={MAX_SECTION_CONCURRENCY} value={generationConcurrency.sections} onChange={e => setGenerationConcurrency(p => ({ ...p, sections: Math.min(MAX_SECTION_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1)) }))} />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="itemConcurrency">Articles at Once</label>
+                                            <input type="number" id="itemConcurrency" min="1" max={MAX_ITEM_CONCURRENCY} value={generationConcurrency.items} onChange={e => setGenerationConcurrency(p => ({ ...p, items: Math.min(MAX_ITEM_CONCURRENCY, Math.max(1, parseInt(e.target.value, 10) || 1)) }))} />
+                                        </div>
+                                    </div>
+                                    <p className="help-text">Sections are written one after another so each knows what the earlier ones covered; FAQ answers are written alongside them in parallel. Up to requests × articles calls run at the same time, so lower these if your provider keeps returning rate-limit errors.</p>
+                                    <div className="form-group">
+                                        <div className="checkbox-group">
+                                            <input id="requireOutlineApproval" type="checkbox" checked={requireOutlineApproval} onChange={e => setRequireOutlineApproval(e.target.checked)} />
+                                            <label htmlFor="requireOutlineApproval">Pause for Outline Approval</label>
+                                        </div>
+                                        <p className="help-text">Each article stops after its outline is planned. Edit the headings, key takeaways, FAQ questions and image prompts in the Review table, then approve to write the article.</p>
+                                    </div>
+                                    <div className="form-group">
+                                        <div className="checkbox-group">
+                                            <input id="humanizeRewrite" type="checkbox" checked={humanizeRewrite} onChange={e => setHumanizeRewrite(e.target.checked)} />
+                                            <label htmlFor="humanizeRewrite">Rewrite AI-Sounding Paragraphs</label>
+                                        </div>
+                                        <p className="help-text">Before the final checks, paragraphs with banned phrases (like "delve into" or "furthermore") or very long sentences are sent back with the exact fixes to make, in one extra request per article. The Run Log shows the human writing score before and after.</p>
+                                    </div>
+                                    <div className="form-group">
+                                        <div className="checkbox-group">
+                                            <input id="strictClaimVerification" type="checkbox" checked={strictClaimVerification} onChange={e => setStrictClaimVerification(e.target.checked)} />
+                                            <label htmlFor="strictClaimVerification">Strict Claim Verification</label>
+                                        </div>
+                                        <p className="help-text">Every statistic, date and named study in a finished article is listed in the Claims tab of Review & Edit. When this is on, an article can't be published or update a live page, alone or in bulk, until each claim is verified or removed. Saving it as a WordPress draft still works.</p>
+                                    </div>
                                      <div className="form-group">
                                         <div className="checkbox-group">
                                             <input id="useGoogleSearch" type="checkbox" checked={useGoogleSearch} onChange={e => setUseGoogleSearch(e.target.checked)} />
@@ -4163,6 +6821,78 @@ const App = () => {
                                             </div>
                                         </>
                                     )}
+                                </div>
+                                <div className="setup-card full-width">
+                                    <h3>Content Requirement Profiles</h3>
+                                    <p className="help-text">Length and structure targets for each kind of article. The outline and section prompts, the word count and internal link gates, and the Rank Guardian checks all use the profile chosen for the item in the Review table. Pillar items default to Pillar and everything else to Standard.</p>
+                                    <RequirementProfilesEditor profiles={requirementProfiles} onChange={setRequirementProfiles} />
+                                    <div className="form-group">
+                                        <label htmlFor="expansionAttempts">Expansion Attempts (0 = off)</label>
+                                        <input type="number" id="expansionAttempts" min="0" max={MAX_EXPANSION_ATTEMPTS} value={expansionAttempts} onChange={e => setExpansionAttempts(Math.min(MAX_EXPANSION_ATTEMPTS, Math.max(0, parseInt(e.target.value, 10) || 0)))} />
+                                        <p className="help-text">When an article comes in under the profile's minimum word count, its thinnest sections are expanded and, if the profile allows more sections, new ones are written for content gaps. The article is re-counted after each attempt and only marked "Word count too low" once all attempts are used. The Run Log lists everything that was added.</p>
+                                    </div>
+                                </div>
+                                <div className="setup-card full-width">
+                                    <h3>Per-Stage Model Routing</h3>
+                                    <p className="help-text">Send each pipeline stage to a specific provider and model, e.g. a fast model for FAQ answers and your strongest model for the outline. If a stage's provider is not connected or fails, its fallback is tried, then the Primary AI Provider and the failover providers.</p>
+                                    {listAiProviders().map(provider => (
+                                        <datalist id={`${provider.id}-model-options`} key={provider.id}>
+                                            {(providerModels[provider.id] || provider.models).concat(provider.models).filter((model, i, all) => all.indexOf(model) === i).map(model => <option key={model} value={model} />)}
+                                        </datalist>
+                                    ))}
+                                    <table className="model-routing-table">
+                                        <thead>
+                                            <tr><th>Stage</th><th>Provider</th><th>Model</th><th>Fallback Provider</th><th>Fallback Model</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {(Object.keys(PROMPT_STAGE_LABELS) as (keyof typeof PROMPT_TEMPLATES)[]).map(promptKey => (
+                                                <tr key={promptKey}>
+                                                    <td>{PROMPT_STAGE_LABELS[promptKey]}</td>
+                                                    {[0, 1].map(index => {
+                                                        const route = modelRouting[promptKey]?.[index] || { provider: '', model: '' };
+                                                        return (
+                                                            <React.Fragment key={index}>
+                                                                <td>
+                                                                    <select aria-label={`${PROMPT_STAGE_LABELS[promptKey]} ${index === 0 ? 'provider' : 'fallback provider'}`} value={route.provider} onChange={e => handleModelRouteChange(promptKey, index, { provider: e.target.value })}>
+                                                                        <option value="">{index === 0 ? 'Primary provider' : 'None'}</option>
+                                                                        {listAiProviders().map(provider => <option key={provider.id} value={provider.id}>{provider.name}{apiKeyStatus[provider.id] === 'valid' ? '' : ' (not connected)'}</option>)}
+                                                                    </select>
+                                                                </td>
+                                                                <td>
+                                                                    <input type="text" aria-label={`${PROMPT_STAGE_LABELS[promptKey]} ${index === 0 ? 'model' : 'fallback model'}`} value={route.model} onChange={e => handleModelRouteChange(promptKey, index, { model: e.target.value.trim() })} placeholder="Provider default" disabled={!route.provider} list={route.provider ? `${route.provider}-model-options` : undefined} />
+                                                                </td>
+                                                            </React.Fragment>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                <div className="setup-card full-width">
+                                    <h3>Model Pricing (USD per 1M tokens)</h3>
+                                    <p className="help-text">Used to estimate the cost of each article from the token usage the provider reports. Models without an entry are counted but not priced (shown with a "+" in Review & Export).</p>
+                                    <table className="model-pricing-table">
+                                        <thead>
+                                            <tr><th>Model</th><th>Input</th><th>Output</th><th></th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {Object.entries(modelPrices).map(([model, price]) => (
+                                                <tr key={model}>
+                                                    <td>{model}</td>
+                                                    <td><input type="number" min="0" step="0.01" aria-label={`${model} input price`} value={price.input} onChange={e => handleModelPriceChange(model, 'input', e.target.value)} /></td>
+                                                    <td><input type="number" min="0" step="0.01" aria-label={`${model} output price`} value={price.output} onChange={e => handleModelPriceChange(model, 'output', e.target.value)} /></td>
+                                                    <td><button className="btn btn-small btn-secondary" onClick={() => handleRemoveModelPrice(model)}>Remove</button></td>
+                                                </tr>
+                                            ))}
+                                            <tr>
+                                                <td><input type="text" aria-label="New model name" value={newPriceModel} onChange={e => setNewPriceModel(e.target.value)} placeholder="Model name, e.g. llama3.1:8b" /></td>
+                                                <td colSpan={2}></td>
+                                                <td><button className="btn btn-small" onClick={handleAddModelPrice} disabled={!newPriceModel.trim() || !!modelPrices[newPriceModel.trim()]}>Add</button></td>
+                                            </tr>
+                                        </tbody>
+                                    </table>
+                                    <button className="btn btn-small btn-secondary" onClick={() => setModelPrices(DEFAULT_MODEL_PRICES)}>Reset to Defaults</button>
                                 </div>
                                  <div className="setup-card full-width">
                                     <h3>WordPress Connection</h3>
@@ -4256,6 +6986,32 @@ const App = () => {
                             </div>
                         </div>
                     )}
+                    {activeView === 'prompts' && (
+                        <div className="prompt-library-view">
+                            <div className="page-header">
+                                <h2 className="gradient-headline">Prompt Library</h2>
+                                <p>Tune the system instruction behind each generation stage for the project "{activeProject.name}". Every save is kept as a version, and resetting a prompt returns it to the built-in default.</p>
+                            </div>
+                            <PromptLibrary project={activeProject} onUpdateProject={updateActiveProject} onDirtyChange={setHasUnsavedPrompt} />
+                        </div>
+                    )}
+                    {activeView === 'experiments' && (
+                        <div className="experiments-view">
+                            <div className="page-header">
+                                <h2 className="gradient-headline">A/B Experiments</h2>
+                                <p>Run two versions of a prompt, or two models, on the same article and compare the results side by side before changing the project's prompts.</p>
+                            </div>
+                            <PromptExperiments
+                                items={items}
+                                project={activeProject}
+                                experiments={experiments}
+                                siteUrl={wpConfig.url}
+                                onRun={handleRunExperiment}
+                                onStop={handleStopExperiment}
+                                onDelete={handleDeleteExperiment}
+                            />
+                        </div>
+                    )}
                     {activeView === 'strategy' && (
                         <div className="content-strategy-view">
                              <div className="page-header">
@@ -4515,6 +7271,32 @@ const App = () => {
                                         {isGenerating && <button className="btn btn-secondary" onClick={() => handleStopGeneration(null)}>Stop All</button>}
                                     </div>
                                 </div>
+                                {generationProgress.total > 0 && (
+                                    <div className="batch-progress">
+                                        <div className="batch-progress-summary">
+                                            <span>{isGenerating ? 'Current batch' : 'Last batch'}: {generationProgress.current}/{generationProgress.total} articles</span>
+                                            <span>
+                                                {(batchUsage.promptTokens + batchUsage.completionTokens).toLocaleString()} tokens · {formatUsageCost(batchUsage)}
+                                                {runBudget.limit > 0 && ` (budget: ${runBudget.type === 'tokens' ? `${runBudget.limit.toLocaleString()} tokens` : `$${runBudget.limit.toFixed(2)}`})`}
+                                            </span>
+                                        </div>
+                                        <div className="progress-bar-container">
+                                            <div className="progress-bar-fill good" style={{ width: `${(generationProgress.current / generationProgress.total) * 100}%` }}></div>
+                                        </div>
+                                    </div>
+                                )}
+                                {Object.entries(liveDrafts).map(([itemId, draft]) => (
+                                    <div className="generation-preview" key={itemId}>
+                                        <div className="generation-preview-header">
+                                            <h3>Live Preview: {draft.title}</h3>
+                                            <button className="btn btn-small btn-secondary" onClick={() => handleStopGeneration(itemId)}>Stop</button>
+                                        </div>
+                                        {/* column-reverse keeps the scroll position pinned to the newest text. */}
+                                        <div className="generation-preview-body">
+                                            <div className="live-preview" dangerouslySetInnerHTML={{ __html: draft.html }}></div>
+                                        </div>
+                                    </div>
+                                ))}
                                 <table className="review-table">
                                      <thead>
                                         <tr>
@@ -4522,6 +7304,10 @@ const App = () => {
                                             <th onClick={() => handleSort('title')}>Title</th>
                                             <th onClick={() => handleSort('type')}>Type</th>
                                             <th onClick={() => handleSort('status')}>Status</th>
+                                            <th>Profile</th>
+                                            <th>Language</th>
+                                            <th>Similarity</th>
+                                            <th>Cost</th>
                                             <th>Actions</th>
                                         </tr>
                                     </thead>
@@ -4529,13 +7315,67 @@ const App = () => {
                                         {filteredAndSortedItems.length > 0 ? filteredAndSortedItems.map(item => (
                                             <tr key={item.id}>
                                                 <td><input type="checkbox" checked={selectedItems.has(item.id)} onChange={() => handleToggleSelect(item.id)} /></td>
-                                                <td>{item.title}</td>
+                                                <td>
+                                                    {item.title}
+                                                    {(() => {
+                                                        const conflicts = cannibalization.get(item.id);
+                                                        if (!conflicts) return null;
+                                                        const [top] = conflicts;
+                                                        const page = top.kind === 'page' ? existingPages.find(p => p.id === top.targetId) : undefined;
+                                                        const canChangePlan = (item.status === 'idle' || item.status === 'error') && !item.resumeFrom;
+                                                        return (
+                                                            <div className={`cannibalization-info ${top.blocking ? 'blocking' : ''}`} title={conflicts.map(conflict => `${Math.round(conflict.similarity * 100)}% ${conflict.targetTitle} (${conflict.matchedOn}: ${conflict.matchedText})`).join('\n')}>
+                                                                <span>{top.blocking ? 'Duplicate keyword' : 'Keyword overlap'} ({top.action}): {top.reason}</span>
+                                                                {canChangePlan && (
+                                                                    <div className="action-buttons">
+                                                                        {page && top.action !== 're-angle' && (
+                                                                            <button className="btn btn-small btn-secondary" onClick={() => handlePlanRewrite(page, item.id)}>Rewrite Existing</button>
+                                                                        )}
+                                                                        {top.action === 'merge' && (
+                                                                            <button className="btn btn-small btn-secondary" onClick={() => dispatch({ type: 'REMOVE_ITEM', payload: { id: item.id } })}>Remove from Plan</button>
+                                                                        )}
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                        );
+                                                    })()}
+                                                </td>
                                                 <td><span className={`badge ${item.type}`}>{item.type.replace('-', ' ')}</span></td>
                                                 <td>
                                                     <div className="status-cell">
                                                         <span className={`status-indicator ${item.status}`}></span>
                                                         <span>{item.statusText}</span>
                                                     </div>
+                                                    {item.providersUsed && item.providersUsed.length > 0 && (
+                                                        <div className="provider-attribution">via {item.providersUsed.map(id => getAiProvider(id)?.name || id).join(', ')}</div>
+                                                    )}
+                                                    {item.resumeFrom && item.status !== 'generating' && item.status !== 'done' && (
+                                                        <div className="checkpoint-info">Checkpoint: {item.resumeFrom}</div>
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    <select aria-label={`Requirement profile for ${item.title}`} value={resolveRequirements(requirementProfiles, item.requirementProfileId, item.type).id} onChange={e => dispatch({ type: 'SET_REQUIREMENT_PROFILE', payload: { id: item.id, profileId: e.target.value } })} disabled={item.status === 'generating'}>
+                                                        {requirementProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                                                    </select>
+                                                </td>
+                                                <td>
+                                                    <select aria-label={`Language for ${item.title}`} value={item.generatedContent?.language || item.language || activeProject.language} onChange={e => dispatch({ type: 'SET_ITEM_LANGUAGE', payload: { id: item.id, language: e.target.value as LanguageCode } })} disabled={item.status === 'generating' || item.status === 'done' || !!item.translationOf}>
+                                                        {SUPPORTED_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.nativeName}</option>)}
+                                                    </select>
+                                                </td>
+                                                <td>
+                                                    {(() => {
+                                                        const report = similarityReports.get(item.id);
+                                                        if (!report) return '—';
+                                                        return (
+                                                            <span className={`similarity-score ${getSimilarityLevel(report.score)}`} title={report.matches.length > 0 ? report.matches.map(match => `${Math.round(match.containment * 100)}% ${match.title}`).join('\n') : 'No overlap found'}>
+                                                                {report.score}%
+                                                            </span>
+                                                        );
+                                                    })()}
+                                                </td>
+                                                <td title={item.usage ? `${item.usage.promptTokens.toLocaleString()} prompt + ${item.usage.completionTokens.toLocaleString()} completion tokens over ${item.usage.calls} calls` : undefined}>
+                                                    {formatUsageCost(item.usage)}
                                                 </td>
                                                 <td>
                                                     <div className="action-buttons">
@@ -4545,14 +7385,33 @@ const App = () => {
                                                         {item.status === 'done' && (
                                                             <button className="btn btn-small" onClick={() => setSelectedItemForReview(item)}>Review & Edit</button>
                                                         )}
-                                                         {(item.status === 'idle' || item.status === 'error') && (
-                                                            <button className="btn btn-small" onClick={() => handleGenerateSingle(item)}>Generate</button>
+                                                        {item.status === 'done' && item.type !== 'link-optimizer' && !item.translationOf && (
+                                                            <select className="translate-select" aria-label={`Translate ${item.title}`} value="" onChange={e => e.target.value && handleTranslateItem(item, e.target.value as LanguageCode)}>
+                                                                <option value="">Translate...</option>
+                                                                {SUPPORTED_LANGUAGES.filter(language => language.code !== (item.generatedContent?.language || DEFAULT_LANGUAGE)).map(language => <option key={language.code} value={language.code}>{language.nativeName}</option>)}
+                                                            </select>
+                                                        )}
+                                                        {item.status === 'idle' && item.awaitingOutlineApproval && (
+                                                            <button className="btn btn-small" onClick={() => handleOpenOutlineReview(item)}>Review Outline</button>
+                                                        )}
+                                                         {(item.status === 'idle' || item.status === 'error') && !item.awaitingOutlineApproval && !item.translationOf && (
+                                                            <button className="btn btn-small" onClick={() => handleGenerateSingle(item)}>{item.resumeFrom ? 'Resume' : 'Generate'}</button>
+                                                        )}
+                                                        {(item.status === 'idle' || item.status === 'error') && item.translationOf && (() => {
+                                                            const original = items.find(other => other.id === item.translationOf && other.generatedContent);
+                                                            return <button className="btn btn-small" onClick={() => original && handleTranslateItem(original, item.language || DEFAULT_LANGUAGE)} disabled={!original} title={original ? undefined : 'The original article is no longer in the list'}>Retry Translation</button>;
+                                                        })()}
+                                                        {(item.status === 'idle' || item.status === 'error') && item.resumeFrom && (
+                                                            <button className="btn btn-small btn-secondary" onClick={() => handleRestartGeneration(item)} title="Discard the saved progress and start from Stage 1">Restart</button>
+                                                        )}
+                                                        {(item.status === 'idle' || item.status === 'error') && item.runLog && item.runLog.length > 0 && (
+                                                            <button className="btn btn-small btn-secondary" onClick={() => setRunLogItemId(item.id)}>Run Log</button>
                                                         )}
                                                     </div>
                                                 </td>
                                             </tr>
                                         )) : (
-                                            <tr><td colSpan={5} style={{textAlign: 'center', padding: '2rem'}}>No content items to display. Go to Step 2 to generate content.</td></tr>
+                                            <tr><td colSpan={9} style={{textAlign: 'center', padding: '2rem'}}>No content items to display. Go to Step 2 to generate content.</td></tr>
                                         )}
                                     </tbody>
                                 </table>
@@ -4563,6 +7422,16 @@ const App = () => {
             </div>
             <AppFooter />
 
+            {outlineReview && (
+                <OutlineReviewModal
+                    item={outlineReview.item}
+                    outline={outlineReview.outline}
+                    onApprove={outline => handleApproveOutline(outlineReview.item, outline)}
+                    onRegenerate={() => handleRegenerateOutline(outlineReview.item)}
+                    onClose={() => setOutlineReview(null)}
+                />
+            )}
+
             {selectedItemForReview && (
                 <ReviewModal 
                     item={selectedItemForReview} 
@@ -4574,6 +7443,12 @@ const App = () => {
                     publishItem={publishItem}
                     callAI={callAI}
                     geoTargeting={geoTargeting}
+                    existingPages={existingPages}
+                    requirements={resolveRequirements(requirementProfiles, selectedItemForReview.requirementProfileId, selectedItemForReview.type)}
+                    styleGuide={selectedItemForReview.generatedContent?.styleGuide || activeProject.styleGuide}
+                    similarityIndex={similarityIndex}
+                    strictClaimVerification={strictClaimVerification}
+                    hreflangVariants={getHreflangVariants(selectedItemForReview)}
                 />
             )}
              {isBulkPublishModalOpen && (
@@ -4592,6 +7467,9 @@ const App = () => {
                     onPlanRewrite={handlePlanRewrite}
                 />
             )}
+            {runLogItem && (
+                <RunLogModal item={runLogItem} onClose={() => setRunLogItemId(null)} />
+            )}
         </div>
     );
 };
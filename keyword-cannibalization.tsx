@@ -0,0 +1,175 @@
+// =================================================================
+// 🥊 KEYWORD CANNIBALIZATION
+// =================================================================
+// Compares the keyword each planned item targets (its primary keyword
+// once generated, otherwise its title) with the titles, slugs and
+// headings of the crawled site pages and with the items planned before
+// it. Each conflict comes with a suggested action: merge into the
+// existing page, rewrite the existing page, or re-angle the new one.
+// Near-identical targets are "blocking" and are skipped by bulk
+// generation.
+// =================================================================
+
+/** Dice similarity of the significant words at or above which two targets conflict. */
+const CONFLICT_SIMILARITY = 0.6;
+/** Headings are subtopics, so a heading has to match more closely than a title. */
+const HEADING_CONFLICT_SIMILARITY = 0.8;
+/** At or above this, the two target the same keyword. */
+const DUPLICATE_SIMILARITY = 0.85;
+/** Existing pages scoring below this in the health analysis are rewritten rather than merged into. */
+const REWRITE_HEALTH_SCORE = 70;
+const MAX_CONFLICTS_PER_ITEM = 3;
+
+// Words that carry no topic of their own. Modifiers like "best" and "guide" appear
+// in most titles, so they are ignored too.
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'for', 'to', 'of', 'in', 'on', 'with', 'without', 'your', 'you', 'our', 'my', 'i',
+    'how', 'what', 'why', 'when', 'where', 'which', 'who', 'is', 'are', 'do', 'does', 'can', 'should', 'will', 'be',
+    'it', 'its', 'this', 'that', 'these', 'those', 'from', 'by', 'at', 'as', 'vs', 'versus', 'about', 'into',
+    'best', 'top', 'guide', 'ultimate', 'complete', 'definitive', 'tips', 'ways', 'step', 'steps', 'everything', 'need', 'know',
+]);
+
+export type CannibalizationAction = 'merge' | 'rewrite' | 're-angle';
+
+export interface PlannedTarget {
+    id: string;
+    title: string;
+    primaryKeyword?: string;
+    /** The page this item rewrites, if any. It is not a conflict with itself. */
+    originalUrl?: string;
+}
+
+/** The SitemapPage fields the detector reads. */
+export interface CannibalizationPage {
+    id: string;
+    title: string;
+    slug: string;
+    headings?: string[];
+    healthScore: number | null;
+    isStale: boolean;
+}
+
+export interface CannibalizationConflict {
+    /** A crawled page, or an item planned earlier in the same batch. */
+    kind: 'page' | 'item';
+    targetId: string;
+    targetTitle: string;
+    matchedOn: 'title' | 'slug' | 'heading';
+    matchedText: string;
+    /** Dice similarity of the significant words, 0-1. */
+    similarity: number;
+    action: CannibalizationAction;
+    reason: string;
+    /** The two target the same keyword. Bulk generation skips the item. */
+    blocking: boolean;
+}
+
+const stem = (word: string): string => {
+    if (word.length <= 3) return word;
+    if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+};
+
+/** The significant words of a title, keyword, slug or heading, lower-cased and de-pluralized. */
+const toTerms = (text: string): Set<string> => {
+    const words = text.toLowerCase().replace(/[-_/]/g, ' ').match(/[\p{L}\p{N}']+/gu) || [];
+    return new Set(words.filter(word => !STOP_WORDS.has(word) && !/^\d+$/.test(word)).map(stem));
+};
+
+const diceSimilarity = (a: Set<string>, b: Set<string>): { similarity: number; shared: number } => {
+    if (a.size === 0 || b.size === 0) return { similarity: 0, shared: 0 };
+    const shared = [...a].filter(term => b.has(term)).length;
+    return { similarity: (2 * shared) / (a.size + b.size), shared };
+};
+
+const describeConflict = (kind: CannibalizationConflict['kind'], title: string, matchedOn: CannibalizationConflict['matchedOn'], matchedText: string, action: CannibalizationAction): string => {
+    if (kind === 'item') {
+        return action === 'merge'
+            ? `"${title}", planned earlier in this batch, targets the same keyword. Merge the two into one article.`
+            : `"${title}", planned earlier in this batch, targets a very similar keyword. Give each article a distinct angle.`;
+    }
+    if (matchedOn === 'heading') return `"${title}" already covers this in its section "${matchedText}". Give this article a distinct angle, or link to that page instead.`;
+    if (action === 'rewrite') return `"${title}" already targets this keyword but is stale or scored low. Rewrite it instead of publishing a competing page.`;
+    if (action === 'merge') return `"${title}" already targets this keyword. Merge this topic into it instead of publishing a competing page.`;
+    return `"${title}" targets a very similar keyword. Pick a distinct angle or a longer-tail keyword so the two pages don't compete.`;
+};
+
+/**
+ * Finds keyword conflicts for every planned item.
+ * @param targets The planned items, in batch order.
+ * @param pages The crawled site pages.
+ * @returns Each conflicting item's conflicts, strongest first. Items without conflicts are left out.
+ */
+export const findCannibalization = (targets: PlannedTarget[], pages: CannibalizationPage[]): Map<string, CannibalizationConflict[]> => {
+    const pageTerms = pages.map(page => ({
+        page,
+        candidates: [
+            { matchedOn: 'title' as const, text: page.title, terms: toTerms(page.title) },
+            { matchedOn: 'slug' as const, text: page.slug, terms: toTerms(page.slug) },
+            ...(page.headings || []).map(heading => ({ matchedOn: 'heading' as const, text: heading, terms: toTerms(heading) })),
+        ],
+    }));
+    const targetTerms = targets.map(target => toTerms(target.primaryKeyword || target.title));
+    const results = new Map<string, CannibalizationConflict[]>();
+
+    targets.forEach((target, targetIndex) => {
+        const terms = targetTerms[targetIndex];
+        if (terms.size === 0) return;
+        // A one-word target only conflicts on an exact match; longer ones need two shared words.
+        const minShared = Math.min(2, terms.size);
+        const conflicts: CannibalizationConflict[] = [];
+
+        pageTerms.forEach(({ page, candidates }) => {
+            if (page.id === target.originalUrl || page.id === target.id) return;
+            let best: { matchedOn: CannibalizationConflict['matchedOn']; text: string; similarity: number } | null = null;
+            for (const candidate of candidates) {
+                const { similarity, shared } = diceSimilarity(terms, candidate.terms);
+                const threshold = candidate.matchedOn === 'heading' ? HEADING_CONFLICT_SIMILARITY : CONFLICT_SIMILARITY;
+                if (shared < minShared || similarity < threshold) continue;
+                // Prefer title and slug matches over heading matches of the same strength.
+                if (!best || similarity > best.similarity || (similarity === best.similarity && best.matchedOn === 'heading')) {
+                    best = { matchedOn: candidate.matchedOn, text: candidate.text, similarity };
+                }
+            }
+            if (!best) return;
+            const isDuplicate = best.matchedOn !== 'heading' && best.similarity >= DUPLICATE_SIMILARITY;
+            const needsRewrite = page.isStale || (page.healthScore !== null && page.healthScore < REWRITE_HEALTH_SCORE);
+            const action: CannibalizationAction = !isDuplicate ? 're-angle' : needsRewrite ? 'rewrite' : 'merge';
+            conflicts.push({
+                kind: 'page',
+                targetId: page.id,
+                targetTitle: page.title,
+                matchedOn: best.matchedOn,
+                matchedText: best.text,
+                similarity: best.similarity,
+                action,
+                reason: describeConflict('page', page.title, best.matchedOn, best.text, action),
+                blocking: isDuplicate,
+            });
+        });
+
+        targets.slice(0, targetIndex).forEach((earlier, earlierIndex) => {
+            const { similarity, shared } = diceSimilarity(terms, targetTerms[earlierIndex]);
+            if (shared < minShared || similarity < CONFLICT_SIMILARITY) return;
+            const isDuplicate = similarity >= DUPLICATE_SIMILARITY;
+            const action: CannibalizationAction = isDuplicate ? 'merge' : 're-angle';
+            conflicts.push({
+                kind: 'item',
+                targetId: earlier.id,
+                targetTitle: earlier.title,
+                matchedOn: 'title',
+                matchedText: earlier.primaryKeyword || earlier.title,
+                similarity,
+                action,
+                reason: describeConflict('item', earlier.title, 'title', earlier.title, action),
+                blocking: isDuplicate,
+            });
+        });
+
+        if (conflicts.length > 0) {
+            results.set(target.id, conflicts.sort((a, b) => Number(b.blocking) - Number(a.blocking) || b.similarity - a.similarity).slice(0, MAX_CONFLICTS_PER_ITEM));
+        }
+    });
+    return results;
+};
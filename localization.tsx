@@ -0,0 +1,316 @@
+// =================================================================
+// 🌐 LOCALIZATION
+// =================================================================
+// The languages articles can be written in, and everything that
+// changes with the language: the instruction appended to every
+// prompt, the boilerplate the pipeline writes itself (headings and
+// the author box), the filler phrases the human writing check looks
+// for, and the hreflang tags that link an article to its
+// translations. A project sets the default language; an item can
+// override it.
+// =================================================================
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'nl';
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export interface Language {
+    code: LanguageCode;
+    /** The English name, used in prompts. */
+    name: string;
+    nativeName: string;
+    /** Used to format dates. */
+    locale: string;
+}
+
+export const SUPPORTED_LANGUAGES: Language[] = [
+    { code: 'en', name: 'English', nativeName: 'English', locale: 'en-US' },
+    { code: 'es', name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+    { code: 'fr', name: 'French', nativeName: 'Français', locale: 'fr-FR' },
+    { code: 'de', name: 'German', nativeName: 'Deutsch', locale: 'de-DE' },
+    { code: 'it', name: 'Italian', nativeName: 'Italiano', locale: 'it-IT' },
+    { code: 'pt', name: 'Portuguese', nativeName: 'Português', locale: 'pt-BR' },
+    { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', locale: 'nl-NL' },
+];
+
+/** The fixed outline of scientific articles. The prompts and the pipeline use these English headings as keys. */
+export type ScientificHeading = 'Hypothesis' | 'Methodology' | 'Results' | 'Discussion' | 'Conclusion' | 'References' | 'Data Availability';
+
+/** Text the pipeline writes itself rather than asking the model for. */
+export interface LocaleStrings {
+    keyTakeaways: string;
+    faq: string;
+    references: string;
+    referencesIntro: string;
+    writtenBy: string;
+    factCheckedBy: string;
+    protocolTitle: string;
+    published: string;
+    lastUpdated: string;
+    commitmentLabel: string;
+    commitmentStandard: string;
+    commitmentScientific: string;
+    /** Replace the English headings in finished scientific articles. */
+    scientificHeadings: Record<ScientificHeading, string>;
+}
+
+const LOCALE_STRINGS: Record<LanguageCode, LocaleStrings> = {
+    en: {
+        keyTakeaways: 'Key Takeaways',
+        faq: 'Frequently Asked Questions',
+        references: 'References',
+        referencesIntro: 'For further reading on this topic, we recommend these high-quality, external resources from reputable sources:',
+        writtenBy: 'Written & Researched By',
+        factCheckedBy: 'Independently Fact-Checked By',
+        protocolTitle: 'E-E-A-T & Credibility Protocol',
+        published: 'Published:',
+        lastUpdated: 'Last Updated:',
+        commitmentLabel: 'Our Commitment to Accuracy:',
+        commitmentStandard: 'This content is grounded in the principles of journalistic integrity. Every claim is fact-checked against the latest available data, and the entire article has been rigorously reviewed by a panel of distinguished experts. Our commitment is to provide information that is not only actionable but also verifiable, trustworthy, and accurate.',
+        commitmentScientific: 'This scientific article adheres to rigorous standards of academic integrity. The methodology is transparent, the data is verifiable, and all conclusions are based on empirical analysis. Every claim is fact-checked against primary data and peer-reviewed literature to ensure the highest degree of accuracy.',
+        scientificHeadings: { Hypothesis: 'Hypothesis', Methodology: 'Methodology', Results: 'Results', Discussion: 'Discussion', Conclusion: 'Conclusion', References: 'References', 'Data Availability': 'Data Availability' },
+    },
+    es: {
+        keyTakeaways: 'Puntos clave',
+        faq: 'Preguntas frecuentes',
+        references: 'Referencias',
+        referencesIntro: 'Para profundizar en este tema, recomendamos estas fuentes externas de alta calidad y reconocido prestigio:',
+        writtenBy: 'Escrito e investigado por',
+        factCheckedBy: 'Verificado de forma independiente por',
+        protocolTitle: 'Protocolo E-E-A-T y de credibilidad',
+        published: 'Publicado:',
+        lastUpdated: 'Última actualización:',
+        commitmentLabel: 'Nuestro compromiso con la precisión:',
+        commitmentStandard: 'Este contenido se basa en los principios de la integridad periodística. Cada afirmación se contrasta con los datos más recientes disponibles y el artículo completo ha sido revisado rigurosamente por un panel de expertos. Nuestro compromiso es ofrecer información no solo práctica, sino también verificable, fiable y precisa.',
+        commitmentScientific: 'Este artículo científico sigue rigurosos estándares de integridad académica. La metodología es transparente, los datos son verificables y todas las conclusiones se basan en análisis empíricos. Cada afirmación se contrasta con datos primarios y literatura revisada por pares para garantizar el máximo grado de precisión.',
+        scientificHeadings: { Hypothesis: 'Hipótesis', Methodology: 'Metodología', Results: 'Resultados', Discussion: 'Discusión', Conclusion: 'Conclusión', References: 'Referencias', 'Data Availability': 'Disponibilidad de los datos' },
+    },
+    fr: {
+        keyTakeaways: 'Points clés',
+        faq: 'Foire aux questions',
+        references: 'Références',
+        referencesIntro: 'Pour approfondir ce sujet, nous vous recommandons ces ressources externes fiables et de grande qualité :',
+        writtenBy: 'Rédigé et documenté par',
+        factCheckedBy: 'Vérifié de manière indépendante par',
+        protocolTitle: 'Protocole E-E-A-T et de crédibilité',
+        published: 'Publié :',
+        lastUpdated: 'Dernière mise à jour :',
+        commitmentLabel: 'Notre engagement envers l’exactitude :',
+        commitmentStandard: 'Ce contenu repose sur les principes de l’intégrité journalistique. Chaque affirmation est vérifiée à partir des données les plus récentes, et l’article a été rigoureusement relu par un panel d’experts reconnus. Notre engagement : fournir des informations non seulement utiles, mais aussi vérifiables, fiables et exactes.',
+        commitmentScientific: 'Cet article scientifique respecte des normes rigoureuses d’intégrité académique. La méthodologie est transparente, les données sont vérifiables et toutes les conclusions reposent sur une analyse empirique. Chaque affirmation est vérifiée à partir de données primaires et de publications évaluées par des pairs afin de garantir la plus grande exactitude.',
+        scientificHeadings: { Hypothesis: 'Hypothèse', Methodology: 'Méthodologie', Results: 'Résultats', Discussion: 'Discussion', Conclusion: 'Conclusion', References: 'Références', 'Data Availability': 'Disponibilité des données' },
+    },
+    de: {
+        keyTakeaways: 'Das Wichtigste in Kürze',
+        faq: 'Häufig gestellte Fragen',
+        references: 'Quellen',
+        referencesIntro: 'Zur Vertiefung empfehlen wir diese hochwertigen externen Quellen aus seriösen Veröffentlichungen:',
+        writtenBy: 'Geschrieben und recherchiert von',
+        factCheckedBy: 'Unabhängig geprüft von',
+        protocolTitle: 'E-E-A-T- und Glaubwürdigkeitsprotokoll',
+        published: 'Veröffentlicht:',
+        lastUpdated: 'Zuletzt aktualisiert:',
+        commitmentLabel: 'Unser Anspruch an Genauigkeit:',
+        commitmentStandard: 'Dieser Inhalt folgt den Grundsätzen journalistischer Integrität. Jede Aussage wird anhand der neuesten verfügbaren Daten geprüft, und der gesamte Artikel wurde von einem Gremium ausgewiesener Experten sorgfältig begutachtet. Unser Ziel sind Informationen, die nicht nur praktisch umsetzbar, sondern auch überprüfbar, vertrauenswürdig und korrekt sind.',
+        commitmentScientific: 'Dieser wissenschaftliche Artikel folgt strengen Standards akademischer Integrität. Die Methodik ist transparent, die Daten sind überprüfbar und alle Schlussfolgerungen beruhen auf empirischer Analyse. Jede Aussage wird anhand von Primärdaten und begutachteter Fachliteratur geprüft, um höchste Genauigkeit zu gewährleisten.',
+        scientificHeadings: { Hypothesis: 'Hypothese', Methodology: 'Methodik', Results: 'Ergebnisse', Discussion: 'Diskussion', Conclusion: 'Fazit', References: 'Quellen', 'Data Availability': 'Datenverfügbarkeit' },
+    },
+    it: {
+        keyTakeaways: 'Punti chiave',
+        faq: 'Domande frequenti',
+        references: 'Riferimenti',
+        referencesIntro: 'Per approfondire l’argomento, consigliamo queste risorse esterne di alta qualità provenienti da fonti autorevoli:',
+        writtenBy: 'Scritto e documentato da',
+        factCheckedBy: 'Verificato in modo indipendente da',
+        protocolTitle: 'Protocollo E-E-A-T e di credibilità',
+        published: 'Pubblicato:',
+        lastUpdated: 'Ultimo aggiornamento:',
+        commitmentLabel: 'Il nostro impegno per l’accuratezza:',
+        commitmentStandard: 'Questo contenuto si basa sui principi dell’integrità giornalistica. Ogni affermazione è verificata sui dati più recenti disponibili e l’intero articolo è stato rivisto con rigore da un gruppo di esperti qualificati. Il nostro impegno è fornire informazioni non solo utili, ma anche verificabili, affidabili e accurate.',
+        commitmentScientific: 'Questo articolo scientifico rispetta rigorosi standard di integrità accademica. La metodologia è trasparente, i dati sono verificabili e tutte le conclusioni si basano su analisi empiriche. Ogni affermazione è verificata su dati primari e letteratura sottoposta a revisione paritaria per garantire la massima accuratezza.',
+        scientificHeadings: { Hypothesis: 'Ipotesi', Methodology: 'Metodologia', Results: 'Risultati', Discussion: 'Discussione', Conclusion: 'Conclusione', References: 'Riferimenti', 'Data Availability': 'Disponibilità dei dati' },
+    },
+    pt: {
+        keyTakeaways: 'Pontos-chave',
+        faq: 'Perguntas frequentes',
+        references: 'Referências',
+        referencesIntro: 'Para aprofundar este tema, recomendamos estas fontes externas de alta qualidade e reconhecida credibilidade:',
+        writtenBy: 'Escrito e pesquisado por',
+        factCheckedBy: 'Verificado de forma independente por',
+        protocolTitle: 'Protocolo E-E-A-T e de credibilidade',
+        published: 'Publicado:',
+        lastUpdated: 'Última atualização:',
+        commitmentLabel: 'Nosso compromisso com a precisão:',
+        commitmentStandard: 'Este conteúdo segue os princípios da integridade jornalística. Cada afirmação é verificada com os dados mais recentes disponíveis, e o artigo inteiro foi revisado com rigor por um painel de especialistas. Nosso compromisso é oferecer informações não apenas práticas, mas também verificáveis, confiáveis e precisas.',
+        commitmentScientific: 'Este artigo científico segue padrões rigorosos de integridade acadêmica. A metodologia é transparente, os dados são verificáveis e todas as conclusões se baseiam em análise empírica. Cada afirmação é verificada com dados primários e literatura revisada por pares para garantir o máximo de precisão.',
+        scientificHeadings: { Hypothesis: 'Hipótese', Methodology: 'Metodologia', Results: 'Resultados', Discussion: 'Discussão', Conclusion: 'Conclusão', References: 'Referências', 'Data Availability': 'Disponibilidade dos dados' },
+    },
+    nl: {
+        keyTakeaways: 'Belangrijkste punten',
+        faq: 'Veelgestelde vragen',
+        references: 'Bronnen',
+        referencesIntro: 'Wil je meer weten over dit onderwerp? Dan raden we deze betrouwbare externe bronnen van hoge kwaliteit aan:',
+        writtenBy: 'Geschreven en onderzocht door',
+        factCheckedBy: 'Onafhankelijk gecontroleerd door',
+        protocolTitle: 'E-E-A-T- en betrouwbaarheidsprotocol',
+        published: 'Gepubliceerd:',
+        lastUpdated: 'Laatst bijgewerkt:',
+        commitmentLabel: 'Onze belofte voor nauwkeurigheid:',
+        commitmentStandard: 'Deze content is gebaseerd op de principes van journalistieke integriteit. Elke bewering wordt gecontroleerd aan de hand van de meest recente gegevens en het volledige artikel is zorgvuldig beoordeeld door een panel van deskundigen. We willen informatie bieden die niet alleen bruikbaar is, maar ook controleerbaar, betrouwbaar en juist.',
+        commitmentScientific: 'Dit wetenschappelijke artikel voldoet aan strenge normen van academische integriteit. De methodologie is transparant, de gegevens zijn controleerbaar en alle conclusies zijn gebaseerd op empirische analyse. Elke bewering wordt gecontroleerd aan de hand van primaire gegevens en peer-reviewed literatuur om de hoogste nauwkeurigheid te garanderen.',
+        scientificHeadings: { Hypothesis: 'Hypothese', Methodology: 'Methodologie', Results: 'Resultaten', Discussion: 'Discussie', Conclusion: 'Conclusie', References: 'Bronnen', 'Data Availability': 'Beschikbaarheid van gegevens' },
+    },
+};
+
+// Filler that marks text as machine-written, per language. Lower case, with straight apostrophes.
+const AI_PHRASES: Record<LanguageCode, string[]> = {
+    en: [
+        'delve into', 'in today\'s digital landscape', 'revolutionize', 'game-changer',
+        'unlock', 'leverage', 'robust', 'seamless', 'cutting-edge', 'elevate', 'empower',
+        'it\'s important to note', 'it\'s worth mentioning', 'needless to say',
+        'in conclusion', 'to summarize', 'in summary', 'holistic', 'paradigm shift',
+        'utilize', 'commence', 'endeavor', 'facilitate', 'implement', 'demonstrate',
+        'ascertain', 'procure', 'terminate', 'disseminate', 'expedite',
+        'in order to', 'due to the fact that', 'for the purpose of', 'with regard to',
+        'in the event that', 'at this point in time', 'for all intents and purposes',
+        'furthermore', 'moreover', 'additionally', 'consequently', 'nevertheless',
+        'notwithstanding', 'aforementioned', 'heretofore', 'whereby', 'wherein',
+        'landscape', 'realm', 'sphere', 'domain', 'ecosystem', 'framework',
+        'navigate', 'embark', 'journey', 'transform', 'transition',
+        'plethora', 'myriad', 'multitude', 'abundance', 'copious',
+        'crucial', 'vital', 'essential', 'imperative', 'paramount',
+        'optimize', 'maximize', 'enhance', 'augment', 'amplify',
+        'intricate', 'nuanced', 'sophisticated', 'elaborate', 'comprehensive',
+        'comprehensive guide', 'ultimate guide', 'complete guide',
+        'dive deep', 'take a deep dive', 'let\'s explore', 'let\'s dive in'
+    ],
+    es: [
+        'cabe destacar', 'cabe mencionar', 'es importante destacar', 'es importante tener en cuenta',
+        'en el mundo actual', 'en la era digital', 'sumergirnos', 'adentrarnos en', 'sin lugar a dudas',
+        'en conclusión', 'en resumen', 'asimismo', 'por consiguiente', 'no obstante',
+        'panorama', 'ámbito', 'fundamental', 'crucial', 'optimizar', 'potenciar', 'revolucionar',
+        'integral', 'guía completa', 'guía definitiva', 'a la hora de'
+    ],
+    fr: [
+        'il est important de noter', 'il convient de noter', 'dans le monde d\'aujourd\'hui', 'à l\'ère du numérique',
+        'plongeons', 'plonger au cœur', 'en conclusion', 'en résumé', 'en outre', 'par ailleurs', 'néanmoins',
+        'paysage', 'univers', 'crucial', 'primordial', 'incontournable', 'optimiser', 'révolutionner',
+        'holistique', 'guide complet', 'guide ultime', 'sans plus attendre'
+    ],
+    de: [
+        'es ist wichtig zu beachten', 'es ist erwähnenswert', 'in der heutigen digitalen welt', 'im heutigen zeitalter',
+        'tauchen wir ein', 'zusammenfassend', 'abschließend', 'darüber hinaus', 'des weiteren', 'nichtsdestotrotz',
+        'folglich', 'landschaft', 'entscheidend', 'unerlässlich', 'optimieren', 'revolutionieren',
+        'ganzheitlich', 'nahtlos', 'maßgeschneidert', 'umfassender leitfaden', 'ultimativer leitfaden'
+    ],
+    it: [
+        'è importante notare', 'vale la pena sottolineare', 'nel mondo di oggi', 'nell\'era digitale',
+        'immergiamoci', 'in conclusione', 'in sintesi', 'inoltre', 'pertanto', 'ciononostante',
+        'panorama', 'ambito', 'cruciale', 'fondamentale', 'ottimizzare', 'rivoluzionare',
+        'olistico', 'senza soluzione di continuità', 'guida completa', 'guida definitiva'
+    ],
+    pt: [
+        'é importante notar', 'vale a pena ressaltar', 'no mundo atual', 'na era digital',
+        'vamos mergulhar', 'mergulhar fundo', 'em conclusão', 'em resumo', 'além disso', 'ademais',
+        'panorama', 'âmbito', 'crucial', 'fundamental', 'otimizar', 'potencializar', 'revolucionar',
+        'holístico', 'guia completo', 'guia definitivo'
+    ],
+    nl: [
+        'het is belangrijk om op te merken', 'het is vermeldenswaard', 'in de huidige digitale wereld', 'in het huidige tijdperk',
+        'laten we erin duiken', 'concluderend', 'samenvattend', 'bovendien', 'desalniettemin',
+        'landschap', 'cruciaal', 'essentieel', 'optimaliseren', 'revolutioneren',
+        'naadloos', 'holistisch', 'complete gids', 'ultieme gids'
+    ],
+};
+
+/** Filler phrases listed in the language instruction of non-English prompts. */
+const MAX_PROMPT_PHRASES = 15;
+
+const escapePattern = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phrasePatternCache = new Map<LanguageCode, { phrase: string; pattern: RegExp }[]>();
+
+export const getLanguage = (code: LanguageCode): Language => SUPPORTED_LANGUAGES.find(language => language.code === code) || SUPPORTED_LANGUAGES[0];
+
+export const getLocaleStrings = (code: LanguageCode): LocaleStrings => LOCALE_STRINGS[code] || LOCALE_STRINGS[DEFAULT_LANGUAGE];
+
+/** The References heading in every supported language, for code that has to find the generated list. */
+export const REFERENCES_HEADINGS = [...new Set(Object.values(LOCALE_STRINGS).map(strings => strings.references))];
+
+/**
+ * The filler phrases of a language as whole-word patterns. `\b` only knows ASCII letters,
+ * so the boundaries are Unicode-aware lookarounds instead.
+ * @param code The article's language.
+ * @returns One global pattern per phrase. Match them against lower-cased text with straight apostrophes.
+ */
+export const getAiPhrasePatterns = (code: LanguageCode): { phrase: string; pattern: RegExp }[] => {
+    let patterns = phrasePatternCache.get(code);
+    if (!patterns) {
+        patterns = (AI_PHRASES[code] || AI_PHRASES[DEFAULT_LANGUAGE]).map(phrase => ({
+            phrase,
+            pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapePattern(phrase)}(?![\\p{L}\\p{N}])`, 'gu'),
+        }));
+        phrasePatternCache.set(code, patterns);
+    }
+    return patterns;
+};
+
+/**
+ * Formats the output language as the block appended to every prompt. The built-in prompts
+ * are written in English, so English needs no block.
+ * @param code The language to write in.
+ * @returns The prompt block, or an empty string for English.
+ */
+export const formatLanguageForPrompt = (code: LanguageCode): string => {
+    if (code === DEFAULT_LANGUAGE) return '';
+    const { name } = getLanguage(code);
+    const phrases = (AI_PHRASES[code] || []).slice(0, MAX_PROMPT_PHRASES);
+    return `
+
+**OUTPUT LANGUAGE: ${name.toUpperCase()} (this overrides any language assumption above):**
+- Write all reader-facing text in natural, native ${name}: titles, headings, article copy, meta descriptions, keywords, alt text, FAQs and social posts. Never mix in English.
+- Adapt idioms, examples, units, currencies and date formats for ${name}-speaking readers instead of translating literally. The English style rules above still apply in spirit.
+- Keep JSON keys, HTML tags and attributes, URLs and placeholders such as [INTERNAL_LINK ...] or [IMAGE_1_PLACEHOLDER] exactly as given. New slugs are lower-case ASCII words in ${name}.
+- Where the instructions require exact values, such as a fixed list of outline headings or an allowed set of values, return them exactly as given.${phrases.length > 0 ? `
+- Avoid filler that marks machine-written ${name}: ${phrases.map(phrase => `"${phrase}"`).join(', ')}.` : ''}`;
+};
+
+/** Formats a date the way the author box shows it, e.g. "October 19, 2026" or "19 de octubre de 2026". */
+export const formatLocalizedDate = (date: Date, code: LanguageCode): string => {
+    return date.toLocaleDateString(getLanguage(code).locale, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+/**
+ * Replaces the English headings of a scientific article with the language's own.
+ * @param html The article HTML.
+ * @param code The article's language.
+ * @returns The HTML with each fixed H2 heading translated.
+ */
+export const localizeScientificHeadings = (html: string, code: LanguageCode): string => {
+    if (code === DEFAULT_LANGUAGE) return html;
+    const headings = getLocaleStrings(code).scientificHeadings;
+    return html.replace(/<h2>([^<]+)<\/h2>/g, (heading, text: string) => {
+        const localized = headings[text.trim() as ScientificHeading];
+        return localized ? `<h2>${localized}</h2>` : heading;
+    });
+};
+
+/** One language version of an article. */
+export interface HreflangVariant {
+    language: LanguageCode;
+    url: string;
+    /** The original article, which is also the x-default. */
+    isDefault: boolean;
+}
+
+/**
+ * Builds the hreflang link tags that every language version of an article should carry.
+ * @param variants The original article and its translations.
+ * @returns One `<link rel="alternate">` tag per version, plus x-default, one per line.
+ */
+export const buildHreflangTags = (variants: HreflangVariant[]): string => {
+    const tags = variants.map(variant => `<link rel="alternate" hreflang="${variant.language}" href="${variant.url}" />`);
+    const fallback = variants.find(variant => variant.isDefault);
+    if (fallback) tags.push(`<link rel="alternate" hreflang="x-default" href="${fallback.url}" />`);
+    return tags.join('\n');
+};
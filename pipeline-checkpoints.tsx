@@ -0,0 +1,154 @@
+// =================================================================
+// 💾 PIPELINE CHECKPOINTS
+// =================================================================
+// Each article's stage outputs (research, outline, sections, FAQ
+// answers, references) are saved to IndexedDB as they complete, keyed
+// by item id. A stopped, failed or reloaded item resumes from its last
+// completed step instead of starting over at Stage 1. Images and the
+// final assembly are cheap to redo and are not checkpointed.
+// =================================================================
+
+import type { ArticleOutline } from './index.tsx';
+
+const DB_NAME = 'content-optimizer-pro';
+const DB_VERSION = 1;
+const CHECKPOINT_STORE = 'pipelineCheckpoints';
+/** Checkpoints not touched for this long are deleted on startup. */
+const CHECKPOINT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface PipelineCheckpoint {
+    itemId: string;
+    itemTitle: string;
+    updatedAt: string;
+    /** SERP data and semantic keywords from Stage 1. */
+    research?: {
+        semanticKeywords: string[] | null;
+        serpData: any[] | null;
+        peopleAlsoAsk: string[] | null;
+        youtubeVideos: any[] | null;
+    };
+    /** The parsed content_meta_and_outline response from Stage 2. */
+    outline?: ArticleOutline;
+    /** Outline review state: false while waiting for an editor, true once approved. Unset when review is off. */
+    outlineApproved?: boolean;
+    /** Finished section HTML (heading included), by outline index. Checkpoints saved while sections were written in parallel may be sparse. */
+    sections: string[];
+    /** Finished FAQ answer HTML, by FAQ index. May be sparse. */
+    faqAnswers: string[];
+    /** Set once the repetition post-pass has rewritten any repeated paragraphs in `sections`. */
+    repetitionChecked?: boolean;
+    /** Expansion pass rounds already run, so a resumed item does not repeat them. */
+    expansionAttempts?: number;
+    /** The References section HTML. Empty if no references were found. */
+    references?: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(CHECKPOINT_STORE)) {
+                    request.result.createObjectStore(CHECKPOINT_STORE, { keyPath: 'itemId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return databasePromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(database.transaction(CHECKPOINT_STORE, mode).objectStore(CHECKPOINT_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Creates an empty checkpoint for an item.
+ * @param itemId The ContentItem id.
+ * @param itemTitle The item's title, used to reject checkpoints from a different article.
+ */
+export const createCheckpoint = (itemId: string, itemTitle: string): PipelineCheckpoint => ({
+    itemId,
+    itemTitle,
+    updatedAt: new Date().toISOString(),
+    sections: [],
+    faqAnswers: [],
+});
+
+/**
+ * Loads an item's checkpoint. Storage errors are logged and treated as "no checkpoint".
+ * @param itemId The ContentItem id.
+ * @returns The checkpoint, or null if there is none.
+ */
+export const loadCheckpoint = async (itemId: string): Promise<PipelineCheckpoint | null> => {
+    try {
+        return (await runRequest<PipelineCheckpoint | undefined>('readonly', store => store.get(itemId))) || null;
+    } catch (error) {
+        console.warn(`[Checkpoint] Could not load the checkpoint for "${itemId}".`, error);
+        return null;
+    }
+};
+
+/**
+ * Saves a checkpoint. A failed save is logged but never interrupts generation.
+ * @param checkpoint The checkpoint to save.
+ */
+export const saveCheckpoint = async (checkpoint: PipelineCheckpoint): Promise<void> => {
+    try {
+        await runRequest('readwrite', store => store.put({ ...checkpoint, updatedAt: new Date().toISOString() }));
+    } catch (error) {
+        console.warn(`[Checkpoint] Could not save the checkpoint for "${checkpoint.itemId}".`, error);
+    }
+};
+
+export const deleteCheckpoint = async (itemId: string): Promise<void> => {
+    try {
+        await runRequest('readwrite', store => store.delete(itemId));
+    } catch (error) {
+        console.warn(`[Checkpoint] Could not delete the checkpoint for "${itemId}".`, error);
+    }
+};
+
+/**
+ * Lists all saved checkpoints, deleting any older than CHECKPOINT_MAX_AGE_MS.
+ * @returns The remaining checkpoints.
+ */
+export const listCheckpoints = async (): Promise<PipelineCheckpoint[]> => {
+    try {
+        const checkpoints = await runRequest<PipelineCheckpoint[]>('readonly', store => store.getAll());
+        const cutoff = Date.now() - CHECKPOINT_MAX_AGE_MS;
+        const stale = checkpoints.filter(checkpoint => new Date(checkpoint.updatedAt).getTime() < cutoff);
+        await Promise.all(stale.map(checkpoint => deleteCheckpoint(checkpoint.itemId)));
+        return checkpoints.filter(checkpoint => !stale.includes(checkpoint));
+    } catch (error) {
+        console.warn('[Checkpoint] Could not list checkpoints.', error);
+        return [];
+    }
+};
+
+/**
+ * Describes how far a checkpoint got, e.g. "4 of 9 sections, 2 of 6 FAQs".
+ * @param checkpoint The checkpoint.
+ * @returns A short label for the Review table.
+ */
+export const describeCheckpoint = (checkpoint: PipelineCheckpoint): string => {
+    const outline = checkpoint.outline;
+    // Array.filter skips the holes left by parts that finished out of order.
+    const sectionsDone = checkpoint.sections.filter(section => section !== undefined).length;
+    const answersDone = checkpoint.faqAnswers.filter(answer => answer !== undefined).length;
+    if (checkpoint.references !== undefined) return 'References';
+    if (sectionsDone > 0 || answersDone > 0) {
+        const faqTotal = outline?.faqSection?.length ?? 0;
+        return `${sectionsDone} of ${outline?.outline?.length ?? '?'} sections${faqTotal > 0 ? `, ${answersDone} of ${faqTotal} FAQs` : ''}`;
+    }
+    if (outline) return checkpoint.outlineApproved === false ? 'Outline (awaiting approval)' : 'Outline';
+    return 'Research';
+};
@@ -0,0 +1,107 @@
+// =================================================================
+// 📚 PROMPT LIBRARY
+// =================================================================
+// Per-project overrides of the PROMPT_TEMPLATES system instructions,
+// with version history, template variables and a line diff against
+// the built-in default. callAI resolves the override (if any) and
+// fills in the variables before every request.
+// =================================================================
+
+/** Values substituted for the {{VARIABLE}} placeholders in system instructions. */
+export interface PromptVariables {
+    brandVoice: string;
+    year: string;
+    audience: string;
+}
+
+export const DEFAULT_PROMPT_VARIABLES: PromptVariables = {
+    brandVoice: 'a world-class thought leader like Alex Hormozi',
+    year: String(new Date().getFullYear()),
+    audience: 'the readers most likely to search for this topic',
+};
+
+/** The placeholder used in prompt text for each variable. */
+export const PROMPT_VARIABLE_PLACEHOLDERS: Record<keyof PromptVariables, string> = {
+    brandVoice: '{{BRAND_VOICE}}',
+    year: '{{YEAR}}',
+    audience: '{{AUDIENCE}}',
+};
+
+export interface PromptVersion {
+    text: string;
+    savedAt: string;
+}
+
+/** A project's customization of one prompt. */
+export interface PromptOverride {
+    /** The system instruction in use, or null to use the built-in default. */
+    text: string | null;
+    /** Saved versions, oldest first. */
+    history: PromptVersion[];
+}
+
+const MAX_PROMPT_VERSIONS = 25;
+
+/**
+ * Fills in the {{VARIABLE}} placeholders. Unknown placeholders (such as
+ * {{GEO_TARGET_INSTRUCTIONS}}) are left for the caller.
+ * @param text The prompt text.
+ * @param variables The project's variables. Empty values fall back to the defaults.
+ * @returns The prompt with all known variables replaced.
+ */
+export const applyPromptVariables = (text: string, variables: Partial<PromptVariables>): string => {
+    return (Object.keys(PROMPT_VARIABLE_PLACEHOLDERS) as (keyof PromptVariables)[]).reduce((result, key) => {
+        const value = variables[key]?.trim() || DEFAULT_PROMPT_VARIABLES[key];
+        return result.split(PROMPT_VARIABLE_PLACEHOLDERS[key]).join(value);
+    }, text);
+};
+
+/**
+ * Saves a new version of a prompt and makes it the active one.
+ * @param override The existing override, if any.
+ * @param text The new system instruction.
+ * @returns The updated override.
+ */
+export const savePromptVersion = (override: PromptOverride | undefined, text: string): PromptOverride => {
+    const history = [...(override?.history || []), { text, savedAt: new Date().toISOString() }];
+    return { text, history: history.slice(-MAX_PROMPT_VERSIONS) };
+};
+
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * A line-based diff (longest common subsequence), used to compare an
+ * override against the built-in prompt.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The lines of both texts, marked as unchanged, added or removed.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: a[i++] });
+        } else {
+            result.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) result.push({ type: 'added', text: b[j++] });
+    return result;
+};
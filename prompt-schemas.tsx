@@ -0,0 +1,299 @@
+// =================================================================
+// 🧩 STRUCTURED OUTPUT SCHEMAS
+// =================================================================
+// The JSON shape each JSON-returning prompt must produce. Providers
+// that support native structured output receive the schema with the
+// request; every response is validated against it in callAI, and
+// failures are re-prompted with the validation errors.
+// =================================================================
+
+/** The subset of JSON Schema understood by Gemini, OpenAI and Anthropic alike. */
+export type JsonSchema = {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+    minItems?: number;
+    minimum?: number;
+    maximum?: number;
+};
+
+/** The PROMPT_TEMPLATES keys that return JSON. */
+export type JsonPromptKey =
+    | 'cluster_planner'
+    | 'content_meta_and_outline'
+    | 'suggest_gap_sections'
+    | 'humanize_paragraphs'
+    | 'semantic_keyword_generator'
+    | 'seo_metadata_generator'
+    | 'translate_metadata'
+    | 'generate_references'
+    | 'content_rewrite_analyzer'
+    | 'content_health_analyzer';
+
+const stringArray = (description: string, minItems = 1): JsonSchema => ({
+    type: 'array',
+    description,
+    items: { type: 'string' },
+    minItems,
+});
+
+export const PROMPT_SCHEMAS: Record<JsonPromptKey, JsonSchema> = {
+    cluster_planner: {
+        type: 'object',
+        properties: {
+            pillarTitle: { type: 'string', description: 'Title of the comprehensive pillar article.' },
+            clusterTitles: stringArray('5 to 7 long-tail cluster article titles.'),
+        },
+        required: ['pillarTitle', 'clusterTitles'],
+    },
+    content_meta_and_outline: {
+        type: 'object',
+        properties: {
+            title: { type: 'string', description: 'SEO title, under 60 characters.' },
+            slug: { type: 'string' },
+            metaDescription: { type: 'string', description: '120-155 characters.' },
+            primaryKeyword: { type: 'string' },
+            semanticKeywords: stringArray('Semantic keywords used in the plan.', 0),
+            strategy: {
+                type: 'object',
+                properties: {
+                    targetAudience: { type: 'string' },
+                    searchIntent: { type: 'string' },
+                    competitorAnalysis: { type: 'string' },
+                    contentAngle: { type: 'string' },
+                },
+                required: ['targetAudience', 'searchIntent', 'competitorAnalysis', 'contentAngle'],
+            },
+            introduction: { type: 'string', description: 'Fully written introduction, as HTML.' },
+            keyTakeaways: stringArray('Key takeaways, as many as the content requirements ask for.'),
+            outline: stringArray('H2 headings, phrased as questions.'),
+            conclusion: { type: 'string', description: 'Fully written conclusion, as HTML.' },
+            faqSection: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { question: { type: 'string' } },
+                    required: ['question'],
+                },
+            },
+            imageDetails: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        prompt: { type: 'string' },
+                        altText: { type: 'string' },
+                        title: { type: 'string' },
+                        placeholder: { type: 'string', description: "'[IMAGE_1_PLACEHOLDER]' or '[IMAGE_2_PLACEHOLDER]'." },
+                    },
+                    required: ['prompt', 'altText', 'title', 'placeholder'],
+                },
+            },
+        },
+        // slug and strategy are optional here because normalizeGeneratedContent fills them in.
+        required: ['title', 'metaDescription', 'primaryKeyword', 'introduction', 'keyTakeaways', 'outline', 'conclusion', 'faqSection', 'imageDetails'],
+    },
+    suggest_gap_sections: {
+        type: 'object',
+        properties: {
+            headings: stringArray('New H2 headings for content gaps, phrased as questions.'),
+        },
+        required: ['headings'],
+    },
+    humanize_paragraphs: {
+        type: 'object',
+        properties: {
+            paragraphs: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'integer', minimum: 0 },
+                        html: { type: 'string', description: 'The rewritten inner HTML, without the wrapping tag.' },
+                    },
+                    required: ['id', 'html'],
+                },
+            },
+        },
+        required: ['paragraphs'],
+    },
+    semantic_keyword_generator: {
+        type: 'object',
+        properties: {
+            semanticKeywords: stringArray('15 to 25 semantic and LSI keywords.'),
+        },
+        required: ['semanticKeywords'],
+    },
+    seo_metadata_generator: {
+        type: 'object',
+        properties: {
+            seoTitle: { type: 'string', description: 'Max 60 characters.' },
+            metaDescription: { type: 'string', description: '120-155 characters.' },
+        },
+        required: ['seoTitle', 'metaDescription'],
+    },
+    translate_metadata: {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            slug: { type: 'string', description: 'Lower-case ASCII words joined by hyphens.' },
+            metaDescription: { type: 'string', description: '120-155 characters.' },
+            primaryKeyword: { type: 'string' },
+            semanticKeywords: stringArray('The semantic keywords, localized.', 0),
+            altTexts: stringArray('One alt text per image, in the order given.', 0),
+            socialMediaCopy: {
+                type: 'object',
+                properties: {
+                    twitter: { type: 'string' },
+                    linkedIn: { type: 'string' },
+                },
+                required: ['twitter', 'linkedIn'],
+            },
+        },
+        required: ['title', 'slug', 'metaDescription', 'primaryKeyword', 'semanticKeywords', 'altTexts', 'socialMediaCopy'],
+    },
+    generate_references: {
+        type: 'object',
+        properties: {
+            references: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string' },
+                        url: { type: 'string' },
+                    },
+                    required: ['title', 'url'],
+                },
+            },
+        },
+        required: ['references'],
+    },
+    content_rewrite_analyzer: {
+        type: 'object',
+        properties: {
+            critique: { type: 'string' },
+            suggestions: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    contentGaps: stringArray('Missing topics or user questions.', 0),
+                    freshness: { type: 'string' },
+                    eeat: { type: 'string' },
+                },
+                required: ['title', 'contentGaps', 'freshness', 'eeat'],
+            },
+        },
+        required: ['critique', 'suggestions'],
+    },
+    content_health_analyzer: {
+        type: 'object',
+        properties: {
+            healthScore: { type: 'integer', minimum: 0, maximum: 100 },
+            updatePriority: { type: 'string', enum: ['Critical', 'High', 'Medium', 'Healthy'] },
+            justification: { type: 'string' },
+        },
+        required: ['healthScore', 'updatePriority', 'justification'],
+    },
+};
+
+/**
+ * Looks up the output schema for a prompt.
+ * @param promptKey A PROMPT_TEMPLATES key.
+ * @returns The schema, or undefined if the prompt does not return JSON.
+ */
+export const getPromptSchema = (promptKey: string): JsonSchema | undefined => {
+    return (PROMPT_SCHEMAS as Record<string, JsonSchema>)[promptKey];
+};
+
+/**
+ * Checks a parsed value against a schema.
+ * @param value The parsed JSON value.
+ * @param schema The schema to check against.
+ * @param path The JSON path of `value`, used in error messages.
+ * @returns A list of human-readable errors. Empty if the value is valid.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+    const errors: string[] = [];
+
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path} must be an object.`];
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required || []) {
+                if (record[key] === undefined || record[key] === null) {
+                    errors.push(`${path}.${key} is required.`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            break;
+        }
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return [`${path} must be an array.`];
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${path} must have at least ${schema.minItems} item(s), got ${value.length}.`);
+            }
+            if (schema.items) {
+                value.forEach((entry, i) => errors.push(...validateJsonSchema(entry, schema.items!, `${path}[${i}]`)));
+            }
+            break;
+        }
+        case 'string':
+            if (typeof value !== 'string') {
+                return [`${path} must be a string.`];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                errors.push(`${path} must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}.`);
+            }
+            break;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+                return [`${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}.`];
+            }
+            if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}.`);
+            if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}.`);
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                return [`${path} must be a boolean.`];
+            }
+            break;
+    }
+
+    return errors;
+};
+
+/**
+ * Builds the follow-up prompt sent when a response fails validation.
+ * @param userPrompt The original user prompt.
+ * @param invalidResponse The response that failed.
+ * @param errors The validation errors to report back to the model.
+ * @returns A prompt asking for a corrected response.
+ */
+export const buildSchemaRepairPrompt = (userPrompt: string, invalidResponse: string, errors: string[]): string => {
+    const MAX_ERRORS = 20;
+    const MAX_RESPONSE_CHARS = 6000;
+    return `${userPrompt}
+
+**YOUR PREVIOUS RESPONSE WAS REJECTED.** It did not match the required JSON structure.
+<previous_response>
+${invalidResponse.substring(0, MAX_RESPONSE_CHARS)}
+</previous_response>
+
+**Validation errors:**
+${errors.slice(0, MAX_ERRORS).map(error => `- ${error}`).join('\n')}
+
+Return the complete, corrected JSON object only. Keep everything that was valid and fix every error listed above.`;
+};
@@ -0,0 +1,304 @@
+// =================================================================
+// 📖 READABILITY
+// =================================================================
+// The standard readability formulas (Flesch reading ease,
+// Flesch-Kincaid, Gunning Fog, SMOG, Coleman-Liau) plus passive voice,
+// sentence lengths and long paragraphs, for the whole article, each H2
+// section and each paragraph. Paragraph grades drive the heatmap in
+// the review modal's preview. The target grade comes from the project
+// style guide. The grade formulas and the passive check are English
+// only; other languages use their own adaptation of Flesch reading
+// ease, and their grades are read off the Flesch score table.
+// =================================================================
+
+import { DEFAULT_LANGUAGE } from './localization';
+
+/**
+ * The grade used when the project style guide sets no reading level. The writing prompts ask
+ * for a Flesch reading ease of 80 or more, which is roughly US grade 6-7.
+ */
+export const DEFAULT_TARGET_GRADE = 7;
+/** Grades this far above the target still count as "ok" rather than "hard". */
+const GRADE_TOLERANCE = 2;
+/** Texts shorter than this get no whole-text score; the formulas are unreliable on them. */
+const MIN_SCORED_WORDS = 100;
+export const LONG_PARAGRAPH_WORDS = 100;
+export const LONG_PARAGRAPH_SENTENCES = 4;
+
+export const SENTENCE_LENGTH_BUCKETS: { label: string; max: number }[] = [
+    { label: '1-10 words', max: 10 },
+    { label: '11-20 words', max: 20 },
+    { label: '21-30 words', max: 30 },
+    { label: '31+ words', max: Infinity },
+];
+
+// "be" or "get", an optional adverb, then a past participle: regular (-ed) or a common irregular one.
+const PASSIVE_PATTERN = /\b(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)\s+(?:\w+ly\s+)?(?:\w+ed|known|made|given|taken|written|seen|done|shown|found|built|held|kept|left|paid|sold|told|thought|brought|bought|caught|taught|chosen|driven|eaten|fallen|forgotten|hidden|spoken|stolen|broken|frozen|grown|thrown|worn|drawn|begun|born|sent|spent|lost|won|led|meant|met|understood)\b/i;
+
+/** Flesch reading ease as adapted to each language: base - perSentence × words per sentence - perSyllable × syllables per word. */
+const READING_EASE_FORMULAS: Record<string, { name: string; base: number; perSentence: number; perSyllable: number }> = {
+    en: { name: 'Flesch', base: 206.835, perSentence: 1.015, perSyllable: 84.6 },
+    es: { name: 'Fernández Huerta', base: 206.84, perSentence: 1.02, perSyllable: 60 },
+    fr: { name: 'Kandel-Moles', base: 207, perSentence: 1.015, perSyllable: 73.6 },
+    de: { name: 'Amstad', base: 180, perSentence: 1, perSyllable: 58.5 },
+    it: { name: 'Flesch-Vacca', base: 217, perSentence: 1.3, perSyllable: 60 },
+    pt: { name: 'Martins', base: 248.835, perSentence: 1.015, perSyllable: 84.6 },
+    nl: { name: 'Douma', base: 206.835, perSentence: 0.93, perSyllable: 77 },
+};
+
+/** The Flesch score table as [reading ease, US grade] points, easiest first. Grades in between are interpolated. */
+const EASE_TO_GRADE: [number, number][] = [[100, 4], [90, 5], [80, 6], [70, 7], [60, 9], [50, 12], [30, 16], [0, 18]];
+
+export type ReadabilityLevel = 'easy' | 'ok' | 'hard';
+
+/** Counts used by the formulas. */
+type TextStats = {
+    words: number;
+    sentences: number;
+    syllables: number;
+    /** Words of three or more syllables. */
+    polysyllables: number;
+    letters: number;
+};
+
+export interface ParagraphReadability {
+    /** Position among the article's p and li elements. */
+    index: number;
+    words: number;
+    sentences: number;
+    grade: number;
+    level: ReadabilityLevel;
+    isLong: boolean;
+}
+
+export interface SectionReadability {
+    heading: string;
+    words: number;
+    fleschReadingEase: number;
+    grade: number;
+    level: ReadabilityLevel;
+}
+
+export interface ReadabilityReport {
+    language: string;
+    targetGrade: number;
+    /** The language's adaptation of Flesch reading ease. */
+    fleschReadingEase: number;
+    /** The name of that adaptation, e.g. "Amstad" for German. */
+    readingEaseFormula: string;
+    fleschKincaidGrade: number;
+    gunningFog: number;
+    smog: number;
+    colemanLiau: number;
+    /** Mean of the four grade-level formulas. For languages other than English, the grade read off the reading ease. */
+    averageGrade: number;
+    level: ReadabilityLevel;
+    sentenceCount: number;
+    averageSentenceWords: number;
+    sentenceLengths: { label: string; count: number }[];
+    /** False for languages other than English, where passive sentences are not detected and both counts are 0. */
+    passiveChecked: boolean;
+    passiveSentences: number;
+    /** Share of sentences in the passive voice, 0-1. */
+    passiveRatio: number;
+    paragraphs: ParagraphReadability[];
+    longParagraphs: number;
+    sections: SectionReadability[];
+}
+
+export const countSyllables = (word: string, language: string = DEFAULT_LANGUAGE): number => {
+    if (language !== DEFAULT_LANGUAGE) {
+        // The other supported languages sound out nearly every vowel group; French drops a final "e" or "es".
+        let letters = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+        if (language === 'fr') letters = letters.replace(/(?<=\p{L}{2})es?$/u, '');
+        const groups = letters.match(/[aeiouyàáâãäåæèéêëìíîïòóôõöøœùúûüý]+/g);
+        return Math.max(1, groups ? groups.length : 0);
+    }
+    word = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (!word) return 0;
+    if (word.length <= 3) return 1;
+    // A final "e" is usually silent, except in "-le" endings like "table".
+    word = word.replace(/(?:[^laeiouy]es|[^laeiouydt]ed|[^laeiouy]e)$/, match => match[0]).replace(/^y/, '');
+    const groups = word.match(/[aeiouy]+/g);
+    return Math.max(1, groups ? groups.length : 0);
+};
+
+const getWords = (text: string): string[] => text.match(/\p{L}+(?:['’-]\p{L}+)*|\d+(?:[.,]\d+)*/gu) || [];
+
+/** Splits on sentence punctuation and on line breaks, which toText leaves at the end of each block. */
+const splitSentences = (text: string): string[] => {
+    return text.split(/(?<=[.!?])\s+|\s*\n\s*/).map(sentence => sentence.trim()).filter(sentence => getWords(sentence).length > 0);
+};
+
+const getTextStats = (text: string, language: string = DEFAULT_LANGUAGE): TextStats => {
+    const words = getWords(text);
+    let syllables = 0;
+    let polysyllables = 0;
+    let letters = 0;
+    words.forEach(word => {
+        const count = countSyllables(word, language);
+        syllables += count;
+        if (count >= 3) polysyllables++;
+        letters += word.replace(/[^\p{L}\p{N}]/gu, '').length;
+    });
+    return { words: words.length, sentences: Math.max(1, splitSentences(text).length), syllables, polysyllables, letters };
+};
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const getReadingEaseFormula = (language: string) => READING_EASE_FORMULAS[language] || READING_EASE_FORMULAS[DEFAULT_LANGUAGE];
+
+const fleschReadingEase = (stats: TextStats, language: string = DEFAULT_LANGUAGE): number => {
+    const { base, perSentence, perSyllable } = getReadingEaseFormula(language);
+    return Math.min(100, Math.max(0, base - perSentence * (stats.words / stats.sentences) - perSyllable * (stats.syllables / stats.words)));
+};
+
+const easeToGrade = (ease: number): number => {
+    for (let i = 1; i < EASE_TO_GRADE.length; i++) {
+        const [easeAbove, gradeAbove] = EASE_TO_GRADE[i - 1];
+        const [easeBelow, gradeBelow] = EASE_TO_GRADE[i];
+        if (ease >= easeBelow) return gradeAbove + ((easeAbove - ease) / (easeAbove - easeBelow)) * (gradeBelow - gradeAbove);
+    }
+    return EASE_TO_GRADE[EASE_TO_GRADE.length - 1][1];
+};
+
+const fleschKincaid = (stats: TextStats): number => Math.max(0, 0.39 * (stats.words / stats.sentences) + 11.8 * (stats.syllables / stats.words) - 15.59);
+
+const gunningFog = (stats: TextStats): number => 0.4 * ((stats.words / stats.sentences) + 100 * (stats.polysyllables / stats.words));
+
+// SMOG is defined on 30 sentences; the formula scales the count to that sample size.
+const smog = (stats: TextStats): number => 1.043 * Math.sqrt(stats.polysyllables * (30 / stats.sentences)) + 3.1291;
+
+const colemanLiau = (stats: TextStats): number => {
+    const lettersPer100 = (stats.letters / stats.words) * 100;
+    const sentencesPer100 = (stats.sentences / stats.words) * 100;
+    return Math.max(0, 0.0588 * lettersPer100 - 0.296 * sentencesPer100 - 15.8);
+};
+
+/** Flesch-Kincaid for English. Its coefficients don't carry over, so other languages convert their reading ease. */
+const gradeLevel = (stats: TextStats, language: string): number => {
+    return language === DEFAULT_LANGUAGE ? fleschKincaid(stats) : easeToGrade(fleschReadingEase(stats, language));
+};
+
+const getLevel = (grade: number, targetGrade: number): ReadabilityLevel => {
+    if (grade <= targetGrade) return 'easy';
+    if (grade <= targetGrade + GRADE_TOLERANCE) return 'ok';
+    return 'hard';
+};
+
+/** The language's Flesch reading ease (0-100, higher is easier), rounded. 0 for texts too short to score. */
+export const calculateFleschReadability = (text: string, language: string = DEFAULT_LANGUAGE): number => {
+    const stats = getTextStats(text, language);
+    return stats.words < MIN_SCORED_WORDS ? 0 : Math.round(fleschReadingEase(stats, language));
+};
+
+/**
+ * The Flesch-Kincaid grade level: the US school grade needed to follow the text. Other languages
+ * get the grade of their reading ease instead. 0 for very short texts.
+ */
+export const calculateFleschKincaidGrade = (text: string, language: string = DEFAULT_LANGUAGE): number => {
+    const stats = getTextStats(text, language);
+    return stats.words < MIN_SCORED_WORDS ? 0 : gradeLevel(stats, language);
+};
+
+/** Plain text with a line break after each block, so headings and list items without a final period still end a sentence. */
+const toText = (html: string): string => html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(?:p|li|h[1-6]|td|th|blockquote|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+
+/** The text of each p and li element, in document order. */
+const extractParagraphs = (html: string): string[] => (html.match(/<(p|li)\b[^>]*>[\s\S]*?<\/\1>/gi) || []).map(toText);
+
+/**
+ * Scores the readability of an article as a whole, per section and per paragraph.
+ * @param html The article HTML.
+ * @param targetGrade The highest US grade the text should need.
+ * @param sections The article's H2 sections, for the per-section scores.
+ * @param language The article's language.
+ * @returns The full report. Whole-text scores are 0 when the article is under 100 words.
+ */
+export const analyzeReadability = (html: string, targetGrade: number, sections: { heading: string; bodyHtml: string }[] = [], language: string = DEFAULT_LANGUAGE): ReadabilityReport => {
+    const text = toText(html);
+    const stats = getTextStats(text, language);
+    const hasEnoughText = stats.words >= MIN_SCORED_WORDS;
+    const isEnglish = language === DEFAULT_LANGUAGE;
+
+    const sentences = splitSentences(text);
+    const sentenceWordCounts = sentences.map(sentence => getWords(sentence).length);
+    const passiveSentences = isEnglish ? sentences.filter(sentence => PASSIVE_PATTERN.test(sentence)).length : 0;
+
+    const grades = hasEnoughText ? { fleschKincaidGrade: fleschKincaid(stats), gunningFog: gunningFog(stats), smog: smog(stats), colemanLiau: colemanLiau(stats) } : { fleschKincaidGrade: 0, gunningFog: 0, smog: 0, colemanLiau: 0 };
+    const averageGrade = !isEnglish ? (hasEnoughText ? gradeLevel(stats, language) : 0)
+        : (grades.fleschKincaidGrade + grades.gunningFog + grades.smog + grades.colemanLiau) / 4;
+
+    const paragraphs: ParagraphReadability[] = extractParagraphs(html).map((paragraph, index) => {
+        const paragraphStats = getTextStats(paragraph, language);
+        // Paragraphs are short, so they use one formula (Flesch-Kincaid in English); it is the least noisy on small samples.
+        const grade = paragraphStats.words > 0 ? round(gradeLevel(paragraphStats, language)) : 0;
+        return {
+            index,
+            words: paragraphStats.words,
+            sentences: paragraphStats.sentences,
+            grade,
+            level: getLevel(grade, targetGrade),
+            isLong: paragraphStats.words > LONG_PARAGRAPH_WORDS || paragraphStats.sentences > LONG_PARAGRAPH_SENTENCES,
+        };
+    });
+
+    return {
+        language,
+        targetGrade,
+        fleschReadingEase: hasEnoughText ? Math.round(fleschReadingEase(stats, language)) : 0,
+        readingEaseFormula: getReadingEaseFormula(language).name,
+        fleschKincaidGrade: round(grades.fleschKincaidGrade),
+        gunningFog: round(grades.gunningFog),
+        smog: round(grades.smog),
+        colemanLiau: round(grades.colemanLiau),
+        averageGrade: round(averageGrade),
+        level: getLevel(averageGrade, targetGrade),
+        sentenceCount: sentences.length,
+        averageSentenceWords: sentences.length > 0 ? round(stats.words / sentences.length) : 0,
+        sentenceLengths: SENTENCE_LENGTH_BUCKETS.map((bucket, i) => ({
+            label: bucket.label,
+            count: sentenceWordCounts.filter(count => count <= bucket.max && (i === 0 || count > SENTENCE_LENGTH_BUCKETS[i - 1].max)).length,
+        })),
+        passiveChecked: isEnglish,
+        passiveSentences,
+        passiveRatio: sentences.length > 0 ? passiveSentences / sentences.length : 0,
+        paragraphs,
+        longParagraphs: paragraphs.filter(paragraph => paragraph.isLong).length,
+        sections: sections.map(section => {
+            const sectionStats = getTextStats(toText(section.bodyHtml), language);
+            const grade = sectionStats.words > 0 ? round(gradeLevel(sectionStats, language)) : 0;
+            return {
+                heading: section.heading,
+                words: sectionStats.words,
+                fleschReadingEase: sectionStats.words > 0 ? Math.round(fleschReadingEase(sectionStats, language)) : 0,
+                grade,
+                level: getLevel(grade, targetGrade),
+            };
+        }),
+    };
+};
+
+/**
+ * Tags each paragraph of an article with its readability level for the preview heatmap.
+ * The result is for display only and is never saved.
+ * @param html The article HTML.
+ * @param paragraphs The paragraphs from analyzeReadability.
+ * @returns The HTML with data-readability (and data-long-paragraph) attributes on each p and li.
+ */
+export const highlightReadability = (html: string, paragraphs: ParagraphReadability[]): string => {
+    let index = 0;
+    return html.replace(/<(p|li)\b([^>]*)>([\s\S]*?)<\/\1>/gi, (block, tag: string, attributes: string, innerHtml: string) => {
+        const paragraph = paragraphs[index++];
+        if (!paragraph || paragraph.words === 0) return block;
+        const title = `Grade ${paragraph.grade} · ${paragraph.words} words, ${paragraph.sentences} sentence(s)${paragraph.isLong ? ' · long paragraph' : ''}`;
+        return `<${tag}${attributes} data-readability="${paragraph.level}"${paragraph.isLong ? ' data-long-paragraph="true"' : ''} title="${title}">${innerHtml}</${tag}>`;
+    });
+};
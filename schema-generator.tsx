@@ -1,6 +1,7 @@
 
 
 import { GeneratedContent, SiteInfo, ExpandedGeoTargeting, Reviewer } from './index.tsx';
+import { DEFAULT_LANGUAGE } from './localization';
 
 export type WpConfig = {
     url: string;
@@ -106,6 +107,8 @@ function createArticleSchema(content: GeneratedContent, wpConfig: WpConfig, orgS
             "@id": `${wpConfig.url.replace(/\/+$/, '')}/${content.slug}`,
         },
         "keywords": content.semanticKeywords && content.semanticKeywords.length > 0 ? content.semanticKeywords.join(', ') : undefined,
+        "inLanguage": content.language || DEFAULT_LANGUAGE,
+        "translationOfWork": content.translationOfUrl ? { "@id": content.translationOfUrl } : undefined,
     };
 }
 
@@ -188,6 +191,33 @@ function createFaqSchemaFromHtml(content: GeneratedContent) {
     };
 }
 
+/**
+ * Reads the question/answer pairs back out of an article's FAQ block
+ * (`<div class="faq-section">` with an h3 per question followed by its answer).
+ * Used when the article was rewritten after generation, e.g. translated.
+ * @param html The article HTML.
+ * @returns The FAQ data in the form generateFullSchema expects. Empty when there is no FAQ block.
+ */
+export function extractFaqData(html: string): { question: string, answer: string }[] {
+    const tempDiv = document.createElement('div');
+    tempDiv.innerHTML = html;
+    const faqData: { question: string, answer: string }[] = [];
+
+    tempDiv.querySelectorAll('.faq-section h3').forEach(heading => {
+        const answerParts: string[] = [];
+        let nextElement = heading.nextElementSibling;
+        while (nextElement && !['H2', 'H3'].includes(nextElement.tagName)) {
+            answerParts.push(nextElement.tagName === 'P' ? nextElement.innerHTML.trim() : nextElement.outerHTML);
+            nextElement = nextElement.nextElementSibling;
+        }
+        const question = heading.textContent?.trim();
+        const answer = answerParts.join(' ').trim();
+        if (question && answer) faqData.push({ question, answer });
+    });
+
+    return faqData;
+}
+
 // ADD: Implement and export `generateFullSchema` and `generateSchemaMarkup` to resolve import errors in index.tsx.
 /**
  * Generates a comprehensive JSON-LD schema graph.
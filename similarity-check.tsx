@@ -0,0 +1,178 @@
+// =================================================================
+// 🔍 NEAR-DUPLICATE CHECK
+// =================================================================
+// Compares generated articles with the crawled text of the site's
+// pages and with the other finished articles in the batch, entirely in
+// the browser. Every document is reduced to hashed word 5-gram
+// shingles kept in one inverted index, so an article is checked
+// against the whole corpus in a single pass over its own shingles.
+// A paragraph counts as overlapping when most of its shingles appear
+// in one source.
+// =================================================================
+
+const SHINGLE_SIZE = 5;
+/** Share of a paragraph's shingles that must appear in one source for it to be flagged. */
+const PASSAGE_CONTAINMENT = 0.5;
+/** Paragraphs with fewer shingles than this are too short to judge. */
+const MIN_PASSAGE_SHINGLES = 8;
+const MAX_MATCHES = 5;
+/** Scores at or above these are shown as a warning or an error. */
+export const SIMILARITY_WARNING_SCORE = 15;
+export const SIMILARITY_ERROR_SCORE = 30;
+
+export interface SimilaritySource {
+    id: string;
+    title: string;
+    url?: string;
+    /** A crawled site page, or another article in the batch. */
+    kind: 'page' | 'item';
+    text: string;
+}
+
+export interface SimilarityIndex {
+    sources: SimilaritySource[];
+    /** Shingle hash → indexes of the sources that contain it. */
+    postings: Map<number, number[]>;
+}
+
+export interface SimilarityMatch {
+    sourceId: string;
+    title: string;
+    url?: string;
+    kind: SimilaritySource['kind'];
+    /** Share of the article's shingles that also appear in this source, 0-1. */
+    containment: number;
+}
+
+export interface OverlappingPassage {
+    /** Position of the paragraph among the article's p and li elements. */
+    paragraphIndex: number;
+    text: string;
+    sourceId: string;
+    sourceTitle: string;
+    /** Share of the paragraph's shingles found in the source, 0-1. */
+    containment: number;
+}
+
+export interface SimilarityReport {
+    /** Containment against the closest source, 0-100. */
+    score: number;
+    /** The closest sources, most similar first. */
+    matches: SimilarityMatch[];
+    passages: OverlappingPassage[];
+}
+
+/** 32-bit FNV-1a hash. Shingles are stored as numbers to keep the index small. */
+const hashShingle = (shingle: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < shingle.length; i++) {
+        hash ^= shingle.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const toShingleHashes = (text: string): Set<number> => {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+    const hashes = new Set<number>();
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        hashes.add(hashShingle(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+    }
+    return hashes;
+};
+
+/** The text of each p and li element, in document order. */
+const extractParagraphs = (html: string): string[] => {
+    return (html.match(/<(p|li)\b[^>]*>[\s\S]*?<\/\1>/gi) || [])
+        .map(block => block.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim());
+};
+
+/**
+ * Indexes the shingles of every source document.
+ * @param sources The crawled pages and finished articles to compare against.
+ * @returns An index for checkSimilarity.
+ */
+export const buildSimilarityIndex = (sources: SimilaritySource[]): SimilarityIndex => {
+    const postings = new Map<number, number[]>();
+    sources.forEach((source, sourceIndex) => {
+        toShingleHashes(source.text).forEach(hash => {
+            const list = postings.get(hash);
+            if (list) list.push(sourceIndex);
+            else postings.set(hash, [sourceIndex]);
+        });
+    });
+    return { sources, postings };
+};
+
+/**
+ * Checks an article against every indexed source.
+ * @param articleHtml The article HTML.
+ * @param index The index from buildSimilarityIndex.
+ * @param excludeIds Sources to skip: the article itself and the page it rewrites.
+ * @returns The overall score, the closest sources and the overlapping paragraphs.
+ */
+export const checkSimilarity = (articleHtml: string, index: SimilarityIndex, excludeIds: (string | undefined)[]): SimilarityReport => {
+    const excluded = new Set(index.sources.map((source, i) => excludeIds.includes(source.id) ? i : -1).filter(i => i >= 0));
+    const sharedBySource = new Map<number, number>();
+    const passages: OverlappingPassage[] = [];
+    const articleHashes = new Set<number>();
+
+    extractParagraphs(articleHtml).forEach((text, paragraphIndex) => {
+        const hashes = toShingleHashes(text);
+        const sharedInParagraph = new Map<number, number>();
+        hashes.forEach(hash => {
+            const isNew = !articleHashes.has(hash);
+            articleHashes.add(hash);
+            (index.postings.get(hash) || []).forEach(sourceIndex => {
+                if (excluded.has(sourceIndex)) return;
+                sharedInParagraph.set(sourceIndex, (sharedInParagraph.get(sourceIndex) || 0) + 1);
+                if (isNew) sharedBySource.set(sourceIndex, (sharedBySource.get(sourceIndex) || 0) + 1);
+            });
+        });
+        if (hashes.size < MIN_PASSAGE_SHINGLES) return;
+
+        let closest: { sourceIndex: number; shared: number } | null = null;
+        for (const [sourceIndex, shared] of sharedInParagraph) {
+            if (!closest || shared > closest.shared) closest = { sourceIndex, shared };
+        }
+        if (closest && closest.shared / hashes.size >= PASSAGE_CONTAINMENT) {
+            const source = index.sources[closest.sourceIndex];
+            passages.push({ paragraphIndex, text, sourceId: source.id, sourceTitle: source.title, containment: closest.shared / hashes.size });
+        }
+    });
+
+    const matches: SimilarityMatch[] = [...sharedBySource.entries()]
+        .map(([sourceIndex, shared]) => {
+            const source = index.sources[sourceIndex];
+            return { sourceId: source.id, title: source.title, url: source.url, kind: source.kind, containment: shared / (articleHashes.size || 1) };
+        })
+        .sort((a, b) => b.containment - a.containment)
+        .slice(0, MAX_MATCHES);
+
+    return { score: Math.round((matches[0]?.containment ?? 0) * 100), matches, passages };
+};
+
+/**
+ * Marks the overlapping paragraphs of an article for the preview. The result is for
+ * display only and is never saved.
+ * @param articleHtml The article HTML.
+ * @param passages The passages from checkSimilarity.
+ * @returns The HTML with each overlapping paragraph's text wrapped in a mark.
+ */
+export const highlightOverlaps = (articleHtml: string, passages: OverlappingPassage[]): string => {
+    if (passages.length === 0) return articleHtml;
+    const byParagraph = new Map(passages.map(passage => [passage.paragraphIndex, passage]));
+    let paragraphIndex = 0;
+    return articleHtml.replace(/(<(p|li)\b[^>]*>)([\s\S]*?)(<\/\2>)/gi, (block, openingTag, _tag, innerHtml, closingTag) => {
+        const passage = byParagraph.get(paragraphIndex++);
+        if (!passage) return block;
+        const title = `Overlaps "${passage.sourceTitle}" (${Math.round(passage.containment * 100)}%)`.replace(/"/g, '&quot;');
+        return `${openingTag}<mark class="similarity-overlap" title="${title}">${innerHtml}</mark>${closingTag}`;
+    });
+};
+
+export const getSimilarityLevel = (score: number): 'low' | 'medium' | 'high' => {
+    if (score >= SIMILARITY_ERROR_SCORE) return 'high';
+    if (score >= SIMILARITY_WARNING_SCORE) return 'medium';
+    return 'low';
+};
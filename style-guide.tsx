@@ -0,0 +1,169 @@
+// =================================================================
+// ✍️ PROJECT STYLE GUIDE
+// =================================================================
+// Each project's voice: preferred and banned terms, reading level,
+// person, tense, capitalization and sample paragraphs. callAI appends
+// the guide to the prompts that write article text, and the finished
+// article is checked against the rules that can be verified from the
+// text (terms, capitalization, reading level, person). Tense, heading
+// case and the samples only guide the model.
+// =================================================================
+
+export interface StyleGuide {
+    /** One rule per line: `preferred term: variant, variant`. */
+    preferredTerms: string;
+    /** Comma- or line-separated. Checked on top of the built-in AI phrase list. */
+    bannedTerms: string;
+    /** Highest US school grade (Flesch-Kincaid) the text should need. 0 means no target. */
+    readingLevel: number;
+    person: 'any' | 'first' | 'second' | 'third';
+    tense: 'any' | 'present' | 'past';
+    headingCase: 'any' | 'sentence' | 'title';
+    /** Terms that must keep this exact capitalization, comma- or line-separated. */
+    capitalizedTerms: string;
+    sampleParagraphs: string;
+}
+
+export const DEFAULT_STYLE_GUIDE: StyleGuide = {
+    preferredTerms: '',
+    bannedTerms: '',
+    readingLevel: 0,
+    person: 'any',
+    tense: 'any',
+    headingCase: 'any',
+    capitalizedTerms: '',
+    sampleParagraphs: '',
+};
+
+/** How many grades above the target the text may read before it is flagged. */
+const READING_LEVEL_TOLERANCE = 1;
+const MAX_SAMPLE_CHARS = 2000;
+
+const PERSON_LABELS: Record<Exclude<StyleGuide['person'], 'any'>, string> = {
+    first: 'the first person ("we", "I"), speaking as the brand',
+    second: 'the second person ("you"), addressing the reader directly',
+    third: 'the third person, with no "I", "we" or "you"',
+};
+
+const HEADING_CASE_LABELS: Record<Exclude<StyleGuide['headingCase'], 'any'>, string> = {
+    sentence: 'sentence case (only the first word and proper nouns capitalized)',
+    title: 'title case',
+};
+
+/** A style guide rule the article breaks. */
+export type StyleViolation = {
+    rule: 'preferredTerm' | 'bannedTerm' | 'capitalization' | 'readingLevel' | 'person';
+    message: string;
+    count: number;
+    /** Up to three snippets of the offending text. */
+    examples: string[];
+};
+
+const splitList = (value: string): string[] => value.split(/[\n,]/).map(term => term.trim()).filter(term => term.length > 0);
+
+const escapePattern = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Parses the preferred terms field into `{ preferred, variants }` rules. Lines without a colon are ignored. */
+const parsePreferredTerms = (value: string): { preferred: string; variants: string[] }[] => {
+    return value.split('\n')
+        .map(line => line.split(':'))
+        .filter(parts => parts.length === 2 && parts[0].trim())
+        .map(([preferred, variants]) => ({ preferred: preferred.trim(), variants: splitList(variants) }))
+        .filter(rule => rule.variants.length > 0);
+};
+
+export const isStyleGuideEmpty = (guide: StyleGuide): boolean => {
+    return !guide.preferredTerms.trim() && !guide.bannedTerms.trim() && !guide.readingLevel
+        && guide.person === 'any' && guide.tense === 'any' && guide.headingCase === 'any'
+        && !guide.capitalizedTerms.trim() && !guide.sampleParagraphs.trim();
+};
+
+/**
+ * Formats a style guide as the block appended to article-writing prompts.
+ * @param guide The project's style guide.
+ * @returns The prompt block, or an empty string if the guide sets nothing.
+ */
+export const formatStyleGuideForPrompt = (guide: StyleGuide): string => {
+    if (isStyleGuideEmpty(guide)) return '';
+    const rules: string[] = [];
+    if (guide.person !== 'any') rules.push(`Write in ${PERSON_LABELS[guide.person]}.`);
+    if (guide.tense !== 'any') rules.push(`Write in the ${guide.tense} tense.`);
+    if (guide.readingLevel > 0) rules.push(`Keep the text readable at a US grade ${guide.readingLevel} level or below.`);
+    if (guide.headingCase !== 'any') rules.push(`Write headings in ${HEADING_CASE_LABELS[guide.headingCase]}.`);
+    parsePreferredTerms(guide.preferredTerms).forEach(({ preferred, variants }) => {
+        rules.push(`Write "${preferred}", never ${variants.map(variant => `"${variant}"`).join(' or ')}.`);
+    });
+    const banned = splitList(guide.bannedTerms);
+    if (banned.length > 0) rules.push(`Never use these terms: ${banned.map(term => `"${term}"`).join(', ')}.`);
+    const capitalized = splitList(guide.capitalizedTerms);
+    if (capitalized.length > 0) rules.push(`Always capitalize these exactly as shown: ${capitalized.map(term => `"${term}"`).join(', ')}.`);
+
+    const samples = guide.sampleParagraphs.trim();
+    return `
+
+**PROJECT STYLE GUIDE (these rules override any conflicting style rule above):**
+${rules.map(rule => `- ${rule}`).join('\n')}${samples ? `
+- Match the voice, rhythm and vocabulary of these sample paragraphs. Do not copy them.
+<style_samples>
+${samples.substring(0, MAX_SAMPLE_CHARS)}
+</style_samples>` : ''}`;
+};
+
+/** Finds every match of a pattern and returns the count and a few surrounding snippets. */
+const findMatches = (text: string, pattern: RegExp, keep: (match: string) => boolean = () => true): { count: number; examples: string[] } => {
+    const examples: string[] = [];
+    let count = 0;
+    for (const match of text.matchAll(pattern)) {
+        if (!keep(match[0])) continue;
+        count++;
+        if (examples.length < 3) {
+            const start = Math.max(0, match.index! - 40);
+            examples.push(`…${text.substring(start, match.index! + match[0].length + 40).trim()}…`);
+        }
+    }
+    return { count, examples };
+};
+
+/**
+ * Checks an article's text against the rules of a style guide that can be verified
+ * from the text alone.
+ * @param text The article as plain text.
+ * @param guide The project's style guide.
+ * @param readingGrade The text's Flesch-Kincaid grade level.
+ * @returns One entry per broken rule. Empty if the text follows the guide.
+ */
+export const checkStyleGuide = (text: string, guide: StyleGuide, readingGrade: number): StyleViolation[] => {
+    const violations: StyleViolation[] = [];
+
+    parsePreferredTerms(guide.preferredTerms).forEach(({ preferred, variants }) => {
+        variants.forEach(variant => {
+            const { count, examples } = findMatches(text, new RegExp(`\\b${escapePattern(variant)}\\b`, 'gi'));
+            if (count > 0) violations.push({ rule: 'preferredTerm', message: `Use "${preferred}" instead of "${variant}".`, count, examples });
+        });
+    });
+
+    splitList(guide.bannedTerms).forEach(term => {
+        const { count, examples } = findMatches(text, new RegExp(`\\b${escapePattern(term)}\\b`, 'gi'));
+        if (count > 0) violations.push({ rule: 'bannedTerm', message: `Banned term "${term}".`, count, examples });
+    });
+
+    splitList(guide.capitalizedTerms).forEach(term => {
+        const { count, examples } = findMatches(text, new RegExp(`\\b${escapePattern(term)}\\b`, 'gi'), match => match !== term);
+        if (count > 0) violations.push({ rule: 'capitalization', message: `Write "${term}" with this exact capitalization.`, count, examples });
+    });
+
+    if (guide.readingLevel > 0 && readingGrade > guide.readingLevel + READING_LEVEL_TOLERANCE) {
+        violations.push({ rule: 'readingLevel', message: `Reads at grade ${readingGrade.toFixed(1)}; the target is grade ${guide.readingLevel}. Shorten sentences and prefer simpler words.`, count: 1, examples: [] });
+    }
+
+    // Only pronouns that clearly break the voice are flagged: second-person copy can still say "we".
+    const pronounPattern = guide.person === 'third' ? /\b(I|me|my|we|our|us|you|your|yours)\b/gi
+        : guide.person === 'second' ? /\b(I|me|my)\b/g
+        : null;
+    if (pronounPattern) {
+        const { count, examples } = findMatches(text, pronounPattern);
+        if (count > 0) violations.push({ rule: 'person', message: `Pronouns that break the ${guide.person}-person voice.`, count, examples });
+    }
+
+    return violations;
+};